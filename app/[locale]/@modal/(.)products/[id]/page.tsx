@@ -0,0 +1,31 @@
+import React from 'react';
+import QuickViewDialog from '@/components/quickview/QuickViewDialog';
+import { loadProduct, readProductId } from '@/lib/server/product';
+import { readQueryParam } from '@/lib/server/search';
+import { isLocale } from '@/lib/i18n/config';
+
+/**
+ * Props for the intercepted /[locale]/products/[id] route
+ */
+interface QuickViewPageProps {
+  params: Promise<{ locale: string; id: string }>;
+  searchParams: Promise<{ q?: string | string[] }>;
+}
+
+/**
+ * Quick view - /[locale]/products/[id]?q= opened from within the app
+ * 
+ * Client navigations to a product render here, over the current page;
+ * full loads of the same URL render the product page instead. Products
+ * that fail to load render nothing and leave the page as it was.
+ */
+export default async function QuickViewPage({ params, searchParams }: QuickViewPageProps) {
+  const { locale, id } = await params;
+  const productId = readProductId(id);
+  if (!isLocale(locale) || productId === null) return null;
+
+  const { item, query } = await loadProduct(productId, readQueryParam((await searchParams).q), locale);
+  if (!item) return null;
+
+  return <QuickViewDialog item={item} query={query} />;
+}
@@ -0,0 +1,7 @@
+/**
+ * Closes the quick view on client navigations to any other page
+ * Without it the slot would keep showing the last product it rendered.
+ */
+export default function ModalCatchAll() {
+  return null;
+}
@@ -0,0 +1,6 @@
+/**
+ * @modal slot when no quick view is open
+ */
+export default function ModalDefault() {
+  return null;
+}
@@ -0,0 +1,6 @@
+/**
+ * Closes the quick view on client navigations back to the home page
+ */
+export default function ModalHome() {
+  return null;
+}
@@ -0,0 +1,109 @@
+import React, { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import SearchBarIsland from '@/components/search/SearchBarIsland';
+import ResultList from '@/components/results/ResultList';
+import RoutedResultList from '@/components/results/RoutedResultList';
+import { loadCategoryResults } from '@/lib/server/search';
+import { getCategory, type Category } from '@/lib/categories';
+import { getCategoryHref } from '@/lib/routes';
+import { isLocale, LOCALES, type Locale } from '@/lib/i18n/config';
+import { getTranslator } from '@/lib/i18n/translator';
+
+/**
+ * Props for the /[locale]/category/[slug] route
+ */
+interface CategoryPageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+// Rendered per request: filters come from the URL and deals follow today's discounts
+export const dynamic = 'force-dynamic';
+
+/**
+ * Route locale and category (404 for unknown slugs)
+ */
+async function readParams(params: CategoryPageProps['params']): Promise<{ locale: Locale; category: Category }> {
+  const { locale, slug } = await params;
+  const category = getCategory(slug);
+  if (!isLocale(locale) || !category) notFound();
+  return { locale, category };
+}
+
+/**
+ * Per-category metadata, e.g. "Raquetas — Za-🦆🦆🦆"
+ * Shares the backend requests with the page through loadCategoryResults
+ */
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const { locale, category } = await readParams(params);
+  const t = getTranslator(locale);
+  const name = t(`nav.categories.${category.slug}`);
+  const result = await loadCategoryResults(category, locale);
+
+  return {
+    title: t('metadata.categoryTitle', { category: name }),
+    description: t('metadata.categoryDescription', { count: result.data?.totalItems ?? 0, category: name }),
+    alternates: {
+      canonical: getCategoryHref(category.slug, locale),
+      languages: Object.fromEntries(LOCALES.map(code => [code, getCategoryHref(category.slug, code)])),
+    },
+  };
+}
+
+/**
+ * Category grid, fetched on the server and streamed into the page
+ */
+async function CategoryResults({ category, locale }: { category: Category; locale: Locale }) {
+  const { data, error } = await loadCategoryResults(category, locale);
+
+  return (
+    <RoutedResultList
+      data={data}
+      status={error ? 'error' : 'success'}
+      error={error}
+      className="w-full"
+    />
+  );
+}
+
+/**
+ * Server-rendered category page - /[locale]/category/[slug]
+ * 
+ * Lists the products matching the category's rule (lib/categories)
+ * through the same result list as the search page.
+ */
+export default async function CategoryPage({ params }: CategoryPageProps) {
+  const { locale, category } = await readParams(params);
+  const t = getTranslator(locale);
+  const name = t(`nav.categories.${category.slug}`);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* E-commerce Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-10 space-y-10 max-w-5xl" role="main">
+        {/* Category Section */}
+        <section aria-labelledby="category-heading" className="space-y-6">
+          <h1 id="category-heading" className="text-2xl lg:text-3xl font-light text-foreground tracking-wide text-center" data-testid="category-title">
+            {name}
+          </h1>
+          <SearchBarIsland initialQuery="" className="mx-auto" />
+        </section>
+
+        {/* Streamed Results Section */}
+        <section aria-label={t('categoryPage.resultsLabel', { category: name })} className="space-y-6">
+          <Suspense fallback={<ResultList status="loading" className="w-full" />}>
+            <CategoryResults category={category} locale={locale} />
+          </Suspense>
+        </section>
+      </main>
+
+      {/* Enhanced Footer */}
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import "../globals.css";
+import type { Metadata, Viewport } from "next";
+import { notFound } from "next/navigation";
+import CartDrawer from "@/components/cart/CartDrawer";
+import ReconciliationOverlay from "@/components/dev/ReconciliationOverlay";
+import CartProvider from "@/components/providers/CartProvider";
+import CurrencyProvider from "@/components/providers/CurrencyProvider";
+import I18nProvider from "@/components/providers/I18nProvider";
+import QuickViewProvider from "@/components/providers/QuickViewProvider";
+import WishlistProvider from "@/components/providers/WishlistProvider";
+import { getMaxDiscountPercentage } from "@/lib/discounts/engine";
+import { isLocale, LOCALES } from "@/lib/i18n/config";
+import { getTranslator } from "@/lib/i18n/translator";
+
+/**
+ * Params of every page under /[locale]
+ */
+interface LocaleLayoutProps {
+  children: React.ReactNode;
+  /** @modal slot: the quick view when a product is opened from the results */
+  modal: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+// Only the supported locales exist; anything else is a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map(locale => ({ locale }));
+}
+
+export async function generateMetadata({ params }: Pick<LocaleLayoutProps, 'params'>): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  const t = getTranslator(locale);
+  return {
+    title: t('metadata.title'),
+    description: t('metadata.description', { max: getMaxDiscountPercentage() }),
+    keywords: t('metadata.keywords'),
+    authors: [{ name: "Za-🦆🦆🦆 Team" }],
+    alternates: {
+      languages: Object.fromEntries(LOCALES.map(code => [code, `/${code}`])),
+    },
+  };
+}
+
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+};
+
+export default async function LocaleLayout({
+  children,
+  modal,
+  params,
+}: LocaleLayoutProps) {
+  const { locale } = await params;
+  if (!isLocale(locale)) {
+    notFound();
+  }
+
+  return (
+    <html lang={locale}>
+      <body className="min-h-screen bg-background text-foreground antialiased font-light tracking-wide">
+        <I18nProvider locale={locale}>
+          <CurrencyProvider>
+            <CartProvider>
+              <WishlistProvider>
+                <QuickViewProvider>
+                  {children}
+                  {modal}
+                </QuickViewProvider>
+                <CartDrawer />
+              </WishlistProvider>
+            </CartProvider>
+          </CurrencyProvider>
+          {process.env.NODE_ENV === 'development' && <ReconciliationOverlay />}
+        </I18nProvider>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import React, { Suspense, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import SearchBar from '@/components/search/SearchBar';
+import ResultList from '@/components/results/ResultList';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import LoadingSkeleton from '@/components/feedback/LoadingSkeleton';
+import { useSearch } from '@/lib/useSearch';
+import { getProductHref } from '@/lib/routes';
+import { useUrlSearchState } from '@/lib/useUrlSearchState';
+import { useFacetFilters } from '@/lib/useFacetFilters';
+import { useResultSort } from '@/lib/useResultSort';
+import { getMaxDiscountPercentage } from '@/lib/discounts/engine';
+import { getActiveDiscountConfig } from '@/lib/discounts/campaigns';
+import type { ProductItem } from '@/lib/types';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Delay before the typed query is written to the URL (matches the search debounce)
+ */
+const URL_SYNC_DELAY_MS = 400;
+
+/**
+ * Main page component - Product Search for Za-🦆🦆🦆 Tennis Store
+ * 
+ * useSearchParams() needs a Suspense boundary, so the page content
+ * renders inside one.
+ */
+export default function HomePage() {
+  return (
+    <Suspense fallback={<LoadingSkeleton count={8} className="container mx-auto px-6 py-10 max-w-5xl" />}>
+      <HomePageContent />
+    </Suspense>
+  );
+}
+
+/**
+ * Page content
+ * 
+ * Full integration of SearchBar and ResultList components
+ * with all feedback states and accessibility features.
+ * The query is mirrored into `?q=` so results are shareable and
+ * back/forward navigation restores earlier searches.
+ */
+function HomePageContent() {
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations();
+
+  // Restore state from the URL; back/forward re-runs the restored search
+  const { state: urlState, update: updateUrl } = useUrlSearchState((restored) => {
+    console.log('🎯 [HomePage] History navigation restored query:', restored.q);
+    isDraftRef.current = false;
+    setQ(restored.q);
+    search(restored.q);
+  });
+
+  // Initialize search hook, starting from the deep-linked query
+  const { q, setQ, data, isStale, status, error, search, reset } = useSearch(400, true, {
+    initialQuery: urlState.q,
+    locale,
+  });
+
+  // Brand, price and discount filters (?brand=&minPrice=&maxPrice=&discounted=)
+  const { filters, setFilters } = useFacetFilters();
+  const { sort, setSort } = useResultSort();
+
+  // Whether the current history entry holds an uncommitted, typed query
+  const isDraftRef = useRef(false);
+
+  // Mirror the typed query into the URL: the first edit after a settled
+  // search adds a history entry, further typing replaces it
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (updateUrl({ q }, isDraftRef.current ? 'replace' : 'push')) {
+        isDraftRef.current = true;
+      }
+    }, URL_SYNC_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [q, updateUrl]);
+
+  // Committed searches (Enter, suggestions) settle the current history entry
+  const handleSearch = (query: string) => {
+    search(query);
+    updateUrl({ q: query }, isDraftRef.current ? 'replace' : 'push');
+    isDraftRef.current = false;
+  };
+
+  console.log('🎯 [HomePage] Component rendered with:', {
+    q,
+    status,
+    hasData: !!data,
+    dataItemsCount: data?.items?.length
+  });
+
+  // Open the detail page, carrying the search that priced the product
+  const handleProductClick = (product: ProductItem) => {
+    console.log('🎯 [HomePage] Product clicked:', product.id);
+    router.push(getProductHref(product.id, data?.query ?? '', locale));
+  };
+
+  // Handle suggestion click
+  const handleSuggestionClick = (suggestion: string) => {
+    console.log('🎯 [HomePage] Suggestion clicked:', suggestion);
+    setQ(suggestion);
+    // Trigger search automatically after setting the query
+    setTimeout(() => handleSearch(suggestion), 100);
+  };
+
+  // Handle retry
+  const handleRetry = () => {
+    console.log('🎯 [HomePage] Retry clicked');
+    if (q.trim()) {
+      search(q);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* E-commerce Header */}
+      <Header />
+      
+      {/* Hero Section with Title */}
+      <section className="relative border-b border-border/30 bg-gradient-to-r from-card/50 to-card/30 backdrop-blur-sm">
+        <div className="container mx-auto px-6 py-12 text-center">
+          <div className="space-y-4">
+            {/* Main title */}
+            <h1 className="text-2xl lg:text-3xl font-light text-foreground tracking-wide">
+              {t('home.title')}
+            </h1>
+            
+            {/* Subtitle */}
+            <p className="text-muted-foreground text-sm lg:text-base font-light max-w-2xl mx-auto">
+              {t('home.subtitle', { max: getMaxDiscountPercentage(getActiveDiscountConfig()) })}
+            </p>
+            
+            {/* Decorative accent */}
+            <div className="w-16 h-px bg-gradient-to-r from-primary to-accent mx-auto opacity-60" />
+          </div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-10 space-y-10 max-w-5xl" role="main">
+        {/* Search Section */}
+        <section aria-labelledby="search-heading" className="space-y-2">
+          <h2 id="search-heading" className="sr-only">
+            {t('home.searchHeading')}
+          </h2>
+          <SearchBar
+            value={q}
+            onChange={setQ}
+            isLoading={status === 'loading'}
+            onSearch={handleSearch}
+            onClear={reset}
+            autoFocus
+            className="mx-auto"
+          />
+        </section>
+
+        {/* Enhanced Results Section */}
+        <section aria-labelledby="results-heading" className="space-y-6">
+          <h2 id="results-heading" className="sr-only">
+            {t('home.resultsHeading')}
+          </h2>
+          
+          
+          <ResultList
+            data={data}
+            status={status}
+            error={error}
+            isStale={isStale}
+            onProductClick={handleProductClick}
+            onSuggestionClick={handleSuggestionClick}
+            onRetry={handleRetry}
+            filters={filters}
+            onFiltersChange={setFilters}
+            sort={sort}
+            onSortChange={setSort}
+            loadMoreMode="infinite"
+            className="w-full"
+          />
+        </section>
+      </main>
+
+      {/* Enhanced Footer */}
+      <Footer />
+    </div>
+  );
+}
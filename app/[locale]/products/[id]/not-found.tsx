@@ -0,0 +1,38 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { PackageX } from 'lucide-react';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import { Button } from '@/components/ui/button';
+import { getSearchHref } from '@/lib/routes';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * 404 for /[locale]/products/[id]
+ * Rendered inside the locale layout, so the route's language still applies.
+ */
+export default function ProductNotFound() {
+  const locale = useLocale();
+  const t = useTranslations();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-6 py-20 max-w-5xl" role="main">
+        <div className="flex flex-col items-center gap-4 text-center" data-testid="product-not-found">
+          <PackageX className="h-12 w-12 text-muted-foreground" />
+          <h1 className="text-2xl font-light text-foreground">{t('product.notFoundTitle')}</h1>
+          <p className="text-muted-foreground">{t('product.notFoundText')}</p>
+          <Button asChild variant="outline">
+            <Link href={getSearchHref('', locale)}>{t('product.backToCatalog')}</Link>
+          </Button>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { Suspense } from 'react';
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import DiscountBadge from '@/components/feedback/DiscountBadge';
+import ErrorState from '@/components/feedback/ErrorState';
+import LoadingSkeleton from '@/components/feedback/LoadingSkeleton';
+import { LargePriceBlock } from '@/components/feedback/PriceBlock';
+import ProductActions from '@/components/product/ProductActions';
+import RelatedProducts from '@/components/product/RelatedProducts';
+import { loadProduct, loadRelatedProducts, RELATED_PRODUCTS_LIMIT, readProductId } from '@/lib/server/product';
+import { readQueryParam } from '@/lib/server/search';
+import { getSearchHref } from '@/lib/routes';
+import type { ProductItem } from '@/lib/types';
+import { isLocale, LOCALES, type Locale } from '@/lib/i18n/config';
+import { getTranslator } from '@/lib/i18n/translator';
+
+/**
+ * Props for the /[locale]/products/[id] route
+ */
+interface ProductPageProps {
+  params: Promise<{ locale: string; id: string }>;
+  searchParams: Promise<{ q?: string | string[] }>;
+}
+
+/**
+ * Route locale and product id; unknown locales and malformed ids are a 404
+ */
+async function readParams(params: ProductPageProps['params']): Promise<{ locale: Locale; id: number }> {
+  const { locale, id } = await params;
+  const productId = readProductId(id);
+  if (!isLocale(locale) || productId === null) notFound();
+  return { locale, id: productId };
+}
+
+export async function generateMetadata({ params, searchParams }: ProductPageProps): Promise<Metadata> {
+  const { locale, id } = await readParams(params);
+  const t = getTranslator(locale);
+  const { item } = await loadProduct(id, readQueryParam((await searchParams).q), locale);
+  if (!item) return {};
+
+  return {
+    title: t('product.metaTitle', { title: item.title }),
+    description: item.description,
+    alternates: {
+      // The carried-over discount is per visit; search engines index the plain page
+      canonical: `/${locale}/products/${id}`,
+      languages: Object.fromEntries(LOCALES.map(code => [code, `/${code}/products/${id}`])),
+    },
+  };
+}
+
+/**
+ * More products of the same brand, streamed in after the product itself
+ */
+async function MoreFromBrand({ item, query, locale }: { item: ProductItem; query: string; locale: Locale }) {
+  const related = await loadRelatedProducts(item, query, locale);
+  if (related.length === 0) return null;
+
+  const t = getTranslator(locale);
+  return (
+    <section aria-labelledby="more-from-brand" className="space-y-6" data-testid="more-from-brand">
+      <h2 id="more-from-brand" className="text-xl font-light text-foreground tracking-wide">
+        {t('product.moreFromBrand', { brand: item.brand })}
+      </h2>
+      <RelatedProducts items={related} query={query} />
+    </section>
+  );
+}
+
+/**
+ * Product detail page - /[locale]/products/[id]?q=
+ * 
+ * Server-rendered with the catalog price. Arriving from a palindrome
+ * search (`?q=abba`) keeps that search's discount, but only for products
+ * the search actually returned.
+ */
+export default async function ProductPage({ params, searchParams }: ProductPageProps) {
+  const { locale, id } = await readParams(params);
+  const t = getTranslator(locale);
+  const { item, query, notFound: isMissing, error } = await loadProduct(id, readQueryParam((await searchParams).q), locale);
+
+  if (isMissing) notFound();
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* E-commerce Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-10 space-y-12 max-w-5xl" role="main">
+        {query && (
+          <Link
+            href={getSearchHref(query, locale)}
+            className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            data-testid="back-to-results"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            {t('product.backToResults', { query })}
+          </Link>
+        )}
+
+        {!item ? (
+          <ErrorState error={error} />
+        ) : (
+          <>
+            <article className="grid gap-8 md:grid-cols-2" data-testid="product-detail">
+              {/* Large Image */}
+              <div className="relative aspect-[4/3] w-full overflow-hidden rounded-xl bg-muted">
+                {item.imageUrl && (
+                  <Image
+                    src={item.imageUrl}
+                    alt={item.title}
+                    fill
+                    priority
+                    className="object-cover"
+                    sizes="(max-width: 768px) 100vw, 50vw"
+                  />
+                )}
+                {!!item.discountPercentage && (
+                  <DiscountBadge
+                    discountPercentage={item.discountPercentage}
+                    explanation={item.discountExplanation}
+                    endsAt={item.discountEndsAt}
+                    position="top-right"
+                    size="lg"
+                  />
+                )}
+              </div>
+
+              {/* Product Info */}
+              <div className="space-y-6">
+                <header className="space-y-1">
+                  <p className="text-sm font-medium text-muted-foreground">{item.brand}</p>
+                  <h1 className="text-2xl lg:text-3xl font-semibold text-foreground">{item.title}</h1>
+                </header>
+
+                <LargePriceBlock finalPrice={item.finalPrice} originalPrice={item.originalPrice} />
+                {query && (
+                  <p className="text-sm text-green-700 dark:text-green-400" data-testid="carried-over-discount">
+                    {t('product.carriedOver', { query })}
+                  </p>
+                )}
+
+                <ProductActions item={item} query={query} />
+
+                <section className="space-y-2">
+                  <h2 className="text-lg font-medium text-foreground">{t('product.description')}</h2>
+                  <p className="text-muted-foreground leading-relaxed whitespace-pre-line">{item.description}</p>
+                </section>
+              </div>
+            </article>
+
+            {/* More From This Brand */}
+            <Suspense fallback={<LoadingSkeleton count={RELATED_PRODUCTS_LIMIT} />}>
+              <MoreFromBrand item={item} query={query} locale={locale} />
+            </Suspense>
+          </>
+        )}
+      </main>
+
+      {/* Enhanced Footer */}
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import SearchBarIsland from '@/components/search/SearchBarIsland';
+import ResultList from '@/components/results/ResultList';
+import RoutedResultList from '@/components/results/RoutedResultList';
+import { buildSearchTitle, loadSearchResults, readQueryParam } from '@/lib/server/search';
+import { readPageNumber, readPageSize } from '@/lib/paging';
+import { isLocale, LOCALES, type Locale } from '@/lib/i18n/config';
+import { getTranslator } from '@/lib/i18n/translator';
+
+/**
+ * Props for the /[locale]/search route
+ */
+interface SearchPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ q?: string | string[]; page?: string | string[]; pageSize?: string | string[] }>;
+}
+
+/**
+ * Route locale (the layout already 404s unknown ones)
+ */
+async function readLocale(params: SearchPageProps['params']): Promise<Locale> {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+  return locale;
+}
+
+/**
+ * Per-query metadata, e.g. "abba — 50% de descuento"
+ * Shares the backend request with the page through loadSearchResults
+ */
+export async function generateMetadata({ params, searchParams }: SearchPageProps): Promise<Metadata> {
+  const locale = await readLocale(params);
+  const t = getTranslator(locale);
+  const query = readQueryParam((await searchParams).q);
+  if (!query) {
+    return { title: t('metadata.allProductsTitle') };
+  }
+
+  const result = await loadSearchResults(query, locale);
+  const search = new URLSearchParams({ q: query });
+
+  return {
+    title: buildSearchTitle(result, t),
+    description: t('metadata.searchDescription', { count: result.data?.totalItems ?? 0, query }),
+    alternates: {
+      canonical: `/${locale}/search?${search}`,
+      languages: Object.fromEntries(LOCALES.map(code => [code, `/${code}/search?${search}`])),
+    },
+  };
+}
+
+/**
+ * Results grid, fetched on the server and streamed into the page
+ * The listing requests only the current page (offset); a search returns
+ * every match, shares the metadata's request and is paged on the client.
+ */
+async function SearchResults({ query, locale, page, pageSize }: { query: string; locale: Locale; page: number; pageSize: number }) {
+  const { data, error } = query
+    ? await loadSearchResults(query, locale)
+    : await loadSearchResults(query, locale, page, pageSize);
+
+  return (
+    <RoutedResultList
+      data={data}
+      status={error ? 'error' : 'success'}
+      error={error}
+      paginate={query ? 'slice' : 'offset'}
+      className="w-full"
+    />
+  );
+}
+
+/**
+ * Server-rendered search page - /[locale]/search?q=
+ * 
+ * The page shell renders immediately, the product grid streams in once
+ * the backend answers. SearchBarIsland is the only interactive part
+ * that hydrates; crawlers receive the full product list in the HTML.
+ */
+export default async function SearchPage({ params, searchParams }: SearchPageProps) {
+  const locale = await readLocale(params);
+  const t = getTranslator(locale);
+  const { q, page, pageSize } = await searchParams;
+  const query = readQueryParam(q);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* E-commerce Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-10 space-y-10 max-w-5xl" role="main">
+        {/* Search Section */}
+        <section aria-labelledby="search-heading" className="space-y-6">
+          <h1 id="search-heading" className="text-2xl lg:text-3xl font-light text-foreground tracking-wide text-center">
+            {query ? t('searchPage.resultsFor', { query }) : t('searchPage.allProducts')}
+          </h1>
+          <SearchBarIsland initialQuery={query} className="mx-auto" />
+        </section>
+
+        {/* Streamed Results Section */}
+        <section aria-label={t('searchPage.resultsLabel')} className="space-y-6">
+          <Suspense key={query} fallback={<ResultList status="loading" className="w-full" />}>
+            <SearchResults
+              query={query}
+              locale={locale}
+              page={readPageNumber(readQueryParam(page))}
+              pageSize={readPageSize(readQueryParam(pageSize))}
+            />
+          </Suspense>
+        </section>
+      </main>
+
+      {/* Enhanced Footer */}
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import WishlistView from '@/components/wishlist/WishlistView';
+import { isLocale, LOCALES, type Locale } from '@/lib/i18n/config';
+import { getTranslator } from '@/lib/i18n/translator';
+
+/**
+ * Props for the /[locale]/wishlist route
+ */
+interface WishlistPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+/**
+ * Route locale (the layout already 404s unknown ones)
+ */
+async function readLocale(params: WishlistPageProps['params']): Promise<Locale> {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+  return locale;
+}
+
+export async function generateMetadata({ params }: WishlistPageProps): Promise<Metadata> {
+  const locale = await readLocale(params);
+  const t = getTranslator(locale);
+
+  return {
+    title: t('wishlist.metaTitle'),
+    // Saved products live in the shopper's browser; nothing here to index
+    robots: { index: false },
+    alternates: {
+      languages: Object.fromEntries(LOCALES.map(code => [code, `/${code}/wishlist`])),
+    },
+  };
+}
+
+/**
+ * Wishlist page - /[locale]/wishlist
+ * 
+ * The shell renders on the server; the saved products come from
+ * localStorage and today's prices are fetched by WishlistView.
+ */
+export default async function WishlistPage({ params }: WishlistPageProps) {
+  const locale = await readLocale(params);
+  const t = getTranslator(locale);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* E-commerce Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="container mx-auto px-6 py-10 space-y-6 max-w-5xl" role="main">
+        <h1 className="text-2xl lg:text-3xl font-light text-foreground tracking-wide text-center">
+          {t('wishlist.title')}
+        </h1>
+        <WishlistView className="w-full" />
+      </main>
+
+      {/* Enhanced Footer */}
+      <Footer />
+    </div>
+  );
+}
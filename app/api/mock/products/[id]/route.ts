@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mockGetProduct } from '@/lib/mock/search';
+import type { ApiError } from '@/lib/types';
+
+/**
+ * Mock of GET /api/products/:id
+ * Single product from the seeded catalog, 404 when the id is unknown
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const productId = Number(id);
+  const product = Number.isInteger(productId) && productId > 0 ? mockGetProduct(productId) : undefined;
+
+  if (!product) {
+    const error: ApiError = {
+      message: `Producto ${id} no encontrado`,
+      error: 'Not Found',
+      statusCode: 404,
+    };
+    return NextResponse.json(error, { status: 404 });
+  }
+
+  return NextResponse.json(product, { status: 200 });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mockListProducts } from '@/lib/mock/search';
+import type { ApiError } from '@/lib/types';
+
+/**
+ * Parse an optional non-negative integer query parameter
+ *
+ * @returns The parsed value, undefined when absent, or null when invalid
+ */
+function parseIntParam(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Mock of GET /api/products
+ * Offset pagination over the seeded catalog
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const limit = parseIntParam(searchParams.get('limit'));
+  const offset = parseIntParam(searchParams.get('offset'));
+
+  if (limit === null || offset === null || limit === 0) {
+    const error: ApiError = {
+      message: 'Los parámetros "limit" y "offset" deben ser enteros positivos',
+      error: 'Bad Request',
+      statusCode: 400,
+    };
+    return NextResponse.json(error, { status: 400 });
+  }
+
+  return NextResponse.json(mockListProducts({ limit, offset }), { status: 200 });
+}
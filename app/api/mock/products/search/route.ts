@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mockSearch, validateMockQuery } from '@/lib/mock/search';
+
+/**
+ * Mock of GET /api/products/search
+ * Implements the documented Palindrome API algorithm over the seeded catalog
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  // `q` takes priority over `searchTerm` when both are present
+  const query = searchParams.get('q') ?? searchParams.get('searchTerm');
+
+  const validationError = validateMockQuery(query);
+  if (validationError) {
+    return NextResponse.json(validationError, { status: validationError.statusCode });
+  }
+
+  return NextResponse.json(mockSearch(query!), { status: 200 });
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { errorResponse, proxyGet } from '@/lib/server/proxy';
+
+/**
+ * Proxy for GET /api/products/:id
+ * Rejects non-numeric ids before they reach the backend
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!/^[1-9]\d*$/.test(id)) {
+    return errorResponse('El id de producto debe ser un entero positivo', 400, 'Bad Request');
+  }
+
+  return proxyGet(`/api/products/${id}`, {});
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { errorResponse, proxyGet } from '@/lib/server/proxy';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Proxy for GET /api/products
+ * Clamps pagination parameters so equivalent requests share a cache entry
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+  const offset = Number(searchParams.get('offset') ?? 0);
+
+  if (!Number.isInteger(limit) || !Number.isInteger(offset) || limit < 1 || offset < 0) {
+    return errorResponse('"limit" debe ser un entero positivo y "offset" un entero no negativo', 400, 'Bad Request');
+  }
+
+  return proxyGet('/api/products', {
+    limit: Math.min(limit, MAX_LIMIT),
+    offset,
+  });
+}
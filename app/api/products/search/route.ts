@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { errorResponse, normalizeQuery, proxyGet } from '@/lib/server/proxy';
+
+/**
+ * Proxy for GET /api/products/search
+ * Normalises the query and serves repeated searches from the server cache
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const rawQuery = searchParams.get('q') ?? searchParams.get('searchTerm') ?? '';
+  const q = normalizeQuery(rawQuery);
+
+  if (q.length === 0) {
+    return errorResponse('El parámetro de búsqueda "q" es requerido', 400, 'Bad Request');
+  }
+
+  if (q.length > 255) {
+    return errorResponse('El parámetro de búsqueda "q" admite como máximo 255 caracteres', 400, 'Bad Request');
+  }
+
+  return proxyGet('/api/products/search', { q });
+}
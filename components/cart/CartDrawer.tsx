@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import Image from 'next/image';
+import { Minus, Plus, ShoppingCart, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { getLineTotal, MAX_LINE_QUANTITY, type CartLine } from '@/lib/cart';
+import { subtractMoney } from '@/lib/money';
+import { useFocusTrap } from '@/lib/useFocusTrap';
+import { useCart } from '@/components/providers/CartProvider';
+import { useCurrency } from '@/components/providers/CurrencyProvider';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for CartDrawer component
+ */
+export interface CartDrawerProps {
+  /** Additional CSS classes for the panel */
+  className?: string;
+}
+
+/**
+ * CartDrawer component for the shopping cart slide-over
+ *
+ * Features:
+ * - Opened by the header cart icon, closed by Escape, the overlay or the close button
+ * - Line items with locked-in price and the query that earned the discount
+ * - Quantity controls and line removal
+ * - Subtotal, discounts and total in the shopper's display currency
+ * - Dialog semantics with focus kept inside the panel
+ *
+ * @example
+ * ```tsx
+ * <CartProvider>
+ *   {children}
+ *   <CartDrawer />
+ * </CartProvider>
+ * ```
+ */
+export default function CartDrawer({ className }: CartDrawerProps) {
+  const { lines, summary, isOpen, closeCart, clear } = useCart();
+  const { convert, format } = useCurrency();
+  const t = useTranslations();
+  const panelRef = useFocusTrap<HTMLElement>(isOpen);
+
+  // Escape closes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeCart();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, closeCart]);
+
+  if (!isOpen) return null;
+
+  // Convert the totals, then derive discounts so the three rows add up to the cent
+  const subtotal = convert(summary.subtotal);
+  const total = convert(summary.total);
+  const discounts = subtractMoney(subtotal, total);
+
+  return (
+    <div className="fixed inset-0 z-50">
+      {/* Overlay */}
+      <div
+        className="absolute inset-0 bg-black/40 animate-in fade-in-0"
+        onClick={closeCart}
+        aria-hidden="true"
+      />
+
+      {/* Panel */}
+      <aside
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="cart-drawer-title"
+        className={cn(
+          'absolute inset-y-0 right-0 flex w-full max-w-md flex-col',
+          'bg-background shadow-xl border-l border-border/50',
+          'animate-in slide-in-from-right duration-200',
+          className
+        )}
+        data-testid="cart-drawer"
+      >
+        <header className="flex items-center justify-between border-b border-border/50 px-4 py-3">
+          <div>
+            <h2 id="cart-drawer-title" className="text-lg font-semibold text-foreground">
+              {t('cart.title')}
+            </h2>
+            <p className="text-xs text-muted-foreground">
+              {t('cart.itemCount', { count: summary.itemCount })}
+            </p>
+          </div>
+          <button
+            type="button"
+            className="p-2 rounded-md hover:bg-muted/50 transition-colors duration-200 text-muted-foreground hover:text-foreground cursor-pointer"
+            onClick={closeCart}
+            aria-label={t('cart.close')}
+            data-testid="cart-close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </header>
+
+        {lines.length === 0 ? (
+          <div className="flex flex-1 flex-col items-center justify-center gap-2 px-6 text-center" data-testid="cart-empty">
+            <ShoppingCart className="h-10 w-10 text-muted-foreground" />
+            <p className="font-medium text-foreground">{t('cart.empty')}</p>
+            <p className="text-sm text-muted-foreground">{t('cart.emptyHint')}</p>
+          </div>
+        ) : (
+          <>
+            <ul className="flex-1 divide-y divide-border/50 overflow-y-auto px-4">
+              {lines.map(line => (
+                <CartLineItem key={line.id} line={line} />
+              ))}
+            </ul>
+
+            <footer className="space-y-2 border-t border-border/50 px-4 py-4">
+              <dl className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">{t('cart.subtotal')}</dt>
+                  <dd data-testid="cart-subtotal">{format(subtotal)}</dd>
+                </div>
+                {discounts.amount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <dt>{t('cart.discounts')}</dt>
+                    <dd data-testid="cart-discounts">-{format(discounts)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between text-base font-semibold text-foreground">
+                  <dt>{t('cart.total')}</dt>
+                  <dd data-testid="cart-total">{format(total)}</dd>
+                </div>
+              </dl>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={clear}
+                data-testid="cart-clear"
+              >
+                {t('cart.clear')}
+              </Button>
+            </footer>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+/**
+ * Single cart line with quantity controls
+ */
+function CartLineItem({ line }: { line: CartLine }) {
+  const { removeLine, setQuantity } = useCart();
+  const { format } = useCurrency();
+  const t = useTranslations();
+
+  return (
+    <li className="flex gap-3 py-4" data-testid="cart-line">
+      {line.imageUrl && (
+        <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+          <Image
+            src={line.imageUrl}
+            alt={line.title}
+            fill
+            className="object-cover"
+            sizes="64px"
+          />
+        </div>
+      )}
+
+      <div className="flex-1 space-y-1">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium leading-tight text-foreground">{line.title}</p>
+            <p className="text-xs text-muted-foreground">{line.brand}</p>
+          </div>
+          <button
+            type="button"
+            className="p-1 rounded-md text-muted-foreground hover:text-destructive cursor-pointer"
+            onClick={() => removeLine(line.id)}
+            aria-label={t('cart.remove', { title: line.title })}
+            data-testid="cart-line-remove"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        {!!line.discountPercentage && (
+          <p className="text-xs text-green-600" data-testid="cart-line-source">
+            {t('cart.lockedFrom', { percent: line.discountPercentage, query: line.query })}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between pt-1">
+          <div className="flex items-center gap-1" role="group" aria-label={t('cart.quantity')}>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setQuantity(line.id, line.quantity - 1)}
+              aria-label={t('cart.decrease', { title: line.title })}
+              data-testid="cart-line-decrease"
+            >
+              <Minus className="h-3 w-3" />
+            </Button>
+            <span className="w-8 text-center text-sm tabular-nums" data-testid="cart-line-quantity">
+              {line.quantity}
+            </span>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setQuantity(line.id, line.quantity + 1)}
+              disabled={line.quantity >= MAX_LINE_QUANTITY}
+              aria-label={t('cart.increase', { title: line.title })}
+              data-testid="cart-line-increase"
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <div className="text-right">
+            <p className="text-sm font-semibold text-foreground" data-testid="cart-line-total">
+              {format(getLineTotal(line))}
+            </p>
+            {line.quantity > 1 && (
+              <p className="text-xs text-muted-foreground">
+                {t('cart.unitPrice', { price: format(line.unitPrice) })}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useState, useSyncExternalStore } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { reconciliationLog, RECONCILIATION_MODE, type ReconciliationEvent } from '@/lib/reconciliation';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for ReconciliationOverlay component
+ */
+export interface ReconciliationOverlayProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Server snapshot: the log only fills in the browser
+ */
+const EMPTY_EVENTS: ReconciliationEvent[] = [];
+
+/**
+ * Human-readable label for a mismatch kind
+ */
+const KIND_LABELS: Record<ReconciliationEvent['kind'], string> = {
+  palindrome: 'isPalindrome',
+  finalPrice: 'finalPrice',
+  discountPercentage: 'discountPercentage',
+};
+
+/**
+ * Developer overlay listing backend/client mismatches
+ * 
+ * Features:
+ * - Floating counter of recorded mismatches
+ * - Expandable list with backend vs client values per event
+ * - Shows the active reconciliation mode (repair/strict)
+ * - Hidden while there is nothing to report
+ * 
+ * Only meant for development builds; mount it conditionally.
+ * 
+ * @example
+ * ```tsx
+ * {process.env.NODE_ENV === 'development' && <ReconciliationOverlay />}
+ * ```
+ */
+export default function ReconciliationOverlay({ className }: ReconciliationOverlayProps) {
+  const t = useTranslations();
+  const events = useSyncExternalStore(
+    reconciliationLog.subscribe,
+    reconciliationLog.getEvents,
+    () => EMPTY_EVENTS
+  );
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside
+      className={cn(
+        "fixed bottom-4 left-4 z-50 max-w-sm text-xs font-mono",
+        className
+      )}
+      aria-label={t('reconciliation.label')}
+      data-testid="reconciliation-overlay"
+    >
+      {isOpen && (
+        <div className="mb-2 max-h-72 overflow-auto rounded-lg border border-border bg-card/95 p-3 shadow-lg backdrop-blur-sm">
+          <div className="mb-2 flex items-center justify-between gap-4">
+            <span className="text-muted-foreground">{t('reconciliation.mode', { mode: RECONCILIATION_MODE })}</span>
+            <button
+              type="button"
+              onClick={() => reconciliationLog.clear()}
+              className="text-primary hover:underline"
+            >
+              {t('reconciliation.clear')}
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {events.slice().reverse().map((event, index) => (
+              <li key={`${event.timestamp}-${index}`} className="border-t border-border/50 pt-1">
+                <span className="text-foreground">&quot;{event.query}&quot;</span>
+                {event.itemId !== undefined && <span className="text-muted-foreground"> #{event.itemId}</span>}
+                {' '}{KIND_LABELS[event.kind]}: backend={String(event.backend)} {t('reconciliation.client')}={String(event.client)}
+                <span className={cn("ml-1", event.action === 'rewritten' ? "text-accent" : "text-muted-foreground")}>
+                  ({event.action === 'rewritten' ? t('reconciliation.rewritten') : t('reconciliation.kept')})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <Button
+        type="button"
+        size="sm"
+        variant="destructive"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        data-testid="reconciliation-overlay-toggle"
+      >
+        {t('reconciliation.count', { count: events.length })}
+      </Button>
+    </aside>
+  );
+}
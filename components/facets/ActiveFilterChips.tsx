@@ -0,0 +1,98 @@
+"use client";
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { EMPTY_FACET_FILTERS, type FacetFilters } from '@/lib/facets';
+import { useCurrency } from '@/components/providers/CurrencyProvider';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for ActiveFilterChips component
+ */
+export interface ActiveFilterChipsProps {
+  /** Active filters */
+  filters: FacetFilters;
+  /** Callback with the filters left after a removal */
+  onChange: (filters: FacetFilters) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * ActiveFilterChips component listing the filters applied to the grid
+ *
+ * Features:
+ * - One removable chip per brand, price range and discount filter
+ * - Clear-all action
+ * - Renders nothing without active filters
+ *
+ * @example
+ * ```tsx
+ * <ActiveFilterChips filters={filters} onChange={setFilters} />
+ * ```
+ */
+export default function ActiveFilterChips({ filters, onChange, className }: ActiveFilterChipsProps) {
+  const t = useTranslations();
+  const { format } = useCurrency();
+
+  const chips: Array<{ key: string; label: string; remove: () => void }> = [
+    ...filters.brands.map(brand => ({
+      key: `brand-${brand}`,
+      label: brand,
+      remove: () => onChange({ ...filters, brands: filters.brands.filter(selected => selected !== brand) }),
+    })),
+  ];
+
+  if (filters.minPrice || filters.maxPrice) {
+    const label = filters.minPrice && filters.maxPrice
+      ? t('facets.priceRange', { min: format(filters.minPrice), max: format(filters.maxPrice) })
+      : filters.minPrice
+        ? t('facets.priceFrom', { min: format(filters.minPrice) })
+        : t('facets.priceUpTo', { max: format(filters.maxPrice) });
+    chips.push({
+      key: 'price',
+      label,
+      remove: () => onChange({ ...filters, minPrice: undefined, maxPrice: undefined }),
+    });
+  }
+
+  if (filters.discountedOnly) {
+    chips.push({
+      key: 'discounted',
+      label: t('facets.discountedOnly'),
+      remove: () => onChange({ ...filters, discountedOnly: false }),
+    });
+  }
+
+  if (chips.length === 0) return null;
+
+  return (
+    <ul className={cn('flex flex-wrap items-center gap-2', className)} aria-label={t('facets.chipsLabel')} data-testid="filter-chips">
+      {chips.map(chip => (
+        <li key={chip.key}>
+          <button
+            type="button"
+            className="inline-flex items-center gap-1 rounded-full border border-border bg-muted/50 px-3 py-1 text-xs font-medium text-foreground hover:bg-muted cursor-pointer"
+            onClick={chip.remove}
+            aria-label={t('facets.remove', { filter: chip.label })}
+            data-testid="filter-chip"
+          >
+            {chip.label}
+            <X className="h-3 w-3" />
+          </button>
+        </li>
+      ))}
+      <li>
+        <button
+          type="button"
+          className="text-xs font-medium text-primary hover:text-primary/80 cursor-pointer"
+          onClick={() => onChange(EMPTY_FACET_FILTERS)}
+          data-testid="filter-clear"
+        >
+          {t('facets.clearAll')}
+        </button>
+      </li>
+    </ul>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { money } from '@/lib/money';
+import type { FacetFilters, Facets, PriceFacet } from '@/lib/facets';
+import { useCurrency } from '@/components/providers/CurrencyProvider';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Delay before a dragged price slider updates the results (ms)
+ */
+const PRICE_COMMIT_DELAY_MS = 300;
+
+/**
+ * Price slider step in minor units ($1)
+ */
+const PRICE_STEP = 100;
+
+/**
+ * Props for FacetPanel component
+ */
+export interface FacetPanelProps {
+  /** Facets derived from the current results */
+  facets: Facets;
+  /** Active filters */
+  filters: FacetFilters;
+  /** Callback with the changed filters */
+  onChange: (filters: FacetFilters) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * FacetPanel component with the result filters
+ *
+ * Shared by the desktop sidebar and the mobile bottom sheet.
+ *
+ * Features:
+ * - Brand checkboxes with product counts
+ * - Price histogram with minimum and maximum sliders
+ * - Discounted-only toggle
+ *
+ * @example
+ * ```tsx
+ * <FacetPanel facets={deriveFacets(items, filters)} filters={filters} onChange={setFilters} />
+ * ```
+ */
+export default function FacetPanel({ facets, filters, onChange, className }: FacetPanelProps) {
+  const t = useTranslations();
+
+  const toggleBrand = (brand: string) => {
+    const brands = filters.brands.includes(brand)
+      ? filters.brands.filter(selected => selected !== brand)
+      : [...filters.brands, brand];
+    onChange({ ...filters, brands });
+  };
+
+  return (
+    <div className={cn('space-y-6', className)} data-testid="facet-panel">
+      {/* Brand */}
+      <fieldset className="space-y-2">
+        <legend className="mb-2 text-sm font-semibold text-foreground">{t('facets.brand')}</legend>
+        {facets.brands.map(({ brand, count }) => {
+          const checked = filters.brands.includes(brand);
+          return (
+            <label
+              key={brand}
+              className={cn(
+                'flex cursor-pointer items-center gap-2 text-sm text-foreground',
+                count === 0 && !checked && 'cursor-not-allowed opacity-50'
+              )}
+            >
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={checked}
+                disabled={count === 0 && !checked}
+                onChange={() => toggleBrand(brand)}
+                data-testid="facet-brand"
+                data-brand={brand}
+              />
+              <span className="flex-1">{brand}</span>
+              <span className="text-xs tabular-nums text-muted-foreground">{count}</span>
+            </label>
+          );
+        })}
+      </fieldset>
+
+      {/* Price */}
+      {facets.price && (
+        <PriceRange
+          // Remount when the filter (chips, clear all) or the range (new results) changes to reset the sliders
+          key={`${filters.minPrice?.amount}-${filters.maxPrice?.amount}-${facets.price.min.amount}-${facets.price.max.amount}`}
+          price={facets.price}
+          filters={filters}
+          onChange={onChange}
+        />
+      )}
+
+      {/* Discount */}
+      <fieldset className="space-y-2">
+        <legend className="mb-2 text-sm font-semibold text-foreground">{t('facets.discount')}</legend>
+        <label
+          className={cn(
+            'flex cursor-pointer items-center gap-2 text-sm text-foreground',
+            facets.discountedCount === 0 && !filters.discountedOnly && 'cursor-not-allowed opacity-50'
+          )}
+        >
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={filters.discountedOnly}
+            disabled={facets.discountedCount === 0 && !filters.discountedOnly}
+            onChange={() => onChange({ ...filters, discountedOnly: !filters.discountedOnly })}
+            data-testid="facet-discounted"
+          />
+          <span className="flex-1">{t('facets.discountedOnly')}</span>
+          <span className="text-xs tabular-nums text-muted-foreground">{facets.discountedCount}</span>
+        </label>
+      </fieldset>
+    </div>
+  );
+}
+
+/**
+ * Price histogram with min/max sliders
+ * Dragging updates a local draft; the filters follow once the slider rests.
+ */
+function PriceRange({ price, filters, onChange }: { price: PriceFacet; filters: FacetFilters; onChange: (filters: FacetFilters) => void }) {
+  const t = useTranslations();
+  const { format } = useCurrency();
+  const [draftMin, setDraftMin] = useState(filters.minPrice?.amount ?? price.min.amount);
+  const [draftMax, setDraftMax] = useState(filters.maxPrice?.amount ?? price.max.amount);
+
+  const commitTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Latest filters and callback, so a pending commit keeps changes made meanwhile (brands, discount)
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Drop a pending commit when the sliders go away
+  useEffect(() => () => {
+    if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
+  }, []);
+
+  /**
+   * Update the drafts and commit them once the slider rests
+   * Only called from the sliders, so a changed range never commits a price the shopper did not pick.
+   */
+  const updateDrafts = (nextMin: number, nextMax: number) => {
+    setDraftMin(nextMin);
+    setDraftMax(nextMax);
+
+    if (commitTimeoutRef.current) clearTimeout(commitTimeoutRef.current);
+    commitTimeoutRef.current = setTimeout(() => {
+      commitTimeoutRef.current = null;
+      // The full range is no filter at all
+      onChangeRef.current({
+        ...filtersRef.current,
+        minPrice: nextMin > price.min.amount ? money(nextMin, price.min.currency) : undefined,
+        maxPrice: nextMax < price.max.amount ? money(nextMax, price.max.currency) : undefined,
+      });
+    }, PRICE_COMMIT_DELAY_MS);
+  };
+
+  // Slider steps may stop short of the most expensive price; the last step reaches it
+  const snap = (value: number) => (value > price.max.amount - PRICE_STEP ? price.max.amount : value);
+  const tallest = Math.max(1, ...price.buckets.map(bucket => bucket.count));
+  const isEmptyRange = price.min.amount === price.max.amount;
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="mb-2 text-sm font-semibold text-foreground">{t('facets.price')}</legend>
+
+      {/* Histogram */}
+      <div className="flex h-16 items-end gap-1" role="img" aria-label={t('facets.histogramLabel')} data-testid="facet-histogram">
+        {price.buckets.map((bucket, index) => {
+          const inRange = bucket.to.amount >= draftMin && bucket.from.amount <= draftMax;
+          return (
+            <div
+              key={index}
+              className={cn('flex-1 rounded-t-sm', inRange ? 'bg-primary/70' : 'bg-muted')}
+              style={{ height: `${Math.max(4, (bucket.count / tallest) * 100)}%` }}
+              title={t('facets.bucket', { from: format(bucket.from), to: format(bucket.to), count: bucket.count })}
+            />
+          );
+        })}
+      </div>
+
+      {/* Sliders */}
+      <div className="space-y-2">
+        <input
+          type="range"
+          className="w-full accent-primary"
+          min={price.min.amount}
+          max={price.max.amount}
+          step={PRICE_STEP}
+          value={draftMin}
+          disabled={isEmptyRange}
+          onChange={(event) => updateDrafts(Math.min(snap(Number(event.target.value)), draftMax), draftMax)}
+          aria-label={t('facets.minPrice')}
+          aria-valuetext={format(money(draftMin, price.min.currency))}
+          data-testid="facet-price-min"
+        />
+        <input
+          type="range"
+          className="w-full accent-primary"
+          min={price.min.amount}
+          max={price.max.amount}
+          step={PRICE_STEP}
+          value={draftMax}
+          disabled={isEmptyRange}
+          onChange={(event) => updateDrafts(draftMin, Math.max(snap(Number(event.target.value)), draftMin))}
+          aria-label={t('facets.maxPrice')}
+          aria-valuetext={format(money(draftMax, price.max.currency))}
+          data-testid="facet-price-max"
+        />
+        <p className="flex justify-between text-xs tabular-nums text-muted-foreground" data-testid="facet-price-range">
+          <span>{format(money(draftMin, price.min.currency))}</span>
+          <span>{format(money(draftMax, price.max.currency))}</span>
+        </p>
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { countActiveFilters } from '@/lib/facets';
+import { useFocusTrap } from '@/lib/useFocusTrap';
+import { useTranslations } from '@/components/providers/I18nProvider';
+import FacetPanel, { type FacetPanelProps } from './FacetPanel';
+
+/**
+ * Props for FacetSheet component
+ */
+export interface FacetSheetProps extends Omit<FacetPanelProps, 'className'> {
+  /** Products left by the active filters, shown on the close button */
+  resultCount: number;
+  /** Additional CSS classes for the trigger button */
+  className?: string;
+}
+
+/**
+ * FacetSheet component: the filter panel as a mobile bottom sheet
+ *
+ * Features:
+ * - Trigger button with the number of active filters
+ * - Bottom sheet closed by Escape, the overlay or the results button
+ * - Filters apply live while the sheet is open
+ * - Dialog semantics with focus kept inside the sheet
+ *
+ * @example
+ * ```tsx
+ * <FacetSheet facets={facets} filters={filters} onChange={setFilters} resultCount={items.length} className="lg:hidden" />
+ * ```
+ */
+export default function FacetSheet({ resultCount, className, ...panelProps }: FacetSheetProps) {
+  const t = useTranslations();
+  const [isOpen, setIsOpen] = useState(false);
+  const sheetRef = useFocusTrap<HTMLDivElement>(isOpen);
+  const activeCount = countActiveFilters(panelProps.filters);
+
+  // Escape closes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className={className}
+        onClick={() => setIsOpen(true)}
+        aria-haspopup="dialog"
+        data-testid="facet-sheet-open"
+      >
+        <SlidersHorizontal className="h-4 w-4" />
+        {activeCount > 0 ? t('facets.openWithCount', { count: activeCount }) : t('facets.open')}
+      </Button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50">
+          {/* Overlay */}
+          <div
+            className="absolute inset-0 bg-black/40 animate-in fade-in-0"
+            onClick={() => setIsOpen(false)}
+            aria-hidden="true"
+          />
+
+          {/* Sheet */}
+          <div
+            ref={sheetRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="facet-sheet-title"
+            className={cn(
+              'absolute inset-x-0 bottom-0 flex max-h-[85vh] flex-col rounded-t-2xl',
+              'bg-background shadow-xl border-t border-border/50',
+              'animate-in slide-in-from-bottom duration-200'
+            )}
+            data-testid="facet-sheet"
+          >
+            <header className="flex items-center justify-between border-b border-border/50 px-4 py-3">
+              <h2 id="facet-sheet-title" className="text-lg font-semibold text-foreground">
+                {t('facets.title')}
+              </h2>
+              <button
+                type="button"
+                className="p-2 rounded-md hover:bg-muted/50 transition-colors duration-200 text-muted-foreground hover:text-foreground cursor-pointer"
+                onClick={() => setIsOpen(false)}
+                aria-label={t('facets.close')}
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </header>
+
+            <FacetPanel {...panelProps} className="flex-1 overflow-y-auto px-4 py-4" />
+
+            <footer className="border-t border-border/50 px-4 py-3">
+              <Button type="button" className="w-full" onClick={() => setIsOpen(false)} data-testid="facet-sheet-close">
+                {t('facets.showResults', { count: resultCount })}
+              </Button>
+            </footer>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,6 +1,11 @@
+"use client";
+
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { formatCountdown } from '@/lib/format';
+import { useNow } from '@/lib/useNow';
+import { useTranslations } from '@/components/providers/I18nProvider';
 
 /**
  * Props for DiscountBadge component
@@ -18,6 +23,33 @@ export interface DiscountBadgeProps {
   showPercent?: boolean;
   /** Custom text override (e.g., "OFERTA" instead of percentage) */
   customText?: string;
+  /** Why the discount applies (shown as tooltip and read by screen readers) */
+  explanation?: string;
+  /** ISO instant when a campaign discount ends; shows a live countdown */
+  endsAt?: string;
+}
+
+/**
+ * Live countdown to the end of a campaign discount
+ * Renders nothing before mount and once the deadline has passed
+ */
+function CampaignCountdown({ endsAt, className }: { endsAt: string; className?: string }) {
+  const current = useNow();
+  const t = useTranslations();
+  if (!current) return null;
+
+  const remainingMs = new Date(endsAt).getTime() - current.getTime();
+  if (remainingMs <= 0) return null;
+
+  return (
+    <span
+      className={cn('block font-mono normal-case tracking-normal', className)}
+      data-testid="discount-countdown"
+      aria-label={t('discountBadge.endsIn', { countdown: formatCountdown(remainingMs) })}
+    >
+      {formatCountdown(remainingMs)}
+    </span>
+  );
 }
 
 /**
@@ -29,6 +61,7 @@ export interface DiscountBadgeProps {
  * - Responsive sizing
  * - Accessible contrast ratios
  * - Animated entrance effect
+ * - Live countdown for time-boxed campaigns
  * 
  * @example
  * ```tsx
@@ -47,6 +80,13 @@ export interface DiscountBadgeProps {
  *   discountPercentage={0}
  *   customText="NUEVO"
  * />
+ * 
+ * // Computed by the discount rules engine
+ * <DiscountBadge 
+ *   discountPercentage={item.discountPercentage}
+ *   explanation={item.discountExplanation}
+ *   endsAt={item.discountEndsAt}
+ * />
  * ```
  */
 export default function DiscountBadge({
@@ -55,8 +95,11 @@ export default function DiscountBadge({
   position = 'top-right',
   className,
   showPercent = true,
-  customText
+  customText,
+  explanation,
+  endsAt
 }: DiscountBadgeProps) {
+  const t = useTranslations();
 
   // Don't render if no discount and no custom text
   if (discountPercentage <= 0 && !customText) {
@@ -80,7 +123,7 @@ export default function DiscountBadge({
 
   // Generate display text
   const displayText = customText || 
-    (showPercent ? `${discountPercentage}% OFF` : `${discountPercentage} OFF`);
+    (showPercent ? t('discountBadge.off', { percent: discountPercentage }) : `${discountPercentage} OFF`);
 
   // Determine badge variant based on discount percentage
   const getBadgeVariant = () => {
@@ -138,9 +181,13 @@ export default function DiscountBadge({
         className
       )}
       data-testid="discount-badge"
-      aria-label={customText ? customText : `${discountPercentage}% de descuento`}
+      title={explanation}
+      aria-label={[customText ? customText : t('discountBadge.label', { percent: discountPercentage }), explanation].filter(Boolean).join('. ')}
     >
-      {displayText}
+      <span className="flex flex-col items-center leading-tight">
+        {displayText}
+        {endsAt && <CampaignCountdown endsAt={endsAt} className="text-[0.65em] font-medium opacity-90" />}
+      </span>
     </Badge>
   );
 }
@@ -154,13 +201,14 @@ export function InlineDiscountBadge({
   customText,
   className
 }: Pick<DiscountBadgeProps, 'discountPercentage' | 'showPercent' | 'customText' | 'className'>) {
+  const t = useTranslations();
   
   if (discountPercentage <= 0 && !customText) {
     return null;
   }
 
   const displayText = customText || 
-    (showPercent ? `${discountPercentage}% OFF` : `${discountPercentage} OFF`);
+    (showPercent ? t('discountBadge.off', { percent: discountPercentage }) : `${discountPercentage} OFF`);
 
   return (
     <Badge
@@ -185,8 +233,10 @@ export function RibbonDiscountBadge({
   discountPercentage,
   showPercent = true,
   customText,
+  endsAt,
   className
-}: Pick<DiscountBadgeProps, 'discountPercentage' | 'showPercent' | 'customText' | 'className'>) {
+}: Pick<DiscountBadgeProps, 'discountPercentage' | 'showPercent' | 'customText' | 'endsAt' | 'className'>) {
+  const t = useTranslations();
   
   if (discountPercentage <= 0 && !customText) {
     return null;
@@ -200,15 +250,18 @@ export function RibbonDiscountBadge({
       className={cn(
         // Ribbon container
         'absolute top-0 right-0 z-10',
-        'w-16 h-16 overflow-hidden',
+        endsAt ? 'w-20 h-20' : 'w-16 h-16',
+        'overflow-hidden',
         className
       )}
       data-testid="ribbon-discount-badge"
     >
       <div
         className={cn(
-          // Ribbon diagonal
-          'absolute top-3 right-[-32px] w-24 h-6',
+          // Ribbon diagonal (taller when it carries a countdown)
+          endsAt
+            ? 'absolute top-4 right-[-34px] w-28 h-8 flex-col'
+            : 'absolute top-3 right-[-32px] w-24 h-6',
           'transform rotate-45',
           'flex items-center justify-center',
           'text-white text-xs font-bold uppercase tracking-wider',
@@ -217,9 +270,10 @@ export function RibbonDiscountBadge({
           // Color based on discount
           discountPercentage >= 50 ? 'bg-red-500' : 'bg-orange-500'
         )}
-        aria-label={customText ? customText : `${discountPercentage}% de descuento`}
+        aria-label={customText ? customText : t('discountBadge.label', { percent: discountPercentage })}
       >
         {displayText}
+        {endsAt && <CampaignCountdown endsAt={endsAt} className="text-[0.6rem] font-medium" />}
       </div>
     </div>
   );
@@ -1,7 +1,17 @@
+"use client";
+
 import React from 'react';
 import { Search, Package, Lightbulb } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { getMaxDiscountPercentage } from '@/lib/discounts/engine';
+import { getActiveDiscountConfig } from '@/lib/discounts/campaigns';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Palindromes suggested for discounts, described in the catalogs
+ */
+const PALINDROME_SUGGESTIONS = ['abba', 'level', 'radar', 'civic'] as const;
 
 /**
  * Props for EmptyState component
@@ -55,23 +65,16 @@ export default function EmptyState({
   onSuggestedSearch,
   className
 }: EmptyStateProps) {
-  
-  // Suggested palindromes for discounts
-  const palindromeSuggestions = [
-    { query: 'abba', description: 'Marca de productos deportivos' },
-    { query: 'level', description: 'Herramientas de medición' },
-    { query: 'radar', description: 'Equipamiento tecnológico' },
-    { query: 'civic', description: 'Productos urbanos' },
-  ];
+  const t = useTranslations();
 
   // Default content based on whether there's a query
   const defaultTitle = query 
-    ? 'No encontramos productos'
-    : 'Comienza tu búsqueda';
+    ? t('emptyState.title')
+    : t('emptyState.startTitle');
     
   const defaultDescription = query
-    ? `No hay productos que coincidan con "${query}". Intenta con otros términos de búsqueda.`
-    : 'Busca productos de tennis y descubre ofertas especiales con palíndromos.';
+    ? t('emptyState.description', { query })
+    : t('emptyState.startDescription');
 
   return (
     <div 
@@ -110,7 +113,7 @@ export default function EmptyState({
             onClick={onClear}
             className="min-w-[120px]"
           >
-            Limpiar búsqueda
+            {t('emptyState.clear')}
           </Button>
         </div>
       )}
@@ -120,14 +123,14 @@ export default function EmptyState({
         <div className="w-full max-w-lg">
           <div className="flex items-center justify-center gap-2 mb-4 text-sm text-muted-foreground">
             <Lightbulb className="h-4 w-4" />
-            <span>Prueba estas búsquedas con descuento del 50%:</span>
+            <span>{t('emptyState.suggestionsIntro', { max: getMaxDiscountPercentage(getActiveDiscountConfig()) })}</span>
           </div>
           
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-            {palindromeSuggestions.map((suggestion) => (
+            {PALINDROME_SUGGESTIONS.map((suggestion) => (
               <button
-                key={suggestion.query}
-                onClick={() => onSuggestedSearch?.(suggestion.query)}
+                key={suggestion}
+                onClick={() => onSuggestedSearch?.(suggestion)}
                 className={cn(
                   "p-4 text-left rounded-lg border border-border",
                   "hover:border-primary hover:bg-accent/50",
@@ -138,17 +141,17 @@ export default function EmptyState({
                 disabled={!onSuggestedSearch}
               >
                 <div className="font-medium text-foreground mb-1">
-                  &quot;{suggestion.query}&quot;
+                  &quot;{suggestion}&quot;
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  {suggestion.description}
+                  {t(`emptyState.suggestions.${suggestion}`)}
                 </div>
               </button>
             ))}
           </div>
           
           <p className="text-xs text-muted-foreground mt-4">
-            💡 Los palíndromos (palabras que se leen igual al revés) tienen descuentos especiales
+            {t('emptyState.palindromeTip')}
           </p>
         </div>
       )}
@@ -156,11 +159,11 @@ export default function EmptyState({
       {/* Alternative suggestions for non-query empty states */}
       {!query && !showSuggestions && (
         <div className="text-sm text-muted-foreground mt-4">
-          <p>Puedes buscar por:</p>
+          <p>{t('emptyState.searchBy')}</p>
           <ul className="mt-2 space-y-1">
-            <li>• Nombre del producto</li>
-            <li>• Marca</li>
-            <li>• Descripción</li>
+            <li>• {t('emptyState.byName')}</li>
+            <li>• {t('emptyState.byBrand')}</li>
+            <li>• {t('emptyState.byDescription')}</li>
           </ul>
         </div>
       )}
@@ -176,6 +179,8 @@ export function EmptyStateCompact({
   onClear,
   className 
 }: Pick<EmptyStateProps, 'query' | 'onClear' | 'className'>) {
+  const t = useTranslations();
+
   return (
     <div 
       className={cn(
@@ -186,11 +191,11 @@ export function EmptyStateCompact({
     >
       <Search className="h-8 w-8 text-muted-foreground/60 mb-3" />
       <p className="text-sm text-muted-foreground mb-3">
-        {query ? `No hay resultados para "${query}"` : 'No hay resultados'}
+        {query ? t('emptyState.compactNoResultsFor', { query }) : t('emptyState.compactNoResults')}
       </p>
       {query && onClear && (
         <Button variant="ghost" size="sm" onClick={onClear}>
-          Limpiar
+          {t('emptyState.compactClear')}
         </Button>
       )}
     </div>
@@ -1,8 +1,43 @@
+"use client";
+
 import React from 'react';
 import { AlertTriangle, RefreshCw, Wifi, Server } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { cn } from '@/lib/utils';
+import type { MessageKey } from '@/lib/i18n/translator';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Error categories with their own icon, title and suggestions
+ */
+type ErrorType = 'network' | 'server' | 'validation' | 'unknown';
+
+/**
+ * Helpful suggestions per error type (catalog keys)
+ */
+const ERROR_SUGGESTIONS: Record<ErrorType, MessageKey[]> = {
+  network: [
+    'errorState.suggestions.checkConnection',
+    'errorState.suggestions.refresh',
+    'errorState.suggestions.checkServer',
+  ],
+  server: [
+    'errorState.suggestions.serverUnavailable',
+    'errorState.suggestions.tryLater',
+    'errorState.suggestions.contactSupport',
+  ],
+  validation: [
+    'errorState.suggestions.checkQuery',
+    'errorState.suggestions.otherTerms',
+    'errorState.suggestions.validCharacters',
+  ],
+  unknown: [
+    'errorState.suggestions.refresh',
+    'errorState.suggestions.verifyConnection',
+    'errorState.suggestions.contactSupport',
+  ],
+};
 
 /**
  * Props for ErrorState component
@@ -19,7 +54,7 @@ export interface ErrorStateProps {
   /** Whether retry is currently loading */
   isRetrying?: boolean;
   /** Error type for icon selection */
-  errorType?: 'network' | 'server' | 'validation' | 'unknown';
+  errorType?: ErrorType;
   /** Additional CSS classes */
   className?: string;
 }
@@ -56,6 +91,7 @@ export default function ErrorState({
   errorType = 'unknown',
   className
 }: ErrorStateProps) {
+  const t = useTranslations();
 
   // Get appropriate icon based on error type
   const getErrorIcon = () => {
@@ -74,48 +110,10 @@ export default function ErrorState({
   };
 
   // Get default title based on error type
-  const getDefaultTitle = () => {
-    switch (errorType) {
-      case 'network':
-        return 'Error de conexión';
-      case 'server':
-        return 'Error del servidor';
-      case 'validation':
-        return 'Error de validación';
-      default:
-        return 'Error inesperado';
-    }
-  };
+  const getDefaultTitle = () => t(`errorState.titles.${errorType}`);
 
   // Get helpful suggestions based on error type
-  const getSuggestions = () => {
-    switch (errorType) {
-      case 'network':
-        return [
-          'Verifica tu conexión a internet',
-          'Intenta refrescar la página',
-          'Comprueba que el servidor esté funcionando'
-        ];
-      case 'server':
-        return [
-          'El servidor puede estar temporalmente no disponible',
-          'Intenta nuevamente en unos momentos',
-          'Si el problema persiste, contacta al soporte'
-        ];
-      case 'validation':
-        return [
-          'Verifica que tu búsqueda sea válida',
-          'Intenta con términos diferentes',
-          'Asegúrate de usar caracteres válidos'
-        ];
-      default:
-        return [
-          'Intenta refrescar la página',
-          'Verifica tu conexión',
-          'Si el problema persiste, contacta al soporte'
-        ];
-    }
-  };
+  const getSuggestions = () => ERROR_SUGGESTIONS[errorType].map(key => t(key));
 
   return (
     <div 
@@ -158,12 +156,12 @@ export default function ErrorState({
             {isRetrying ? (
               <>
                 <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                Reintentando...
+                {t('errorState.retrying')}
               </>
             ) : (
               <>
                 <RefreshCw className="mr-2 h-4 w-4" />
-                Reintentar
+                {t('errorState.retry')}
               </>
             )}
           </Button>
@@ -176,7 +174,7 @@ export default function ErrorState({
             disabled={isRetrying}
             className="min-w-[120px]"
           >
-            Limpiar búsqueda
+            {t('errorState.clear')}
           </Button>
         )}
       </div>
@@ -184,7 +182,7 @@ export default function ErrorState({
       {/* Helpful Suggestions */}
       <div className="max-w-md">
         <h4 className="text-sm font-medium text-foreground mb-3">
-          Qué puedes intentar:
+          {t('errorState.whatToTry')}
         </h4>
         <ul className="text-sm text-muted-foreground space-y-2 text-left">
           {getSuggestions().map((suggestion, index) => (
@@ -200,7 +198,7 @@ export default function ErrorState({
       {process.env.NODE_ENV === 'development' && (
         <details className="mt-6 w-full max-w-md">
           <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
-            Detalles técnicos
+            {t('errorState.technicalDetails')}
           </summary>
           <div className="mt-2 p-3 bg-muted rounded text-xs font-mono text-left overflow-auto">
             <p><strong>Error:</strong> {error}</p>
@@ -222,6 +220,8 @@ export function ErrorStateCompact({
   isRetrying = false,
   className 
 }: Pick<ErrorStateProps, 'error' | 'onRetry' | 'isRetrying' | 'className'>) {
+  const t = useTranslations();
+
   return (
     <div 
       className={cn(
@@ -250,7 +250,7 @@ export function ErrorStateCompact({
           {isRetrying ? (
             <RefreshCw className="h-3 w-3 animate-spin" />
           ) : (
-            'Reintentar'
+            t('errorState.retry')
           )}
         </Button>
       )}
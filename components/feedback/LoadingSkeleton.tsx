@@ -1,6 +1,9 @@
+"use client";
+
 import React from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
+import { useTranslations } from '@/components/providers/I18nProvider';
 
 /**
  * Props for LoadingSkeleton component
@@ -69,6 +72,8 @@ export default function LoadingSkeleton({
   count = 3, 
   className 
 }: LoadingSkeletonProps) {
+  const t = useTranslations();
+
   return (
     <div 
       className={cn(
@@ -78,7 +83,7 @@ export default function LoadingSkeleton({
         className
       )}
       data-testid="loading-skeleton"
-      aria-label="Cargando productos..."
+      aria-label={t('loading.products')}
     >
       {Array.from({ length: count }, (_, index) => (
         <SkeletonCard key={`skeleton-${index}`} />
@@ -1,15 +1,20 @@
+"use client";
+
 import React from 'react';
 import { cn } from '@/lib/utils';
-import { formatCurrency } from '@/lib/format';
+import { calculateDiscountPercentage, formatCurrency } from '@/lib/format';
+import { compareMoney, subtractMoney, type Money } from '@/lib/money';
+import { useCurrency } from '@/components/providers/CurrencyProvider';
+import { useTranslations } from '@/components/providers/I18nProvider';
 
 /**
  * Props for PriceBlock component
  */
 export interface PriceBlockProps {
   /** Final price to display prominently */
-  finalPrice: number;
+  finalPrice: Money;
   /** Original price (before discount) - optional */
-  originalPrice?: number;
+  originalPrice?: Money;
   /** Size variant for different layouts */
   size?: 'sm' | 'md' | 'lg';
   /** Layout orientation */
@@ -22,13 +27,33 @@ export interface PriceBlockProps {
   align?: 'left' | 'center' | 'right';
 }
 
+/**
+ * Prices in the display currency plus discount facts, shared by the variants
+ * Both prices are converted first, so savings are exact integer subtraction
+ * of what is shown and always add up to the cent.
+ */
+function useDisplayPrices(finalPrice: Money, originalPrice?: Money) {
+  const { convert } = useCurrency();
+  const final = convert(finalPrice);
+  const original = originalPrice ? convert(originalPrice) : undefined;
+  const hasDiscount = original !== undefined && compareMoney(original, final) > 0;
+
+  return {
+    final,
+    original,
+    hasDiscount,
+    savings: hasDiscount ? subtractMoney(original, final) : null,
+    discountPercentage: hasDiscount ? Math.round(calculateDiscountPercentage(original, final)) : 0,
+  };
+}
+
 /**
  * PriceBlock component for displaying product pricing
  * 
  * Features:
  * - Prominent final price display
  * - Strikethrough original price when discounted
- * - Mexican Peso (MXN) formatting
+ * - Formatting in the shopper's display currency (MXN, USD, EUR)
  * - Multiple size variants
  * - Horizontal and vertical layouts
  * - Savings calculation display
@@ -37,18 +62,18 @@ export interface PriceBlockProps {
  * @example
  * ```tsx
  * // Basic price display
- * <PriceBlock finalPrice={1500} />
+ * <PriceBlock finalPrice={money(150000)} />
  * 
  * // With discount
  * <PriceBlock 
- *   finalPrice={750} 
- *   originalPrice={1500}
+ *   finalPrice={money(75000)} 
+ *   originalPrice={money(150000)}
  *   showSavings={true}
  * />
  * 
  * // Large variant
  * <PriceBlock 
- *   finalPrice={2000}
+ *   finalPrice={money(200000)}
  *   size="lg"
  *   align="center"
  * />
@@ -65,9 +90,8 @@ export default function PriceBlock({
 }: PriceBlockProps) {
 
   // Calculate if there's a discount
-  const hasDiscount = originalPrice && originalPrice > finalPrice;
-  const savings = hasDiscount ? originalPrice - finalPrice : 0;
-  const discountPercentage = hasDiscount ? Math.round(((originalPrice - finalPrice) / originalPrice) * 100) : 0;
+  const { final, original, hasDiscount, savings, discountPercentage } = useDisplayPrices(finalPrice, originalPrice);
+  const t = useTranslations();
 
   // Size variants for final price
   const finalPriceSizes = {
@@ -113,36 +137,36 @@ export default function PriceBlock({
           'text-foreground leading-tight',
           hasDiscount ? 'text-green-600 dark:text-green-400' : 'text-foreground'
         )}
-        aria-label={`Precio final: ${formatCurrency(finalPrice)}`}
+        aria-label={t('price.final', { amount: formatCurrency(final) })}
       >
-        {formatCurrency(finalPrice)}
+        {formatCurrency(final)}
       </div>
 
       {/* Original Price with Strikethrough */}
-      {hasDiscount && originalPrice && (
+      {hasDiscount && original && (
         <div 
           className={cn(
             originalPriceSizes[size],
             'text-muted-foreground line-through',
             layout === 'horizontal' ? 'order-first' : ''
           )}
-          aria-label={`Precio original: ${formatCurrency(originalPrice)}`}
+          aria-label={t('price.original', { amount: formatCurrency(original) })}
         >
-          {formatCurrency(originalPrice)}
+          {formatCurrency(original)}
         </div>
       )}
 
       {/* Savings Display */}
-      {showSavings && hasDiscount && savings > 0 && (
+      {showSavings && savings && (
         <div 
           className={cn(
             'text-sm font-medium',
             'text-green-600 dark:text-green-400',
             layout === 'horizontal' ? 'ml-auto' : 'mt-1'
           )}
-          aria-label={`Ahorras: ${formatCurrency(savings)}`}
+          aria-label={t('price.savingsLabel', { amount: formatCurrency(savings) })}
         >
-          Ahorras {formatCurrency(savings)}
+          {t('price.savings', { amount: formatCurrency(savings) })}
           {discountPercentage > 0 && (
             <span className="ml-1 text-xs">
               ({discountPercentage}%)
@@ -154,11 +178,13 @@ export default function PriceBlock({
       {/* Screen Reader Announcements */}
       <div className="sr-only">
         {hasDiscount ? (
-          `Precio con descuento: ${formatCurrency(finalPrice)}. ` +
-          `Precio original: ${formatCurrency(originalPrice!)}. ` +
-          `Descuento del ${discountPercentage}%.`
+          t('price.srDiscounted', {
+            final: formatCurrency(final),
+            original: formatCurrency(original),
+            percent: discountPercentage,
+          })
         ) : (
-          `Precio: ${formatCurrency(finalPrice)}`
+          t('price.srRegular', { amount: formatCurrency(final) })
         )}
       </div>
     </div>
@@ -174,7 +200,7 @@ export function CompactPriceBlock({
   className
 }: Pick<PriceBlockProps, 'finalPrice' | 'originalPrice' | 'className'>) {
   
-  const hasDiscount = originalPrice && originalPrice > finalPrice;
+  const { final, original, hasDiscount } = useDisplayPrices(finalPrice, originalPrice);
 
   return (
     <div 
@@ -185,12 +211,12 @@ export function CompactPriceBlock({
       data-testid="compact-price-block"
     >
       <span className="text-lg font-bold text-foreground">
-        {formatCurrency(finalPrice)}
+        {formatCurrency(final)}
       </span>
       
       {hasDiscount && (
         <span className="text-sm text-muted-foreground line-through">
-          {formatCurrency(originalPrice!)}
+          {formatCurrency(original)}
         </span>
       )}
     </div>
@@ -207,9 +233,8 @@ export function LargePriceBlock({
   className
 }: Pick<PriceBlockProps, 'finalPrice' | 'originalPrice' | 'showSavings' | 'className'>) {
   
-  const hasDiscount = originalPrice && originalPrice > finalPrice;
-  const savings = hasDiscount ? originalPrice - finalPrice : 0;
-  const discountPercentage = hasDiscount ? Math.round(((originalPrice - finalPrice) / originalPrice) * 100) : 0;
+  const { final, original, hasDiscount, savings, discountPercentage } = useDisplayPrices(finalPrice, originalPrice);
+  const t = useTranslations();
 
   return (
     <div 
@@ -222,19 +247,19 @@ export function LargePriceBlock({
       {/* Original Price */}
       {hasDiscount && (
         <div className="text-lg text-muted-foreground line-through">
-          {formatCurrency(originalPrice!)}
+          {formatCurrency(original)}
         </div>
       )}
       
       {/* Final Price */}
       <div className="text-3xl font-bold text-green-600 dark:text-green-400">
-        {formatCurrency(finalPrice)}
+        {formatCurrency(final)}
       </div>
       
       {/* Savings Banner */}
-      {showSavings && hasDiscount && (
+      {showSavings && savings && (
         <div className="inline-flex items-center px-3 py-1 bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-400 text-sm font-medium rounded-full">
-          ¡Ahorras {formatCurrency(savings)} ({discountPercentage}%)!
+          {t('price.savingsBanner', { amount: formatCurrency(savings), percent: discountPercentage })}
         </div>
       )}
     </div>
@@ -249,7 +274,7 @@ export function PriceComparison({
   selectedIndex = 0,
   className
 }: {
-  prices: Array<{ label: string; finalPrice: number; originalPrice?: number }>;
+  prices: Array<{ label: string; finalPrice: Money; originalPrice?: Money }>;
   selectedIndex?: number;
   className?: string;
 }) {
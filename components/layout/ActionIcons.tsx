@@ -1,15 +1,18 @@
+"use client";
+
 import React from 'react';
+import Link from 'next/link';
 import { Heart, ShoppingCart, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { localizePath } from '@/lib/i18n/negotiate';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
+import { useCart } from '@/components/providers/CartProvider';
+import { useWishlist } from '@/components/providers/WishlistProvider';
 
 /**
  * Props for ActionIcons component
  */
 export interface ActionIconsProps {
-  /** Number of items in cart (for badge display) */
-  cartItemCount?: number;
-  /** Number of items in wishlist */
-  wishlistItemCount?: number;
   /** Additional CSS classes */
   className?: string;
 }
@@ -18,41 +21,46 @@ export interface ActionIconsProps {
  * ActionIcons component for e-commerce header actions
  * 
  * Features:
- * - Wishlist/favorites icon with optional count
- * - Shopping cart icon with item count badge
+ * - Wishlist icon with the saved count; links to the wishlist page
+ * - Shopping cart icon with the cart's item count; opens the cart drawer
  * - User profile icon
  * - Responsive design (mobile shows fewer icons)
- * - Visual only - no functional interactions
  * 
  * @example
  * ```tsx
- * <ActionIcons cartItemCount={2} wishlistItemCount={5} />
+ * <ActionIcons />
  * ```
  */
 export default function ActionIcons({ 
-  cartItemCount = 2, 
-  wishlistItemCount,
   className 
 }: ActionIconsProps) {
+  const t = useTranslations();
+  const locale = useLocale();
+  const { entries } = useWishlist();
+  const wishlistItemCount = entries.length;
+  const { summary, openCart } = useCart();
+  const cartItemCount = summary.itemCount;
+
   return (
     <div className={cn("flex items-center gap-3", className)}>
       {/* Wishlist - hidden on mobile */}
       <div className="hidden sm:block relative">
-        <button
+        <Link
+          href={localizePath('/wishlist', locale)}
           className={cn(
-            "p-2 rounded-md hover:bg-muted/50 transition-colors duration-200",
+            "block p-2 rounded-md hover:bg-muted/50 transition-colors duration-200",
             "text-muted-foreground hover:text-foreground cursor-pointer"
           )}
-          onClick={(e) => e.preventDefault()}
-          aria-label="Lista de deseos"
+          aria-label={t('nav.wishlist', { count: wishlistItemCount })}
+          data-testid="wishlist-link"
         >
           <Heart className="h-5 w-5" />
-          {wishlistItemCount && wishlistItemCount > 0 && (
+          {wishlistItemCount > 0 && (
             <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
               {wishlistItemCount > 9 ? '9+' : wishlistItemCount}
             </span>
           )}
-        </button>
+        </Link>
       </div>
 
       {/* Shopping Cart */}
@@ -62,8 +70,10 @@ export default function ActionIcons({
             "p-2 rounded-md hover:bg-muted/50 transition-colors duration-200",
             "text-muted-foreground hover:text-foreground cursor-pointer"
           )}
-          onClick={(e) => e.preventDefault()}
-          aria-label={`Carrito de compras - ${cartItemCount} artículos`}
+          onClick={openCart}
+          aria-label={t('nav.cart', { count: cartItemCount })}
+          aria-haspopup="dialog"
+          data-testid="cart-button"
         >
           <ShoppingCart className="h-5 w-5" />
           {cartItemCount > 0 && (
@@ -82,7 +92,7 @@ export default function ActionIcons({
             "text-muted-foreground hover:text-foreground cursor-pointer"
           )}
           onClick={(e) => e.preventDefault()}
-          aria-label="Perfil de usuario"
+          aria-label={t('nav.profile')}
         >
           <User className="h-5 w-5" />
         </button>
@@ -95,9 +105,12 @@ export default function ActionIcons({
  * Compact version for mobile
  */
 export function CompactActionIcons({ 
-  cartItemCount = 2,
   className 
-}: Pick<ActionIconsProps, 'cartItemCount' | 'className'>) {
+}: Pick<ActionIconsProps, 'className'>) {
+  const t = useTranslations();
+  const { summary, openCart } = useCart();
+  const cartItemCount = summary.itemCount;
+
   return (
     <div className={cn("flex items-center gap-2", className)}>
       {/* Only cart and user on mobile */}
@@ -107,8 +120,9 @@ export function CompactActionIcons({
             "p-1.5 rounded-md hover:bg-muted/50 transition-colors duration-200",
             "text-muted-foreground hover:text-foreground cursor-pointer"
           )}
-          onClick={(e) => e.preventDefault()}
-          aria-label={`Carrito - ${cartItemCount}`}
+          onClick={openCart}
+          aria-label={t('nav.cartShort', { count: cartItemCount })}
+          aria-haspopup="dialog"
         >
           <ShoppingCart className="h-4 w-4" />
           {cartItemCount > 0 && (
@@ -126,7 +140,7 @@ export function CompactActionIcons({
             "text-muted-foreground hover:text-foreground cursor-pointer"
           )}
           onClick={(e) => e.preventDefault()}
-          aria-label="Perfil"
+          aria-label={t('nav.profileShort')}
         >
           <User className="h-4 w-4" />
         </button>
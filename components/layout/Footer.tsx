@@ -0,0 +1,47 @@
+"use client";
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for Footer component
+ */
+export interface FooterProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Footer component shared by the store pages
+ * 
+ * @example
+ * ```tsx
+ * <Footer />
+ * ```
+ */
+export default function Footer({ className }: FooterProps) {
+  const t = useTranslations();
+
+  return (
+    <footer className={cn("border-t border-border bg-card/30 backdrop-blur-sm mt-16", className)}>
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center space-y-4">
+          <div className="flex items-center justify-center space-x-2">
+            <div className="w-6 h-0.5 bg-gradient-to-r from-transparent to-primary" />
+            <span className="text-lg font-light text-foreground">{t('brand.name')}</span>
+            <div className="w-6 h-0.5 bg-gradient-to-r from-accent to-transparent" />
+          </div>
+          <p className="text-sm text-muted-foreground font-light">
+            {t('footer.tagline')}
+          </p>
+          <div className="flex items-center justify-center space-x-4 text-xs text-muted-foreground/60">
+            <span>Powered by Next.js</span>
+            <div className="w-1 h-1 bg-muted-foreground/40 rounded-full" />
+            <span>Acueducto</span>
+          </div>
+        </div>
+      </div>
+    </footer>
+  );
+}
@@ -1,8 +1,12 @@
+"use client";
+
 import React from 'react';
 import { cn } from '@/lib/utils';
 import TopBar from './TopBar';
 import MainNav, { CompactMainNav } from './MainNav';
 import type { NavCategory } from './NavMenu';
+import { useTranslations } from '@/components/providers/I18nProvider';
+import { useCart } from '@/components/providers/CartProvider';
 
 /**
  * Props for Header component
@@ -10,10 +14,6 @@ import type { NavCategory } from './NavMenu';
 export interface HeaderProps {
   /** Navigation categories (optional, uses defaults if not provided) */
   categories?: NavCategory[];
-  /** Number of items in cart */
-  cartItemCount?: number;
-  /** Number of items in wishlist */
-  wishlistItemCount?: number;
   /** Whether to show the top bar with promotional info */
   showTopBar?: boolean;
   /** Whether to use compact version */
@@ -34,14 +34,12 @@ export interface HeaderProps {
  * 
  * @example
  * ```tsx
- * <Header cartItemCount={2} wishlistItemCount={5} />
+ * <Header />
  * <Header compact showTopBar={false} />
  * ```
  */
 export default function Header({ 
   categories,
-  cartItemCount = 2,
-  wishlistItemCount,
   showTopBar = true,
   compact = false,
   className 
@@ -49,7 +47,7 @@ export default function Header({
   if (compact) {
     return (
       <header className={cn("w-full", className)}>
-        <CompactMainNav cartItemCount={cartItemCount} />
+        <CompactMainNav />
       </header>
     );
   }
@@ -62,8 +60,6 @@ export default function Header({
       {/* Main navigation */}
       <MainNav 
         categories={categories}
-        cartItemCount={cartItemCount}
-        wishlistItemCount={wishlistItemCount}
       />
     </header>
   );
@@ -73,16 +69,18 @@ export default function Header({
  * Header with custom branding
  */
 export function CustomHeader({ 
-  title = "Za-🦆🦆🦆 Tennis Store",
-  subtitle = "Tu tienda de tennis favorita",
-  cartItemCount = 2,
+  title,
+  subtitle,
   className 
 }: {
   title?: string;
   subtitle?: string;
-  cartItemCount?: number;
   className?: string;
 }) {
+  const t = useTranslations();
+  const { summary, openCart } = useCart();
+  const cartItemCount = summary.itemCount;
+
   return (
     <header className={cn("w-full", className)}>
       <nav className="bg-card shadow-sm border-b border-border/50">
@@ -92,10 +90,10 @@ export function CustomHeader({
             <div className="flex items-center gap-4">
               <div className="flex flex-col">
                 <h1 className="text-lg md:text-xl font-bold text-foreground">
-                  {title}
+                  {title ?? t('brand.name')}
                 </h1>
                 <p className="hidden sm:block text-xs text-muted-foreground">
-                  {subtitle}
+                  {subtitle ?? t('brand.tagline')}
                 </p>
               </div>
             </div>
@@ -105,7 +103,9 @@ export function CustomHeader({
               <div className="relative">
                 <button
                   className="p-2 rounded-md hover:bg-muted/50 transition-colors duration-200 text-muted-foreground hover:text-foreground cursor-pointer"
-                  onClick={(e) => e.preventDefault()}
+                  onClick={openCart}
+                  aria-label={t('nav.cart', { count: cartItemCount })}
+                  aria-haspopup="dialog"
                 >
                   🛒
                   {cartItemCount > 0 && (
@@ -1,5 +1,8 @@
+"use client";
+
 import React from 'react';
 import { cn } from '@/lib/utils';
+import { useTranslations } from '@/components/providers/I18nProvider';
 import NavMenu, { MobileNavMenu, type NavCategory } from './NavMenu';
 import ActionIcons, { CompactActionIcons } from './ActionIcons';
 
@@ -9,10 +12,6 @@ import ActionIcons, { CompactActionIcons } from './ActionIcons';
 export interface MainNavProps {
   /** Navigation categories (optional, uses defaults if not provided) */
   categories?: NavCategory[];
-  /** Number of items in cart */
-  cartItemCount?: number;
-  /** Number of items in wishlist */
-  wishlistItemCount?: number;
   /** Additional CSS classes */
   className?: string;
 }
@@ -25,19 +24,19 @@ export interface MainNavProps {
  * - Navigation menu in the center (desktop)
  * - Action icons on the right
  * - Responsive design with mobile adaptations
- * - Visual only - no functional interactions
+ * - Category links to the category pages
  * 
  * @example
  * ```tsx
- * <MainNav cartItemCount={2} wishlistItemCount={5} />
+ * <MainNav />
  * ```
  */
 export default function MainNav({ 
   categories,
-  cartItemCount = 2,
-  wishlistItemCount,
   className 
 }: MainNavProps) {
+  const t = useTranslations();
+
   return (
     <nav className={cn(
       "bg-card shadow-sm border-b border-border/50",
@@ -49,10 +48,10 @@ export default function MainNav({
           <div className="flex items-center gap-4">
             <div className="flex flex-col">
               <h1 className="text-lg md:text-xl font-bold text-foreground">
-                Za-🦆🦆🦆 Tennis Store
+                {t('brand.name')}
               </h1>
               <p className="hidden sm:block text-xs text-muted-foreground">
-                Tu tienda de tennis favorita
+                {t('brand.tagline')}
               </p>
             </div>
           </div>
@@ -67,14 +66,11 @@ export default function MainNav({
           <div className="flex items-center gap-2">
             {/* Desktop version */}
             <ActionIcons 
-              cartItemCount={cartItemCount}
-              wishlistItemCount={wishlistItemCount}
               className="hidden sm:flex"
             />
             
             {/* Mobile version */}
             <CompactActionIcons 
-              cartItemCount={cartItemCount}
               className="sm:hidden"
             />
           </div>
@@ -94,9 +90,10 @@ export default function MainNav({
  * Compact version of MainNav for smaller headers
  */
 export function CompactMainNav({ 
-  cartItemCount = 2,
   className 
-}: Pick<MainNavProps, 'cartItemCount' | 'className'>) {
+}: Pick<MainNavProps, 'className'>) {
+  const t = useTranslations();
+
   return (
     <nav className={cn(
       "bg-card shadow-sm border-b border-border/50",
@@ -107,12 +104,12 @@ export function CompactMainNav({
           {/* Simplified Logo */}
           <div className="flex items-center">
             <h1 className="text-base md:text-lg font-bold text-foreground">
-              Za-🦆🦆🦆 Tennis
+              {t('brand.shortName')}
             </h1>
           </div>
 
           {/* Compact Actions */}
-          <CompactActionIcons cartItemCount={cartItemCount} />
+          <CompactActionIcons />
         </div>
       </div>
     </nav>
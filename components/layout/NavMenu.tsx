@@ -1,5 +1,12 @@
+"use client";
+
 import React from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
+import { CATEGORIES } from '@/lib/categories';
+import { getCategoryHref } from '@/lib/routes';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
 
 /**
  * Navigation category item
@@ -7,8 +14,8 @@ import { cn } from '@/lib/utils';
 export interface NavCategory {
   /** Category name */
   name: string;
-  /** Visual href (non-functional) */
-  href?: string;
+  /** Locale-prefixed page URL */
+  href: string;
 }
 
 /**
@@ -22,24 +29,22 @@ export interface NavMenuProps {
 }
 
 /**
- * Default tennis store categories
+ * Default categories (lib/categories) in the current locale
  */
-const defaultCategories: NavCategory[] = [
-  { name: 'Raquetas', href: '#' },
-  { name: 'Pelotas', href: '#' },
-  { name: 'Calzado', href: '#' },
-  { name: 'Accesorios', href: '#' },
-  { name: 'Ofertas', href: '#' },
-];
+function useDefaultCategories(): NavCategory[] {
+  const t = useTranslations();
+  const locale = useLocale();
+  return CATEGORIES.map(({ slug }) => ({ name: t(`nav.categories.${slug}`), href: getCategoryHref(slug, locale) }));
+}
 
 /**
  * NavMenu component for e-commerce navigation
  * 
  * Features:
- * - Tennis product categories
+ * - Tennis product categories linking to /[locale]/category/[slug]
+ * - Current category highlighted (aria-current="page")
  * - Responsive navigation (collapses on mobile)
  * - Hover states for better UX
- * - Visual only - no functional navigation
  * 
  * @example
  * ```tsx
@@ -48,26 +53,34 @@ const defaultCategories: NavCategory[] = [
  * ```
  */
 export default function NavMenu({ 
-  categories = defaultCategories, 
+  categories: customCategories, 
   className 
 }: NavMenuProps) {
+  const defaultCategories = useDefaultCategories();
+  const categories = customCategories ?? defaultCategories;
+  const pathname = usePathname();
+
   return (
     <nav className={cn("hidden md:flex items-center gap-6", className)}>
-      {categories.map((category, index) => (
-        <a
-          key={index}
-          href={category.href}
-          className={cn(
-            "text-sm font-medium text-foreground hover:text-primary",
-            "transition-colors duration-200 cursor-pointer",
-            "px-2 py-1 rounded-md hover:bg-muted/50"
-          )}
-          // Prevent actual navigation since this is visual only
-          onClick={(e) => e.preventDefault()}
-        >
-          {category.name}
-        </a>
-      ))}
+      {categories.map((category, index) => {
+        const isActive = pathname === category.href;
+        return (
+          <Link
+            key={index}
+            href={category.href}
+            className={cn(
+              "text-sm font-medium text-foreground hover:text-primary",
+              "transition-colors duration-200 cursor-pointer",
+              "px-2 py-1 rounded-md hover:bg-muted/50",
+              isActive && "text-primary bg-muted/50"
+            )}
+            aria-current={isActive ? 'page' : undefined}
+            data-testid="nav-category"
+          >
+            {category.name}
+          </Link>
+        );
+      })}
     </nav>
   );
 }
@@ -76,26 +89,34 @@ export default function NavMenu({
  * Mobile version of NavMenu (simplified)
  */
 export function MobileNavMenu({ 
-  categories = defaultCategories, 
+  categories: customCategories, 
   className 
 }: NavMenuProps) {
+  const defaultCategories = useDefaultCategories();
+  const categories = customCategories ?? defaultCategories;
+  const pathname = usePathname();
+
   return (
     <nav className={cn("md:hidden flex items-center gap-2", className)}>
       {/* Show only first 3 categories on mobile */}
-      {categories.slice(0, 3).map((category, index) => (
-        <a
-          key={index}
-          href={category.href}
-          className={cn(
-            "text-xs font-medium text-foreground hover:text-primary",
-            "transition-colors duration-200 cursor-pointer",
-            "px-2 py-1 rounded-md hover:bg-muted/50"
-          )}
-          onClick={(e) => e.preventDefault()}
-        >
-          {category.name}
-        </a>
-      ))}
+      {categories.slice(0, 3).map((category, index) => {
+        const isActive = pathname === category.href;
+        return (
+          <Link
+            key={index}
+            href={category.href}
+            className={cn(
+              "text-xs font-medium text-foreground hover:text-primary",
+              "transition-colors duration-200 cursor-pointer",
+              "px-2 py-1 rounded-md hover:bg-muted/50",
+              isActive && "text-primary bg-muted/50"
+            )}
+            aria-current={isActive ? 'page' : undefined}
+          >
+            {category.name}
+          </Link>
+        );
+      })}
       {categories.length > 3 && (
         <span className="text-xs text-muted-foreground">+{categories.length - 3}</span>
       )}
@@ -1,11 +1,25 @@
+"use client";
+
 import React from 'react';
-import { Truck, Phone, HelpCircle } from 'lucide-react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Truck, Phone, HelpCircle, Sparkles, Coins, Languages } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatCountdown } from '@/lib/format';
+import { useNow } from '@/lib/useNow';
+import { resolveActiveCampaigns } from '@/lib/discounts/campaigns';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency/config';
+import { FREE_SHIPPING_THRESHOLD } from '@/lib/shipping';
+import { isLocale, LOCALE_LABELS, LOCALES } from '@/lib/i18n/config';
+import { localizePath } from '@/lib/i18n/negotiate';
+import { useCurrency } from '@/components/providers/CurrencyProvider';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
 
 /**
  * Props for TopBar component
  */
 export interface TopBarProps {
+  /** How long each promotional message stays visible, in milliseconds */
+  rotationMs?: number;
   /** Additional CSS classes */
   className?: string;
 }
@@ -14,18 +28,42 @@ export interface TopBarProps {
  * TopBar component for e-commerce header information
  * 
  * Features:
- * - Promotional messaging (free shipping)
+ * - Promotional messaging (free shipping in the display currency)
+ * - Rotates active campaign messages with a live countdown
+ * - Display currency selector (persisted by CurrencyProvider)
+ * - Language switcher (keeps the current page and query; the middleware remembers the choice)
  * - Contact information
  * - Help/support links
  * - Responsive design with mobile simplification
- * - Visual only - no functional interactions
+ * 
+ * Campaigns are resolved against the injectable clock on every tick,
+ * so messages appear and disappear exactly at their start/end instants.
  * 
  * @example
  * ```tsx
  * <TopBar />
+ * <TopBar rotationMs={8000} />
  * ```
  */
-export default function TopBar({ className }: TopBarProps) {
+export default function TopBar({ rotationMs = 5000, className }: TopBarProps) {
+  const current = useNow();
+  const { currency, setCurrency, format } = useCurrency();
+  const locale = useLocale();
+  const t = useTranslations();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  // Same page and query in the other language
+  const switchLocale = (next: string) => {
+    if (!isLocale(next) || next === locale) return;
+    router.push(`${localizePath(pathname, next)}${window.location.search}`);
+  };
+
+  // Server render and first paint show the default message
+  const campaigns = current ? resolveActiveCampaigns(current) : [];
+  const slot = current ? Math.floor(current.getTime() / rotationMs) % (campaigns.length + 1) : 0;
+  const activeCampaign = slot > 0 ? campaigns[slot - 1] : null;
+
   return (
     <div className={cn(
       "bg-muted/30 border-b border-border/30 text-xs text-muted-foreground",
@@ -33,19 +71,69 @@ export default function TopBar({ className }: TopBarProps) {
     )}>
       <div className="container mx-auto px-4 py-2">
         <div className="flex items-center justify-between">
-          {/* Left side - Promotional message */}
-          <div className="flex items-center gap-2">
-            <Truck className="h-3 w-3" />
-            <span className="hidden sm:inline">
-              Envío gratis en compras mayores a $1,000 MXN
-            </span>
-            <span className="sm:hidden">
-              Envío gratis +$1,000
-            </span>
+          {/* Left side - Rotating promotional message */}
+          <div className="flex items-center gap-2" aria-live="polite" data-testid="top-bar-message">
+            {activeCampaign && current ? (
+              <>
+                <Sparkles className="h-3 w-3 text-primary" />
+                <span className="text-foreground" data-testid="top-bar-campaign">
+                  {activeCampaign.campaign.message[locale]}
+                </span>
+                <span className="hidden sm:inline font-mono">
+                  {t('topBar.campaignEndsIn', { countdown: formatCountdown(activeCampaign.endsAt.getTime() - current.getTime()) })}
+                </span>
+              </>
+            ) : (
+              <>
+                <Truck className="h-3 w-3" />
+                <span className="hidden sm:inline" data-testid="top-bar-free-shipping">
+                  {t('topBar.freeShipping', { amount: format(FREE_SHIPPING_THRESHOLD) })}
+                </span>
+                <span className="sm:hidden">
+                  {t('topBar.freeShippingShort', { amount: format(FREE_SHIPPING_THRESHOLD) })}
+                </span>
+              </>
+            )}
           </div>
 
-          {/* Right side - Contact and help */}
+          {/* Right side - Language, currency, contact and help */}
           <div className="flex items-center gap-4">
+            {/* Language */}
+            <label className="flex items-center gap-1 hover:text-foreground transition-colors">
+              <Languages className="h-3 w-3" />
+              <span className="sr-only">{t('topBar.language')}</span>
+              <select
+                value={locale}
+                onChange={(event) => switchLocale(event.target.value)}
+                className="bg-transparent text-xs cursor-pointer focus:outline-none focus-visible:ring-1 focus-visible:ring-ring rounded"
+                data-testid="locale-selector"
+              >
+                {LOCALES.map(code => (
+                  <option key={code} value={code} lang={code}>
+                    {LOCALE_LABELS[code]}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {/* Currency */}
+            <label className="flex items-center gap-1 hover:text-foreground transition-colors">
+              <Coins className="h-3 w-3" />
+              <span className="sr-only">{t('topBar.currency')}</span>
+              <select
+                value={currency}
+                onChange={(event) => setCurrency(event.target.value)}
+                className="bg-transparent text-xs cursor-pointer focus:outline-none focus-visible:ring-1 focus-visible:ring-ring rounded"
+                data-testid="currency-selector"
+              >
+                {SUPPORTED_CURRENCIES.map(option => (
+                  <option key={option.code} value={option.code} title={option.label[locale]}>
+                    {option.code}
+                  </option>
+                ))}
+              </select>
+            </label>
+
             {/* Contact */}
             <div className="hidden md:flex items-center gap-1">
               <Phone className="h-3 w-3" />
@@ -55,7 +143,7 @@ export default function TopBar({ className }: TopBarProps) {
             {/* Help */}
             <div className="flex items-center gap-1 hover:text-foreground transition-colors cursor-pointer">
               <HelpCircle className="h-3 w-3" />
-              <span>Ayuda</span>
+              <span>{t('topBar.help')}</span>
             </div>
           </div>
         </div>
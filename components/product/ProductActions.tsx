@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Check, Heart, ShoppingCart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ProductItem } from '@/lib/types';
+import { useCart } from '@/components/providers/CartProvider';
+import { useTranslations } from '@/components/providers/I18nProvider';
+import { useWishlist } from '@/components/providers/WishlistProvider';
+
+/**
+ * Props for ProductActions component
+ */
+export interface ProductActionsProps {
+  /** Product as priced on the detail page */
+  item: ProductItem;
+  /** Query whose discount carried over ("" for none), recorded on the cart line */
+  query: string;
+  /** Open the cart drawer after adding (default: true); otherwise confirm in place */
+  openCartOnAdd?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * ProductActions component for the product detail page
+ *
+ * Features:
+ * - Add to cart at the price shown, opening the cart drawer or confirming in place
+ * - Wishlist toggle
+ *
+ * @example
+ * ```tsx
+ * <ProductActions item={item} query="abba" />
+ * ```
+ */
+export default function ProductActions({ item, query, openCartOnAdd = true, className }: ProductActionsProps) {
+  const { addItem, openCart } = useCart();
+  const { isSaved, toggle } = useWishlist();
+  const t = useTranslations();
+  const saved = isSaved(item.id);
+  const [justAdded, setJustAdded] = useState(false);
+
+  // The in-place confirmation fades back to the normal label
+  useEffect(() => {
+    if (!justAdded) return;
+    const timeoutId = setTimeout(() => setJustAdded(false), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [justAdded]);
+
+  const handleAddToCart = () => {
+    addItem(item, query);
+    if (openCartOnAdd) {
+      openCart();
+    } else {
+      setJustAdded(true);
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-3 sm:flex-row', className)}>
+      <Button type="button" size="lg" className="flex-1" onClick={handleAddToCart} data-testid="add-to-cart">
+        {justAdded ? <Check className="h-5 w-5" /> : <ShoppingCart className="h-5 w-5" />}
+        <span aria-live="polite">{justAdded ? t('cart.added') : t('cart.add')}</span>
+      </Button>
+      <Button
+        type="button"
+        size="lg"
+        variant="outline"
+        onClick={() => toggle(item)}
+        aria-pressed={saved}
+        data-testid="wishlist-toggle"
+      >
+        <Heart className={cn('h-5 w-5', saved && 'fill-current text-red-500')} />
+        {t(saved ? 'product.unsave' : 'product.save')}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { cn } from '@/lib/utils';
+import type { ProductItem } from '@/lib/types';
+import { getProductHref } from '@/lib/routes';
+import ProductCard from '@/components/results/ProductCard';
+import { useLocale } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for RelatedProducts component
+ */
+export interface RelatedProductsProps {
+  /** Products to list */
+  items: ProductItem[];
+  /** Query whose discount carried over ("" for none), kept when navigating */
+  query: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * RelatedProducts component for "more from this brand" on the detail page
+ *
+ * Receives serialisable products from a server component and links each
+ * card to its own detail page, keeping the carried-over query.
+ *
+ * @example
+ * ```tsx
+ * <RelatedProducts items={related} query="abba" />
+ * ```
+ */
+export default function RelatedProducts({ items, query, className }: RelatedProductsProps) {
+  const router = useRouter();
+  const locale = useLocale();
+
+  return (
+    <div className={cn('grid gap-6 sm:grid-cols-2 lg:grid-cols-4', className)}>
+      {items.map(item => (
+        <ProductCard
+          key={item.id}
+          item={item}
+          isPalindrome={!!item.discountPercentage}
+          query={query}
+          size="sm"
+          onClick={(selected) => router.push(getProductHref(selected.id, query, locale))}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import type { ProductItem } from '@/lib/types';
+import { useStoredState, type StoredStateCodec } from '@/lib/useStoredState';
+import {
+  addToCart,
+  CART_STORAGE_KEY,
+  parseStoredCart,
+  removeFromCart,
+  serializeCart,
+  summarizeCart,
+  updateQuantity,
+  type CartLine,
+  type CartSummary,
+} from '@/lib/cart';
+
+/**
+ * Value exposed by the cart context
+ */
+export interface CartContextValue {
+  /** Lines in the order they were added */
+  lines: CartLine[];
+  /** Totals in the catalog currency */
+  summary: CartSummary;
+  /** Add a product at its displayed price, remembering the query it came from */
+  addItem: (item: ProductItem, query: string, quantity?: number) => void;
+  /** Remove a line */
+  removeLine: (lineId: string) => void;
+  /** Set a line's quantity (0 removes it) */
+  setQuantity: (lineId: string, quantity: number) => void;
+  /** Empty the cart */
+  clear: () => void;
+  /** Whether the cart drawer is open */
+  isOpen: boolean;
+  /** Open the cart drawer */
+  openCart: () => void;
+  /** Close the cart drawer */
+  closeCart: () => void;
+}
+
+// Outside a provider the cart is empty and read-only
+const CartContext = createContext<CartContextValue>({
+  lines: [],
+  summary: summarizeCart([]),
+  addItem: () => {},
+  removeLine: () => {},
+  setQuantity: () => {},
+  clear: () => {},
+  isOpen: false,
+  openCart: () => {},
+  closeCart: () => {},
+});
+
+// Server render and first paint show an empty cart
+const CART_CODEC: StoredStateCodec<CartLine[]> = {
+  initial: [],
+  parse: parseStoredCart,
+  serialize: serializeCart,
+};
+
+/**
+ * Props for CartProvider component
+ */
+export interface CartProviderProps {
+  /** Subtree that reads or changes the cart */
+  children: React.ReactNode;
+}
+
+/**
+ * CartProvider component for the shopping cart
+ *
+ * Features:
+ * - Add, remove and update quantity
+ * - Lines keep the price shown when they were added
+ * - Persisted in localStorage across visits
+ * - Synced between open tabs through the storage event
+ * - Drawer open state shared by the cart icon and the drawer
+ * - Server render and first paint show an empty cart (no hydration mismatch)
+ *
+ * @example
+ * ```tsx
+ * <CartProvider>{children}</CartProvider>
+ *
+ * const { addItem, summary } = useCart();
+ * addItem(item, data.query);
+ * ```
+ */
+export default function CartProvider({ children }: CartProviderProps) {
+  const [lines, setLines] = useStoredState<CartLine[]>(CART_STORAGE_KEY, CART_CODEC);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const addItem = useCallback((item: ProductItem, query: string, quantity?: number) => {
+    setLines(current => addToCart(current, item, query, quantity));
+  }, [setLines]);
+
+  const removeLine = useCallback((lineId: string) => {
+    setLines(current => removeFromCart(current, lineId));
+  }, [setLines]);
+
+  const setQuantity = useCallback((lineId: string, quantity: number) => {
+    setLines(current => updateQuantity(current, lineId, quantity));
+  }, [setLines]);
+
+  const clear = useCallback(() => setLines([]), [setLines]);
+  const openCart = useCallback(() => setIsOpen(true), []);
+  const closeCart = useCallback(() => setIsOpen(false), []);
+
+  const value = useMemo<CartContextValue>(() => ({
+    lines,
+    summary: summarizeCart(lines),
+    addItem,
+    removeLine,
+    setQuantity,
+    clear,
+    isOpen,
+    openCart,
+    closeCart,
+  }), [lines, addItem, removeLine, setQuantity, clear, isOpen, openCart, closeCart]);
+
+  return (
+    <CartContext.Provider value={value}>
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+/**
+ * Cart state and actions from the nearest CartProvider
+ */
+export function useCart(): CartContextValue {
+  return useContext(CartContext);
+}
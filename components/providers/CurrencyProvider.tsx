@@ -0,0 +1,130 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '@/lib/format';
+import type { CurrencyCode, Money } from '@/lib/money';
+import { convertMoney } from '@/lib/currency/convert';
+import {
+  CURRENCY_STORAGE_KEY,
+  DEFAULT_DISPLAY_CURRENCY,
+  EXCHANGE_RATES,
+  isSupportedCurrency,
+} from '@/lib/currency/config';
+
+/**
+ * Value exposed by the currency context
+ */
+export interface CurrencyContextValue {
+  /** Currency prices are displayed in */
+  currency: CurrencyCode;
+  /** Change (and persist) the display currency */
+  setCurrency: (currency: CurrencyCode) => void;
+  /** Convert an amount into the display currency */
+  convert: (value: Money) => Money;
+  /** Convert and format an amount in the display currency */
+  format: (value: Money | null | undefined) => string;
+  /** Version of the exchange-rate table in use */
+  ratesVersion: string;
+}
+
+/**
+ * Build the context value for a currency
+ */
+function createCurrencyValue(currency: CurrencyCode, setCurrency: (currency: CurrencyCode) => void): CurrencyContextValue {
+  return {
+    currency,
+    setCurrency,
+    convert: (value) => convertMoney(value, currency),
+    format: (value) => formatCurrency(value, currency),
+    ratesVersion: EXCHANGE_RATES.version,
+  };
+}
+
+// Outside a provider prices render in the default currency
+const CurrencyContext = createContext<CurrencyContextValue>(
+  createCurrencyValue(DEFAULT_DISPLAY_CURRENCY, () => {})
+);
+
+/**
+ * Read the persisted choice (null on the server or when storage is unavailable)
+ */
+function readStoredCurrency(): CurrencyCode | null {
+  try {
+    const stored = window.localStorage.getItem(CURRENCY_STORAGE_KEY);
+    return isSupportedCurrency(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Props for CurrencyProvider component
+ */
+export interface CurrencyProviderProps {
+  /** Subtree that displays prices */
+  children: React.ReactNode;
+}
+
+/**
+ * CurrencyProvider component for the shopper's display currency
+ *
+ * Features:
+ * - Display currency shared by every price in the subtree
+ * - Choice persisted in localStorage across visits
+ * - Synced between open tabs through the storage event
+ * - Server render and first paint use the default currency (no hydration mismatch)
+ *
+ * @example
+ * ```tsx
+ * <CurrencyProvider>{children}</CurrencyProvider>
+ *
+ * const { format } = useCurrency();
+ * format(item.finalPrice); // "$33.88" when USD is selected
+ * ```
+ */
+export default function CurrencyProvider({ children }: CurrencyProviderProps) {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(DEFAULT_DISPLAY_CURRENCY);
+
+  // Restore the persisted choice after mount and follow other tabs
+  useEffect(() => {
+    const stored = readStoredCurrency();
+    if (stored) {
+      setCurrencyState(stored);
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CURRENCY_STORAGE_KEY && isSupportedCurrency(event.newValue)) {
+        setCurrencyState(event.newValue);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const setCurrency = useCallback((next: CurrencyCode) => {
+    if (!isSupportedCurrency(next)) return;
+
+    setCurrencyState(next);
+    try {
+      window.localStorage.setItem(CURRENCY_STORAGE_KEY, next);
+    } catch {
+      // Private mode or full storage: the choice lasts for this visit only
+    }
+  }, []);
+
+  const value = useMemo(() => createCurrencyValue(currency, setCurrency), [currency, setCurrency]);
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+/**
+ * Display currency, converter and formatter from the nearest CurrencyProvider
+ */
+export function useCurrency(): CurrencyContextValue {
+  return useContext(CurrencyContext);
+}
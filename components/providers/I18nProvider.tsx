@@ -0,0 +1,55 @@
+"use client";
+
+import React, { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/config';
+import { getTranslator, type Translator } from '@/lib/i18n/translator';
+
+// Outside a provider components render in the default locale
+const I18nContext = createContext<Locale>(DEFAULT_LOCALE);
+
+/**
+ * Props for I18nProvider component
+ */
+export interface I18nProviderProps {
+  /** Locale from the route ([locale] segment) */
+  locale: Locale;
+  /** Subtree that renders translated text */
+  children: React.ReactNode;
+}
+
+/**
+ * I18nProvider component for the route's locale
+ *
+ * Features:
+ * - Locale shared by every client component in the subtree
+ * - Same catalogs on the server and the client (no hydration mismatch)
+ *
+ * @example
+ * ```tsx
+ * <I18nProvider locale={locale}>{children}</I18nProvider>
+ *
+ * const t = useTranslations();
+ * t('results.count', { count: 12 }); // "12 productos"
+ * ```
+ */
+export default function I18nProvider({ locale, children }: I18nProviderProps) {
+  return (
+    <I18nContext.Provider value={locale}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
+
+/**
+ * Locale of the nearest I18nProvider
+ */
+export function useLocale(): Locale {
+  return useContext(I18nContext);
+}
+
+/**
+ * Translator for the nearest I18nProvider's locale
+ */
+export function useTranslations(): Translator {
+  return getTranslator(useLocale());
+}
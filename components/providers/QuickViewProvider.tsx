@@ -0,0 +1,86 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+
+/**
+ * Results a quick view can step through
+ */
+export interface QuickViewResults {
+  /** Product ids in display order */
+  ids: number[];
+  /** Query the results came from ("" for plain listings) */
+  query: string;
+}
+
+/**
+ * Value exposed by the quick view context
+ */
+export interface QuickViewContextValue {
+  /** Results grid currently on screen */
+  results: QuickViewResults;
+  /** Publish the grid's results (called by ResultList) */
+  setResults: (results: QuickViewResults) => void;
+  /** Forget the results once their grid leaves the screen */
+  clearResults: () => void;
+}
+
+const EMPTY_RESULTS: QuickViewResults = { ids: [], query: '' };
+
+// Outside a provider there is nothing to step through
+const QuickViewContext = createContext<QuickViewContextValue>({
+  results: EMPTY_RESULTS,
+  setResults: () => {},
+  clearResults: () => {},
+});
+
+/**
+ * Props for QuickViewProvider component
+ */
+export interface QuickViewProviderProps {
+  /** Subtree with results grids and quick views */
+  children: React.ReactNode;
+}
+
+/**
+ * QuickViewProvider component linking the results grid and the quick view
+ *
+ * The quick view is a separate (intercepted) route, so it cannot read the
+ * grid's props; the grid publishes its order here for arrow-key stepping
+ * and clears it on unmount, so quick views opened elsewhere (related
+ * products, wishlist) do not step through an old search.
+ *
+ * @example
+ * ```tsx
+ * <QuickViewProvider>{children}</QuickViewProvider>
+ *
+ * const { results } = useQuickView();
+ * const next = results.ids[results.ids.indexOf(item.id) + 1];
+ * ```
+ */
+export default function QuickViewProvider({ children }: QuickViewProviderProps) {
+  const [results, setResultsState] = useState<QuickViewResults>(EMPTY_RESULTS);
+
+  // Skip updates with the same ids and query so re-renders do not cascade
+  const setResults = useCallback((next: QuickViewResults) => {
+    setResultsState(current =>
+      current.query === next.query && current.ids.join(',') === next.ids.join(',') ? current : next
+    );
+  }, []);
+
+  const clearResults = useCallback(() => setResults(EMPTY_RESULTS), [setResults]);
+
+  const value = useMemo(() => ({ results, setResults, clearResults }), [results, setResults, clearResults]);
+
+  return (
+    <QuickViewContext.Provider value={value}>
+      {children}
+    </QuickViewContext.Provider>
+  );
+}
+
+/**
+ * Quick view results from the nearest QuickViewProvider
+ */
+export function useQuickView(): QuickViewContextValue {
+  return useContext(QuickViewContext);
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useMemo } from 'react';
+import type { ProductItem } from '@/lib/types';
+import { useStoredState, type StoredStateCodec } from '@/lib/useStoredState';
+import {
+  isInWishlist,
+  parseStoredWishlist,
+  removeFromWishlist,
+  serializeWishlist,
+  toggleWishlist,
+  WISHLIST_STORAGE_KEY,
+  type WishlistEntry,
+} from '@/lib/wishlist';
+
+/**
+ * Value exposed by the wishlist context
+ */
+export interface WishlistContextValue {
+  /** Saved products, most recent first */
+  entries: WishlistEntry[];
+  /** Whether a product is saved */
+  isSaved: (productId: number) => boolean;
+  /** Save a product at its displayed price, or unsave it */
+  toggle: (item: ProductItem) => void;
+  /** Unsave a product */
+  remove: (productId: number) => void;
+}
+
+// Outside a provider the wishlist is empty and read-only
+const WishlistContext = createContext<WishlistContextValue>({
+  entries: [],
+  isSaved: () => false,
+  toggle: () => {},
+  remove: () => {},
+});
+
+// Server render and first paint show an empty wishlist
+const WISHLIST_CODEC: StoredStateCodec<WishlistEntry[]> = {
+  initial: [],
+  parse: parseStoredWishlist,
+  serialize: serializeWishlist,
+};
+
+/**
+ * Props for WishlistProvider component
+ */
+export interface WishlistProviderProps {
+  /** Subtree that reads or changes the wishlist */
+  children: React.ReactNode;
+}
+
+/**
+ * WishlistProvider component for saved products
+ *
+ * Features:
+ * - Save and unsave from any product card
+ * - Entries keep the price shown when they were saved
+ * - Persisted in localStorage across visits
+ * - Synced between open tabs through the storage event
+ *
+ * @example
+ * ```tsx
+ * <WishlistProvider>{children}</WishlistProvider>
+ *
+ * const { isSaved, toggle } = useWishlist();
+ * toggle(item);
+ * ```
+ */
+export default function WishlistProvider({ children }: WishlistProviderProps) {
+  const [entries, setEntries] = useStoredState<WishlistEntry[]>(WISHLIST_STORAGE_KEY, WISHLIST_CODEC);
+
+  const toggle = useCallback((item: ProductItem) => {
+    setEntries(current => toggleWishlist(current, item));
+  }, [setEntries]);
+
+  const remove = useCallback((productId: number) => {
+    setEntries(current => removeFromWishlist(current, productId));
+  }, [setEntries]);
+
+  const value = useMemo<WishlistContextValue>(() => ({
+    entries,
+    isSaved: (productId) => isInWishlist(entries, productId),
+    toggle,
+    remove,
+  }), [entries, toggle, remove]);
+
+  return (
+    <WishlistContext.Provider value={value}>
+      {children}
+    </WishlistContext.Provider>
+  );
+}
+
+/**
+ * Wishlist state and actions from the nearest WishlistProvider
+ */
+export function useWishlist(): WishlistContextValue {
+  return useContext(WishlistContext);
+}
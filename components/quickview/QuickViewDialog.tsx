@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useCallback, useEffect } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ProductItem } from '@/lib/types';
+import { getProductHref } from '@/lib/routes';
+import { useFocusTrap } from '@/lib/useFocusTrap';
+import PriceBlock from '@/components/feedback/PriceBlock';
+import DiscountBadge from '@/components/feedback/DiscountBadge';
+import ProductActions from '@/components/product/ProductActions';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
+import { useQuickView } from '@/components/providers/QuickViewProvider';
+
+/**
+ * Props for QuickViewDialog component
+ */
+export interface QuickViewDialogProps {
+  /** Product as priced for this visit */
+  item: ProductItem;
+  /** Query whose discount carried over ("" for none) */
+  query: string;
+}
+
+/**
+ * QuickViewDialog component for products opened from the results grid
+ *
+ * Rendered by the intercepted /[locale]/products/[id] route, so the URL
+ * is shareable: a reload or a shared link opens the full product page.
+ *
+ * Features:
+ * - Image, full (untruncated) description, price block and cart/wishlist actions
+ * - Focus trapped in the dialog and returned to the card on close
+ * - Escape, the overlay or the close button go back to the results
+ * - ArrowLeft/ArrowRight (and the arrow buttons) step through the results
+ *
+ * @example
+ * ```tsx
+ * <QuickViewDialog item={item} query="abba" />
+ * ```
+ */
+export default function QuickViewDialog({ item, query }: QuickViewDialogProps) {
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations();
+  const { results } = useQuickView();
+  const dialogRef = useFocusTrap<HTMLDivElement>(true);
+
+  const index = results.ids.indexOf(item.id);
+  const previousId = index > 0 ? results.ids[index - 1] : undefined;
+  const nextId = index >= 0 && index < results.ids.length - 1 ? results.ids[index + 1] : undefined;
+
+  const close = useCallback(() => router.back(), [router]);
+
+  // Stepping replaces the entry, so closing still returns straight to the results
+  const step = useCallback((id: number | undefined) => {
+    if (id === undefined) return;
+    router.replace(getProductHref(id, results.query, locale), { scroll: false });
+  }, [router, results.query, locale]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        close();
+      } else if (event.key === 'ArrowLeft') {
+        event.preventDefault();
+        step(previousId);
+      } else if (event.key === 'ArrowRight') {
+        event.preventDefault();
+        step(nextId);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [close, step, previousId, nextId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Overlay */}
+      <div
+        className="absolute inset-0 bg-black/50 animate-in fade-in-0"
+        onClick={close}
+        aria-hidden="true"
+      />
+
+      {/* Dialog */}
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quick-view-title"
+        className={cn(
+          'relative grid max-h-[90vh] w-full max-w-4xl gap-6 overflow-y-auto rounded-xl',
+          'bg-background p-6 shadow-xl md:grid-cols-2',
+          'animate-in fade-in-0 zoom-in-95 duration-200'
+        )}
+        data-testid="quick-view"
+      >
+        {/* Image */}
+        <div className="relative aspect-[4/3] w-full overflow-hidden rounded-lg bg-muted">
+          {item.imageUrl && (
+            <Image
+              src={item.imageUrl}
+              alt={item.title}
+              fill
+              className="object-cover"
+              sizes="(max-width: 768px) 100vw, 448px"
+            />
+          )}
+          {!!item.discountPercentage && (
+            <DiscountBadge
+              discountPercentage={item.discountPercentage}
+              explanation={item.discountExplanation}
+              endsAt={item.discountEndsAt}
+              position="top-left"
+            />
+          )}
+        </div>
+
+        {/* Details */}
+        <div className="flex flex-col gap-4">
+          <header className="space-y-1 pr-8">
+            <p className="text-sm font-medium text-muted-foreground">{item.brand}</p>
+            <h2 id="quick-view-title" className="text-xl font-semibold text-foreground">{item.title}</h2>
+          </header>
+
+          <PriceBlock
+            finalPrice={item.finalPrice}
+            originalPrice={item.originalPrice}
+            showSavings={!!item.discountPercentage}
+            size="lg"
+            align="left"
+          />
+
+          <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-line" data-testid="quick-view-description">
+            {item.description}
+          </p>
+
+          <ProductActions item={item} query={query} openCartOnAdd={false} className="mt-auto" />
+
+          <footer className="flex items-center justify-between gap-2 text-sm">
+            {/* Plain link: a full load shows the page instead of intercepting into this dialog again */}
+            <a href={getProductHref(item.id, query, locale)} className="text-primary hover:underline" data-testid="quick-view-full-page">
+              {t('quickView.fullPage')}
+            </a>
+
+            {index >= 0 && (
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => step(previousId)}
+                  disabled={previousId === undefined}
+                  aria-label={t('quickView.previous')}
+                  data-testid="quick-view-previous"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-muted-foreground tabular-nums" data-testid="quick-view-position">
+                  {t('quickView.position', { current: index + 1, total: results.ids.length })}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => step(nextId)}
+                  disabled={nextId === undefined}
+                  aria-label={t('quickView.next')}
+                  data-testid="quick-view-next"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </footer>
+        </div>
+
+        <button
+          type="button"
+          className="absolute top-3 right-3 p-2 rounded-md hover:bg-muted/50 transition-colors duration-200 text-muted-foreground hover:text-foreground cursor-pointer"
+          onClick={close}
+          aria-label={t('quickView.close')}
+          data-testid="quick-view-close"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 import React from 'react';
 import Image from 'next/image';
+import { Heart, ShoppingCart } from 'lucide-react';
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import type { ProductItem } from "@/lib/types";
 import PriceBlock from '@/components/feedback/PriceBlock';
 import DiscountBadge from '@/components/feedback/DiscountBadge';
+import { useTranslations } from '@/components/providers/I18nProvider';
+import { useCart } from '@/components/providers/CartProvider';
+import { useWishlist } from '@/components/providers/WishlistProvider';
 
 /**
  * Props for ProductCard component
@@ -14,6 +19,8 @@ export interface ProductCardProps {
   item: ProductItem;
   /** Whether this product has palindrome discount */
   isPalindrome: boolean;
+  /** Search query that produced this card (recorded on cart lines) */
+  query?: string;
   /** Card size variant */
   size?: 'sm' | 'md' | 'lg';
   /** Custom CSS classes */
@@ -30,6 +37,8 @@ export interface ProductCardProps {
  * - Responsive design with hover states
  * - Integrated discount badges and price display
  * - Support for palindrome-based discounts
+ * - Add-to-cart action locking in the displayed price
+ * - Wishlist heart toggle
  * - Keyboard navigation support
  * 
  * @example
@@ -37,6 +46,7 @@ export interface ProductCardProps {
  * <ProductCard 
  *   item={product} 
  *   isPalindrome={true}
+ *   query="abba"
  *   onClick={handleProductClick}
  * />
  * ```
@@ -44,6 +54,7 @@ export interface ProductCardProps {
 export default function ProductCard({ 
   item, 
   isPalindrome, 
+  query = '',
   size = 'md',
   className,
   onClick 
@@ -63,10 +74,26 @@ export default function ProductCard({
     lg: 'text-xl font-semibold'
   };
 
+  const t = useTranslations();
+  const { addItem } = useCart();
+  const { isSaved, toggle } = useWishlist();
+  const saved = isSaved(item.id);
+
   const handleClick = () => {
     onClick?.(item);
   };
 
+  // The card itself may be a button: keep the add action from selecting the product
+  const handleAddToCart = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    addItem(item, query);
+  };
+
+  const handleToggleWishlist = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    toggle(item);
+  };
+
   const handleKeyDown = (event: React.KeyboardEvent) => {
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault();
@@ -88,18 +115,37 @@ export default function ProductCard({
       onKeyDown={onClick ? handleKeyDown : undefined}
       tabIndex={onClick ? 0 : undefined}
       role={onClick ? 'button' : undefined}
-      aria-label={onClick ? `Ver detalles de ${item.title}` : undefined}
+      aria-label={onClick ? t('product.viewDetails', { title: item.title }) : undefined}
       data-testid="product-card"
     >
       {/* Discount Badge */}
-      {isPalindrome && (
+      {!!item.discountPercentage && (
         <DiscountBadge 
-          discountPercentage={item.discountPercentage || 50}
+          discountPercentage={item.discountPercentage}
+          explanation={item.discountExplanation}
+          endsAt={item.discountEndsAt}
           position="top-right"
           size={size}
         />
       )}
 
+      {/* Wishlist Toggle */}
+      <button
+        type="button"
+        className={cn(
+          'absolute top-2 left-2 z-10 p-1.5 rounded-full bg-background/80 backdrop-blur-sm',
+          'transition-colors duration-200 cursor-pointer',
+          saved ? 'text-red-500' : 'text-muted-foreground hover:text-red-500'
+        )}
+        onClick={handleToggleWishlist}
+        onKeyDown={(event) => event.stopPropagation()}
+        aria-pressed={saved}
+        aria-label={t(saved ? 'wishlist.unsave' : 'wishlist.save', { title: item.title })}
+        data-testid="wishlist-toggle"
+      >
+        <Heart className={cn('h-4 w-4', saved && 'fill-current')} />
+      </button>
+
       <CardContent className={cn('space-y-4', sizeVariants[size])}>
         {/* Product Image */}
         {item.imageUrl && (
@@ -159,6 +205,20 @@ export default function ProductCard({
             align="left"
           />
         </div>
+
+        {/* Add to Cart */}
+        <Button
+          type="button"
+          size={size === 'sm' ? 'sm' : 'default'}
+          className="w-full"
+          onClick={handleAddToCart}
+          onKeyDown={(event) => event.stopPropagation()}
+          aria-label={t('cart.addItem', { title: item.title })}
+          data-testid="add-to-cart"
+        >
+          <ShoppingCart className="h-4 w-4" />
+          {t('cart.add')}
+        </Button>
       </CardContent>
 
       {/* Hover Overlay Effect */}
@@ -175,14 +235,16 @@ export default function ProductCard({
 export function CompactProductCard({
   item,
   isPalindrome,
+  query,
   className,
   onClick
-}: Pick<ProductCardProps, 'item' | 'isPalindrome' | 'className' | 'onClick'>) {
+}: Pick<ProductCardProps, 'item' | 'isPalindrome' | 'query' | 'className' | 'onClick'>) {
   
   return (
     <ProductCard
       item={item}
       isPalindrome={isPalindrome}
+      query={query}
       size="sm"
       className={cn('min-h-[200px]', className)}
       onClick={onClick}
@@ -196,14 +258,16 @@ export function CompactProductCard({
 export function FeaturedProductCard({
   item,
   isPalindrome,
+  query,
   className,
   onClick
-}: Pick<ProductCardProps, 'item' | 'isPalindrome' | 'className' | 'onClick'>) {
+}: Pick<ProductCardProps, 'item' | 'isPalindrome' | 'query' | 'className' | 'onClick'>) {
   
   return (
     <ProductCard
       item={item}
       isPalindrome={isPalindrome}
+      query={query}
       size="lg"
       className={cn('min-h-[320px]', className)}
       onClick={onClick}
@@ -1,5 +1,5 @@
 "use client";
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { cn } from '@/lib/utils';
 import type { ProductItem, SearchResponse } from '@/lib/types';
 import ProductCard, { CompactProductCard, FeaturedProductCard } from './ProductCard';
@@ -7,6 +7,39 @@ import LoadingSkeleton from '@/components/feedback/LoadingSkeleton';
 import EmptyState from '@/components/feedback/EmptyState';
 import ErrorState from '@/components/feedback/ErrorState';
 import { useConfetti } from '@/lib/useConfetti';
+import { summarizeDiscounts } from '@/lib/discounts/engine';
+import { applyFacetFilters, countActiveFilters, deriveFacets, EMPTY_FACET_FILTERS, type FacetFilters } from '@/lib/facets';
+import FacetPanel from '@/components/facets/FacetPanel';
+import FacetSheet from '@/components/facets/FacetSheet';
+import ActiveFilterChips from '@/components/facets/ActiveFilterChips';
+import { DEFAULT_SORT, getSortKeys, sortItems, type SortKey } from '@/lib/sorting';
+import SortSelect from './SortSelect';
+import { useLoadMore, type LoadMoreMode } from '@/lib/useLoadMore';
+import { useInfiniteScroll } from '@/lib/useInfiniteScroll';
+import { usePagination } from '@/lib/usePagination';
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '@/lib/paging';
+import Pagination from '@/components/ui/pagination';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
+import { useQuickView } from '@/components/providers/QuickViewProvider';
+
+/**
+ * Paginated results mode: page numbers instead of "load more"
+ */
+export interface ResultPagination {
+  /** Current page, 1-based */
+  page: number;
+  /** Products per page */
+  pageSize: number;
+  /**
+   * Where the page comes from
+   * - offset: `data` is already this page, fetched with limit/offset (catalog listing);
+   *   filters and sort would only see this page, so leave them unset
+   * - slice: `data` holds every result and the page is cut on the client (searches)
+   */
+  mode: 'offset' | 'slice';
+  /** Callback with the new page and page size; `clamped` when the page no longer existed */
+  onChange: (page: number, pageSize: number, clamped: boolean) => void;
+}
 
 /**
  * Props for ResultList component
@@ -18,6 +51,8 @@ export interface ResultListProps {
   status: "idle" | "loading" | "success" | "error";
   /** Error message */
   error?: string;
+  /** Whether `data` belongs to a previous query while a new one loads */
+  isStale?: boolean;
   /** Number of skeleton items to show during loading */
   loadingCount?: number;
   /** Grid layout variant */
@@ -34,6 +69,18 @@ export interface ResultListProps {
   onProductClick?: (product: ProductItem) => void;
   /** Callback when user clicks on a suggestion */
   onSuggestionClick?: (suggestion: string) => void;
+  /** Active facet filters (default: none) */
+  filters?: FacetFilters;
+  /** Callback when user changes the filters; facets are only shown when set */
+  onFiltersChange?: (filters: FacetFilters) => void;
+  /** Result order (default: relevance, the backend's order) */
+  sort?: SortKey;
+  /** Callback when user picks an order; the sort selector is only shown when set */
+  onSortChange?: (sort: SortKey) => void;
+  /** How further catalog pages load: button (default) or infinite scroll */
+  loadMoreMode?: LoadMoreMode;
+  /** Page numbers and a page size selector instead of "load more" */
+  pagination?: ResultPagination;
 }
 
 /**
@@ -41,7 +88,12 @@ export interface ResultListProps {
  * 
  * Features:
  * - Manages loading, error, and empty states
+ * - Keeps previous results dimmed while a new search loads (skeleton only on first load)
  * - Responsive grid layout with multiple variants
+ * - Facet filters (brand, price, discount) as a sidebar or mobile sheet, with removable chips
+ * - Sort selector (price, discount, title, newest); the featured card follows the order
+ * - "Load more" button or infinite scroll for the catalog listing
+ * - Or page numbers with a page size selector; focus returns to the heading on page change
  * - Accessibility compliance with proper landmarks
  * - Keyboard navigation support
  * - Integration with all feedback components
@@ -61,6 +113,7 @@ export default function ResultList({
   data,
   status,
   error,
+  isStale,
   loadingCount = 12,
   layout = 'grid',
   columns = 3,
@@ -68,8 +121,16 @@ export default function ResultList({
   onRetry,
   onClearSearch,
   onProductClick,
-  onSuggestionClick
+  onSuggestionClick,
+  filters = EMPTY_FACET_FILTERS,
+  onFiltersChange,
+  sort = DEFAULT_SORT,
+  onSortChange,
+  loadMoreMode = 'button',
+  pagination
 }: ResultListProps) {
+  const t = useTranslations();
+  const locale = useLocale();
 
   // Initialize confetti hook
   const { triggerPalindromeConfetti, prefersReducedMotion } = useConfetti();
@@ -94,6 +155,80 @@ export default function ResultList({
     }
   }, [data?.isPalindrome, status, data?.items, triggerPalindromeConfetti, prefersReducedMotion]);
 
+  // Further catalog pages, appended below the ones already shown (unless paginated)
+  const isPaginated = !!pagination;
+  const { items: loadedItems, hasMore, isLoadingMore, error: loadMoreError, loadMore } = useLoadMore(data, locale);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(
+    loadMore,
+    loadMoreMode === 'infinite' && !isPaginated && hasMore && !isLoadingMore && !loadMoreError
+  );
+
+  // Orders these products support; an unsupported one (newest on search results) falls back to relevance
+  const sortKeys = useMemo(() => getSortKeys(loadedItems), [loadedItems]);
+  const activeSort = sortKeys.includes(sort) ? sort : DEFAULT_SORT;
+
+  // Products left by the active filters, in the chosen order
+  const shownItems = useMemo(
+    () => sortItems(applyFacetFilters(loadedItems, filters), activeSort, locale),
+    [loadedItems, filters, activeSort, locale]
+  );
+
+  // Stable between renders so the price sliders are not reset by unrelated updates
+  const facets = useMemo(() => deriveFacets(loadedItems, filters), [loadedItems, filters]);
+
+  // Page numbers: an offset page is the whole response, a sliced one is cut from the results
+  const isOffsetPage = pagination?.mode === 'offset';
+  const pageTotal = isOffsetPage ? (data?.totalItems ?? 0) : shownItems.length;
+  const pager = usePagination(pagination?.pageSize ?? DEFAULT_PAGE_SIZE, pageTotal, {
+    page: pagination?.page,
+    itemsPerPage: pagination?.pageSize,
+    onChange: pagination && ((next, clamped) => pagination.onChange(next.page, next.itemsPerPage, clamped)),
+  });
+  const { setTotalItems } = pager;
+
+  // A new search or narrower filters may leave fewer pages than the current one
+  useEffect(() => {
+    if (isPaginated && status === 'success') {
+      setTotalItems(pageTotal);
+    }
+  }, [isPaginated, status, pageTotal, setTotalItems]);
+
+  const visibleItems = useMemo(
+    () => (isPaginated && !isOffsetPage ? shownItems.slice(pager.startIndex, pager.endIndex) : shownItems),
+    [isPaginated, isOffsetPage, shownItems, pager.startIndex, pager.endIndex]
+  );
+
+  // Page changes scroll back to the results heading and move focus there
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const pageChangedRef = useRef(false);
+  useEffect(() => {
+    if (!pageChangedRef.current) return;
+    pageChangedRef.current = false;
+    headingRef.current?.focus({ preventScroll: true });
+    headingRef.current?.scrollIntoView({ behavior: prefersReducedMotion ? 'auto' : 'smooth', block: 'start' });
+  }, [pager.currentPage, pager.itemsPerPage, prefersReducedMotion]);
+
+  const changePage = (page: number) => {
+    pageChangedRef.current = true;
+    pager.goToPage(page);
+  };
+
+  const changePageSize = (pageSize: number) => {
+    pageChangedRef.current = true;
+    pager.setItemsPerPage(pageSize);
+  };
+
+  // Let the quick view step through the products in the order shown
+  const { setResults, clearResults } = useQuickView();
+  useEffect(() => {
+    if (data) {
+      setResults({ ids: visibleItems.map(item => item.id), query: data.query });
+    }
+  }, [data, visibleItems, setResults]);
+
+  // Nothing to step through once this grid is gone
+  useEffect(() => clearResults, [clearResults]);
+
   // Grid layout classes
   const gridClasses = {
     1: 'grid-cols-1',
@@ -121,23 +256,43 @@ export default function ResultList({
     return (
       <div className={cn('text-center py-8', className)} data-testid="result-list-idle">
         <p className="text-sm text-muted-foreground">
-          Empieza a escribir para buscar productos de tenis.
+          {t('results.idle')}
         </p>
       </div>
     );
   }
 
-  // Loading State
-  if (status === "loading") {
+  // Previous results stay on screen while a new search is in flight
+  const stale = isStale ?? (status === "loading" && !!data);
+
+  // Subtle progress indicator shown over stale results
+  const staleIndicator = stale && (
+    <div
+      className="h-0.5 w-full overflow-hidden rounded-full bg-muted"
+      role="progressbar"
+      aria-label={t('results.updating')}
+      data-testid="result-list-stale-indicator"
+    >
+      <div className="h-full w-1/3 bg-primary animate-pulse" />
+    </div>
+  );
+
+  const staleClasses = cn(
+    'transition-opacity duration-200',
+    stale && 'opacity-60'
+  );
+
+  // Loading State (first load only)
+  if (status === "loading" && !stale) {
     return (
       <section 
         className={cn('space-y-4', className)}
-        aria-label="Cargando resultados de búsqueda"
+        aria-label={t('results.loadingLabel')}
         data-testid="result-list-loading"
       >
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-medium text-muted-foreground">
-            Buscando productos...
+            {t('results.loading')}
           </h2>
         </div>
         <LoadingSkeleton 
@@ -152,11 +307,11 @@ export default function ResultList({
     return (
       <section 
         className={cn('space-y-4', className)}
-        aria-label="Error en la búsqueda"
+        aria-label={t('results.errorLabel')}
         data-testid="result-list-error"
       >
         <ErrorState
-          error={error || "Error inesperado"}
+          error={error || t('results.unexpectedError')}
           onRetry={onRetry}
           onClear={onClearSearch}
           errorType="network"
@@ -175,10 +330,12 @@ export default function ResultList({
     return (
       <section 
         className={cn('space-y-4', className)}
-        aria-label="Sin resultados de búsqueda"
+        aria-label={t('results.emptyLabel')}
+        aria-busy={stale}
         data-testid="result-list-empty"
       >
-        <EmptyState onSuggestedSearch={onSuggestionClick} />
+        {staleIndicator}
+        <EmptyState onSuggestedSearch={onSuggestionClick} className={staleClasses} />
       </section>
     );
   }
@@ -186,20 +343,31 @@ export default function ResultList({
   // Success State with Results
   const { items, totalItems, isPalindrome, query } = data;
 
+  // Banner copy reflects the discounts actually computed for these items
+  const discounts = summarizeDiscounts(items);
+
+  const isFiltered = countActiveFilters(filters) > 0;
+
   return (
     <section 
       className={cn('space-y-6', className)}
-      aria-label={`Resultados de búsqueda para "${query}"`}
+      aria-label={t('results.resultsLabel', { query })}
+      aria-busy={stale}
       data-testid="result-list-success"
+      data-stale={stale || undefined}
     >
+      {staleIndicator}
+
       {/* Results Header */}
-      <header className="space-y-2">
+      <header className={cn('space-y-2', staleClasses)}>
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold text-foreground">
-            Resultados para &quot;{query}&quot;
+          <h2 ref={headingRef} tabIndex={-1} className="text-xl font-semibold text-foreground scroll-mt-24 focus:outline-none" data-testid="result-heading">
+            {t('results.heading', { query })}
           </h2>
-          <span className="text-sm text-muted-foreground">
-            {totalItems} {totalItems === 1 ? 'producto' : 'productos'}
+          <span className="text-sm text-muted-foreground" data-testid="result-count">
+            {isFiltered
+              ? t('results.filteredCount', { count: shownItems.length, total: totalItems })
+              : t('results.count', { count: totalItems })}
           </span>
         </div>
         
@@ -212,10 +380,14 @@ export default function ResultList({
               </div>
               <div>
                 <p className="font-medium text-green-800 dark:text-green-200">
-                  ¡Búsqueda palíndromo detectada!
+                  {t('results.palindromeDetected')}
                 </p>
-                <p className="text-sm text-green-700 dark:text-green-300">
-                  Todos los productos tienen 50% de descuento.
+                <p className="text-sm text-green-700 dark:text-green-300" data-testid="palindrome-banner-discount">
+                  {discounts.uniform
+                    ? t('results.allDiscounted', { percent: discounts.maxPercentage })
+                    : discounts.discountedCount > 0
+                      ? t('results.someDiscounted', { count: discounts.discountedCount, percent: discounts.maxPercentage })
+                      : t('results.noneDiscounted')}
                 </p>
               </div>
             </div>
@@ -223,70 +395,132 @@ export default function ResultList({
         )}
       </header>
 
-      {/* Results Grid */}
-      <div 
-        className={layoutClasses[layout]}
-        role="grid"
-        aria-label={`${totalItems} productos encontrados`}
-      >
-        {items.map((item, index) => {
-          // Render different card variants based on layout
-          if (layout === 'compact') {
-            return (
-              <CompactProductCard
-                key={item.id}
-                item={item}
-                isPalindrome={isPalindrome}
-                onClick={onProductClick}
-              />
-            );
-          }
-
-          // Featured card for first item in grid layout
-          if (layout === 'grid' && index === 0 && items.length > 1) {
-            return (
-              <div key={item.id} className="sm:col-span-2 lg:col-span-1">
-                <FeaturedProductCard
-                  item={item}
-                  isPalindrome={isPalindrome}
-                  onClick={onProductClick}
-                />
+      {/* Filters + Results */}
+      <div className={cn(onFiltersChange && 'lg:grid lg:grid-cols-[14rem_1fr] lg:gap-8')}>
+        {onFiltersChange && (
+          <aside className="hidden lg:block" aria-label={t('facets.title')}>
+            <FacetPanel facets={facets} filters={filters} onChange={onFiltersChange} />
+          </aside>
+        )}
+
+        <div className="min-w-0 space-y-6">
+          {(onFiltersChange || onSortChange) && (
+            <div className="flex flex-wrap items-center gap-2">
+              {onFiltersChange && (
+                <>
+                  <FacetSheet
+                    facets={facets}
+                    filters={filters}
+                    onChange={onFiltersChange}
+                    resultCount={shownItems.length}
+                    className="lg:hidden"
+                  />
+                  <ActiveFilterChips filters={filters} onChange={onFiltersChange} />
+                </>
+              )}
+              {onSortChange && (
+                <SortSelect value={activeSort} onChange={onSortChange} options={sortKeys} className="ml-auto" />
+              )}
+            </div>
+          )}
+
+          {shownItems.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground" data-testid="result-list-no-filter-matches">
+              {t('results.noFilterMatches')}
+            </p>
+          ) : (
+            <>
+              {/* Results Grid */}
+              <div 
+                className={cn(layoutClasses[layout], staleClasses)}
+                role="grid"
+                aria-label={t('results.found', { count: isFiltered ? shownItems.length : totalItems })}
+              >
+                {visibleItems.map((item, index) => {
+                  // Render different card variants based on layout
+                  if (layout === 'compact') {
+                    return (
+                      <CompactProductCard
+                        key={item.id}
+                        item={item}
+                        isPalindrome={isPalindrome}
+                        query={query}
+                        onClick={onProductClick}
+                      />
+                    );
+                  }
+
+                  // Featured card for first item in grid layout
+                  if (layout === 'grid' && index === 0 && visibleItems.length > 1) {
+                    return (
+                      <div key={item.id} className="sm:col-span-2 lg:col-span-1">
+                        <FeaturedProductCard
+                          item={item}
+                          isPalindrome={isPalindrome}
+                          query={query}
+                          onClick={onProductClick}
+                        />
+                      </div>
+                    );
+                  }
+
+                  return (
+                    <ProductCard
+                      key={item.id}
+                      item={item}
+                      isPalindrome={isPalindrome}
+                      query={query}
+                      onClick={onProductClick}
+                    />
+                  );
+                })}
               </div>
-            );
-          }
-
-          return (
-            <ProductCard
-              key={item.id}
-              item={item}
-              isPalindrome={isPalindrome}
-              onClick={onProductClick}
-            />
-          );
-        })}
-      </div>
 
-      {/* Results Footer */}
-      <footer className="text-center">
-        <p className="text-sm text-muted-foreground">
-          Mostrando {items.length} de {totalItems} productos
-        </p>
-        
-        {/* Load More Button - for future implementation */}
-        {items.length < totalItems && (
-          <div className="mt-4">
-            <button 
-              className="text-sm text-primary hover:text-primary/80 font-medium"
-              onClick={() => {
-                // Future: implement load more functionality
-                console.log('Load more products');
-              }}
-            >
-              Cargar más productos
-            </button>
-          </div>
-        )}
-      </footer>
+              {pagination ? (
+                <Pagination
+                  currentPage={pager.currentPage}
+                  totalPages={pager.totalPages}
+                  itemsPerPage={pager.itemsPerPage}
+                  totalItems={pager.totalItems}
+                  onPageChange={changePage}
+                  pageSizeOptions={PAGE_SIZE_OPTIONS}
+                  onItemsPerPageChange={changePageSize}
+                />
+              ) : (
+                /* Results Footer */
+                <footer className="text-center">
+                  <p className="text-sm text-muted-foreground">
+                    {t('results.showing', { shown: shownItems.length, total: totalItems })}
+                  </p>
+          
+                  {/* Load More (the button stays as a fallback in infinite mode) */}
+                  {hasMore && (
+                    <div className="mt-4 space-y-2">
+                      {loadMoreMode === 'infinite' && (
+                        <div ref={sentinelRef} aria-hidden="true" data-testid="load-more-sentinel" />
+                      )}
+                      <button 
+                        type="button"
+                        className="text-sm text-primary hover:text-primary/80 font-medium disabled:opacity-50 cursor-pointer"
+                        onClick={loadMore}
+                        disabled={isLoadingMore}
+                        data-testid="load-more"
+                      >
+                        {isLoadingMore ? t('results.loadingMore') : t('results.loadMore')}
+                      </button>
+                      {loadMoreError && (
+                        <p className="text-sm text-destructive" role="alert" data-testid="load-more-error">
+                          {loadMoreError}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </footer>
+              )}
+            </>
+          )}
+        </div>
+      </div>
     </section>
   );
 }
@@ -0,0 +1,64 @@
+"use client";
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import ResultList, { type ResultListProps, type ResultPagination } from './ResultList';
+import { getProductHref, getSearchHref } from '@/lib/routes';
+import { useFacetFilters } from '@/lib/useFacetFilters';
+import { useResultSort } from '@/lib/useResultSort';
+import { useResultPage } from '@/lib/useResultPage';
+import { useLocale } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for RoutedResultList component
+ */
+export type RoutedResultListProps = Omit<ResultListProps, 'onRetry' | 'onSuggestionClick' | 'onClearSearch' | 'onProductClick' | 'filters' | 'onFiltersChange' | 'sort' | 'onSortChange' | 'pagination'> & {
+  /** Page numbers kept in `?page=`/`?pageSize=` instead of "load more", and how `data` is paged */
+  paginate?: ResultPagination['mode'];
+};
+
+/**
+ * ResultList for server-rendered pages
+ * 
+ * Receives serialisable results from a server component and wires the
+ * interactive callbacks to the router: suggestions navigate to
+ * /[locale]/search?q=, products to /[locale]/products/[id]?q=, retry
+ * re-renders the route on the server, filters, sort and the page live in
+ * the URL. Offset pages hold only part of the results, so they get no
+ * filters or sort (they would apply to that page alone). Must render inside a `<Suspense>` boundary (useFacetFilters,
+ * useResultSort, useResultPage).
+ * 
+ * @example
+ * ```tsx
+ * <RoutedResultList data={data} status="success" />
+ * ```
+ */
+export default function RoutedResultList({ paginate, ...props }: RoutedResultListProps) {
+  const router = useRouter();
+  const locale = useLocale();
+  const { filters, setFilters } = useFacetFilters();
+  const { sort, setSort } = useResultSort();
+  const { page, pageSize, setPage } = useResultPage();
+  const canRefine = paginate !== 'offset';
+
+  return (
+    <ResultList
+      {...props}
+      onSuggestionClick={(suggestion) => router.push(getSearchHref(suggestion, locale))}
+      onProductClick={(product) => router.push(getProductHref(product.id, props.data?.query ?? '', locale))}
+      onRetry={() => router.refresh()}
+      onClearSearch={() => router.push(getSearchHref('', locale))}
+      filters={canRefine ? filters : undefined}
+      onFiltersChange={canRefine ? setFilters : undefined}
+      sort={canRefine ? sort : undefined}
+      onSortChange={canRefine ? setSort : undefined}
+      pagination={paginate && {
+        page,
+        pageSize,
+        mode: paginate,
+        // Corrections replace the history entry so back does not return to a missing page
+        onChange: (nextPage, nextPageSize, clamped) => setPage(nextPage, nextPageSize, clamped ? 'replace' : 'push'),
+      }}
+    />
+  );
+}
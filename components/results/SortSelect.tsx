@@ -0,0 +1,63 @@
+"use client";
+
+import React from 'react';
+import { ArrowUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SORT_KEYS, type SortKey } from '@/lib/sorting';
+import type { MessageKey } from '@/lib/i18n/translator';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Catalog key of each sort option
+ */
+const SORT_LABELS: Record<SortKey, MessageKey> = {
+  relevance: 'sort.relevance',
+  'price-asc': 'sort.priceAsc',
+  'price-desc': 'sort.priceDesc',
+  discount: 'sort.discount',
+  title: 'sort.title',
+  newest: 'sort.newest',
+};
+
+/**
+ * Props for SortSelect component
+ */
+export interface SortSelectProps {
+  /** Current sort key */
+  value: SortKey;
+  /** Callback with the chosen sort key */
+  onChange: (sort: SortKey) => void;
+  /** Orders to offer (default: every sort key) */
+  options?: readonly SortKey[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * SortSelect component for ordering the results grid
+ *
+ * @example
+ * ```tsx
+ * <SortSelect value={sort} onChange={setSort} options={getSortKeys(items)} />
+ * ```
+ */
+export default function SortSelect({ value, onChange, options = SORT_KEYS, className }: SortSelectProps) {
+  const t = useTranslations();
+
+  return (
+    <label className={cn('flex items-center gap-2 text-sm text-muted-foreground', className)}>
+      <ArrowUpDown className="h-4 w-4" aria-hidden="true" />
+      <span className="sr-only sm:not-sr-only">{t('sort.label')}</span>
+      <select
+        className="h-8 rounded-md border border-input bg-background px-2 text-sm text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring cursor-pointer"
+        value={value}
+        onChange={(event) => onChange(event.target.value as SortKey)}
+        data-testid="sort-select"
+      >
+        {options.map(key => (
+          <option key={key} value={key}>{t(SORT_LABELS[key])}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
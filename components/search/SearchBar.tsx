@@ -1,8 +1,13 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { Search, X, Loader2 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { checkPalindrome } from '@/lib/palindrome';
+import { filterSearchHistory, type SearchHistoryEntry } from '@/lib/searchHistory';
+import { useSearchHistory } from '@/lib/useSearchHistory';
+import { useTranslations } from '@/components/providers/I18nProvider';
+import SearchHistoryDropdown, { getSearchHistoryOptionId } from './SearchHistoryDropdown';
 
 /**
  * Props for SearchBar component
@@ -18,7 +23,7 @@ export interface SearchBarProps {
   onSearch?: (value: string) => void;
   /** Callback to clear the search */
   onClear?: () => void;
-  /** Custom placeholder text */
+  /** Custom placeholder text (default: translated "Search tennis products...") */
   placeholder?: string;
   /** Additional CSS classes */
   className?: string;
@@ -38,6 +43,8 @@ export interface SearchBarProps {
  * - Manual search with Enter key
  * - Responsive design (mobile-first)
  * - Helper text for user guidance
+ * - Live palindrome hint using the shared palindrome engine
+ * - Recent searches dropdown on focus (arrows, Enter to search again, Delete to forget)
  * 
  * @example
  * ```tsx
@@ -58,11 +65,12 @@ export default function SearchBar({
   isLoading = false,
   onSearch,
   onClear,
-  placeholder = "Busca productos de tennis...",
+  placeholder,
   className,
   disabled = false,
   autoFocus = false,
 }: SearchBarProps) {
+  const t = useTranslations();
   
   // Ref to maintain focus on input
   const inputRef = useRef<HTMLInputElement>(null);
@@ -70,6 +78,13 @@ export default function SearchBar({
   // Track if user is actively typing to maintain focus
   const isUserTypingRef = useRef(false);
   const lastUserInteractionRef = useRef(Date.now());
+
+  // Recent searches, offered while the input has focus
+  const { entries: historyEntries, record, remove, clear } = useSearchHistory();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Focusing on mount is not a request for the history
+  const skipFocusOpenRef = useRef(autoFocus);
   
   // Auto-focus on mount
   useEffect(() => {
@@ -112,10 +127,32 @@ export default function SearchBar({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (onSearch && value.trim()) {
+      record(value.trim());
+      closeHistory();
       onSearch(value.trim());
     }
   };
 
+  /**
+   * Hide the recent searches dropdown
+   */
+  const closeHistory = () => {
+    setIsHistoryOpen(false);
+    setActiveIndex(-1);
+  };
+
+  /**
+   * Search a past query again
+   */
+  const selectHistoryEntry = (entry: SearchHistoryEntry) => {
+    onChange(entry.query);
+    closeHistory();
+    if (onSearch) {
+      record(entry.query);
+      onSearch(entry.query);
+    }
+  };
+
   /**
    * Handle input change with validation
    */
@@ -137,6 +174,10 @@ export default function SearchBar({
       eventTarget: e.target === inputRef.current
     });
     
+    // Typing narrows the recent searches to matching ones
+    setIsHistoryOpen(true);
+    setActiveIndex(-1);
+
     // Prevent extremely long queries (frontend validation)
     if (newValue.length <= 255) {
       onChange(newValue);
@@ -173,6 +214,12 @@ export default function SearchBar({
     // Mark user as actively engaging with the input
     isUserTypingRef.current = true;
     lastUserInteractionRef.current = Date.now();
+
+    if (skipFocusOpenRef.current) {
+      skipFocusOpenRef.current = false;
+    } else {
+      setIsHistoryOpen(true);
+    }
     
     console.log('🎯 [SearchBar] Input focused:', {
       activeElement: document.activeElement?.tagName,
@@ -196,6 +243,15 @@ export default function SearchBar({
     });
   };
 
+  /**
+   * Close the recent searches once focus leaves the input and its dropdown
+   */
+  const handleGroupBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget)) {
+      closeHistory();
+    }
+  };
+
   /**
    * Handle clear button click
    */
@@ -210,6 +266,39 @@ export default function SearchBar({
    * Handle key down events for accessibility
    */
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showHistory) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const last = shownHistory.length - 1;
+        if (e.key === 'ArrowDown') {
+          setActiveIndex(activeIndex >= last ? 0 : activeIndex + 1);
+        } else {
+          setActiveIndex(activeIndex <= 0 ? last : activeIndex - 1);
+        }
+        return;
+      }
+      if (e.key === 'Enter' && activeEntry) {
+        e.preventDefault();
+        selectHistoryEntry(activeEntry);
+        return;
+      }
+      if (e.key === 'Delete' && activeEntry) {
+        e.preventDefault();
+        remove(activeEntry.query);
+        setActiveIndex(Math.min(activeIndex, shownHistory.length - 2));
+        return;
+      }
+      // Escape closes the dropdown first, a second one clears the input
+      if (e.key === 'Escape') {
+        closeHistory();
+        return;
+      }
+    } else if (e.key === 'ArrowDown' && shownHistory.length > 0) {
+      e.preventDefault();
+      setIsHistoryOpen(true);
+      return;
+    }
+
     // Clear with Escape key
     if (e.key === 'Escape' && value) {
       handleClear();
@@ -219,15 +308,24 @@ export default function SearchBar({
   // Determine if we should show the clear button
   const showClearButton = value.length > 0 && !disabled;
 
+  // Recent searches matching the input
+  const shownHistory = filterSearchHistory(historyEntries, value);
+  const showHistory = isHistoryOpen && shownHistory.length > 0 && !disabled;
+  const activeEntry = showHistory ? shownHistory[activeIndex] : undefined;
+  const historyListId = 'search-history-list';
+
   // Helper text ID for accessibility
   const helperTextId = 'search-helper-text';
 
+  // Same rules the backend applies, so the hint matches the results
+  const palindrome = checkPalindrome(value);
+
   return (
     <div className={cn("w-full max-w-2xl mx-auto", className)}>
       {/* Enhanced Search Form */}
       <form
         role="search"
-        aria-label="Búsqueda de productos de tennis"
+        aria-label={t('searchBar.formLabel')}
         onSubmit={handleSubmit}
         className="relative"
       >
@@ -236,13 +334,13 @@ export default function SearchBar({
           htmlFor="search-input"
           className="block text-sm font-light text-foreground mb-3 tracking-wide"
         >
-          Buscar productos
+          {t('searchBar.label')}
         </label>
 
         {/* Enhanced Input Container - Now with separated button */}
         <div className="flex items-center gap-3">
           {/* Input Container with Icon */}
-          <div className="relative flex-1 group">
+          <div className="relative flex-1 group" onBlur={handleGroupBlur}>
             {/* Search Icon with enhanced colors */}
             <div className="absolute left-4 top-1/2 transform -translate-y-1/2 pointer-events-none z-10">
               <Search 
@@ -267,11 +365,17 @@ export default function SearchBar({
               onKeyDown={handleKeyDownDebug}
               onFocus={handleFocus}
               onBlur={handleBlur}
-              placeholder={placeholder}
+              placeholder={placeholder ?? t('searchBar.placeholder')}
               disabled={disabled || isLoading}
               autoFocus={autoFocus}
+              onClick={() => setIsHistoryOpen(true)}
               autoComplete="off"
               spellCheck="false"
+              role="combobox"
+              aria-expanded={showHistory}
+              aria-controls={showHistory ? historyListId : undefined}
+              aria-autocomplete="list"
+              aria-activedescendant={activeEntry ? getSearchHistoryOptionId(historyListId, activeIndex) : undefined}
               aria-describedby={helperTextId}
               className={cn(
                 "pl-12 pr-12 py-4 text-base",
@@ -293,7 +397,7 @@ export default function SearchBar({
                   size="sm"
                   onClick={handleClear}
                   disabled={disabled}
-                  aria-label="Limpiar búsqueda"
+                  aria-label={t('searchBar.clear')}
                   data-testid="clear-button"
                   className="p-0 hover:bg-muted hover:text-foreground transition-colors"
                 >
@@ -301,6 +405,19 @@ export default function SearchBar({
                 </Button>
               </div>
             )}
+
+            {/* Recent Searches */}
+            {showHistory && (
+              <SearchHistoryDropdown
+                id={historyListId}
+                entries={shownHistory}
+                activeIndex={activeIndex}
+                onActiveIndexChange={setActiveIndex}
+                onSelect={selectHistoryEntry}
+                onRemove={(entry) => remove(entry.query)}
+                onClear={clear}
+              />
+            )}
           </div>
 
           {/* Separated Search Button */}
@@ -310,7 +427,7 @@ export default function SearchBar({
               variant="default"
               size="default"
               disabled={disabled || isLoading || !value.trim()}
-              aria-label="Buscar ahora"
+              aria-label={t('searchBar.submitLabel')}
               data-testid="search-button"
               className={cn(
                 "h-10 px-6 text-base font-medium whitespace-nowrap",
@@ -323,12 +440,12 @@ export default function SearchBar({
               {isLoading ? (
                 <span className="flex items-center gap-2">
                   <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-                  Buscando...
+                  {t('searchBar.submitting')}
                 </span>
               ) : (
                 <span className="flex items-center gap-2">
                   <Search className="h-4 w-4" />
-                  Buscar
+                  {t('searchBar.submit')}
                 </span>
               )}
             </Button>
@@ -344,20 +461,25 @@ export default function SearchBar({
           {isLoading ? (
             <span className="flex items-center gap-2 text-primary">
               <div className="w-3 h-3 border border-current border-t-transparent rounded-full animate-spin" />
-              Buscando productos...
+              {t('searchBar.loading')}
+            </span>
+          ) : palindrome.isPalindrome ? (
+            <span className="flex items-center gap-2 text-primary" data-testid="search-palindrome-hint">
+              <div className="w-2 h-2 bg-accent rounded-full" />
+              {t('searchBar.palindromeHint', { query: palindrome.normalized })}
             </span>
           ) : value.length > 0 ? (
             <span className="flex items-center gap-2">
               <div className="w-2 h-2 bg-primary rounded-full" />
               {value.length >= 4 
-                ? "Búsqueda automática activa" 
-                : "Escribe al menos 4 caracteres para búsqueda automática"
+                ? t('searchBar.autoSearchActive')
+                : t('searchBar.autoSearchMinLength', { min: 4 })
               }
             </span>
           ) : (
             <span className="flex items-center gap-2">
               <div className="w-2 h-2 bg-accent rounded-full" />
-              Busca productos de tennis. Usa palíndromos como &quot;abba&quot; para descuentos especiales.
+              {t('searchBar.helper')}
             </span>
           )}
         </div>
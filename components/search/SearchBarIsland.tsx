@@ -0,0 +1,60 @@
+"use client";
+
+import React, { useEffect, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import SearchBar from './SearchBar';
+import { getSearchHref } from '@/lib/routes';
+import { useLocale } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for SearchBarIsland component
+ */
+export interface SearchBarIslandProps {
+  /** Query the page was rendered with */
+  initialQuery: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Interactive SearchBar for server-rendered pages
+ * 
+ * Features:
+ * - Hydrates on top of the server-rendered results
+ * - Submitting navigates to /[locale]/search?q= so the server renders the new results
+ * - Follows the URL on back/forward navigation
+ * - Shows the loading state while the next page streams in
+ * 
+ * @example
+ * ```tsx
+ * <SearchBarIsland initialQuery={query} className="mx-auto" />
+ * ```
+ */
+export default function SearchBarIsland({ initialQuery, className }: SearchBarIslandProps) {
+  const router = useRouter();
+  const locale = useLocale();
+  const [value, setValue] = useState(initialQuery);
+  const [isPending, startTransition] = useTransition();
+
+  // Keep the input in sync when the URL changes underneath us
+  useEffect(() => {
+    setValue(initialQuery);
+  }, [initialQuery]);
+
+  const navigate = (query: string) => {
+    startTransition(() => {
+      router.push(getSearchHref(query, locale));
+    });
+  };
+
+  return (
+    <SearchBar
+      value={value}
+      onChange={setValue}
+      isLoading={isPending}
+      onSearch={navigate}
+      onClear={() => navigate('')}
+      className={className}
+    />
+  );
+}
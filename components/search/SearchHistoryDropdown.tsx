@@ -0,0 +1,140 @@
+"use client";
+
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SearchHistoryEntry } from '@/lib/searchHistory';
+import { useTranslations } from '@/components/providers/I18nProvider';
+
+/**
+ * Props for SearchHistoryDropdown component
+ */
+export interface SearchHistoryDropdownProps {
+  /** id of the listbox, referenced by the input's aria-controls */
+  id: string;
+  /** Past queries to offer, most recent first */
+  entries: SearchHistoryEntry[];
+  /** Index of the option highlighted from the keyboard (-1 for none) */
+  activeIndex: number;
+  /** Callback when the pointer highlights an option */
+  onActiveIndexChange: (index: number) => void;
+  /** Callback when a past query is picked */
+  onSelect: (entry: SearchHistoryEntry) => void;
+  /** Callback to forget one past query */
+  onRemove: (entry: SearchHistoryEntry) => void;
+  /** Callback to forget every past query */
+  onClear: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * id of an option, for the input's aria-activedescendant
+ */
+export function getSearchHistoryOptionId(listboxId: string, index: number): string {
+  return `${listboxId}-option-${index}`;
+}
+
+/**
+ * SearchHistoryDropdown component listing recent searches under the input
+ *
+ * Focus stays in the input (listbox pattern with aria-activedescendant);
+ * pressing inside the dropdown does not blur it. Only "clear history" is
+ * reachable with Tab; entries are picked with the arrows from the input.
+ *
+ * Features:
+ * - Past queries with a palindrome marker
+ * - Remove button per entry and a "clear history" button
+ *
+ * @example
+ * ```tsx
+ * <SearchHistoryDropdown
+ *   id="search-history"
+ *   entries={entries}
+ *   activeIndex={activeIndex}
+ *   onActiveIndexChange={setActiveIndex}
+ *   onSelect={(entry) => onSearch(entry.query)}
+ *   onRemove={(entry) => remove(entry.query)}
+ *   onClear={clear}
+ * />
+ * ```
+ */
+export default function SearchHistoryDropdown({
+  id,
+  entries,
+  activeIndex,
+  onActiveIndexChange,
+  onSelect,
+  onRemove,
+  onClear,
+  className,
+}: SearchHistoryDropdownProps) {
+  const t = useTranslations();
+
+  return (
+    <div
+      className={cn(
+        'absolute left-0 right-0 top-full z-20 mt-1 overflow-hidden rounded-md border border-border',
+        'bg-card shadow-lg animate-in fade-in-0',
+        className
+      )}
+      // Keep focus in the input while clicking entries or buttons
+      onMouseDown={(event) => event.preventDefault()}
+      data-testid="search-history"
+    >
+      <ul id={id} role="listbox" aria-label={t('searchHistory.label')} className="max-h-72 overflow-y-auto py-1">
+        {entries.map((entry, index) => (
+          <li
+            key={entry.query}
+            id={getSearchHistoryOptionId(id, index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            className={cn(
+              'flex cursor-pointer items-center gap-3 px-4 py-2 text-sm text-foreground',
+              index === activeIndex && 'bg-muted'
+            )}
+            onClick={() => onSelect(entry)}
+            onMouseEnter={() => onActiveIndexChange(index)}
+            data-testid="search-history-item"
+            data-query={entry.query}
+          >
+            <History className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+            <span className="flex-1 truncate">{entry.query}</span>
+            {entry.isPalindrome && (
+              <span
+                className="rounded-full bg-accent/20 px-2 py-0.5 text-xs font-medium text-primary"
+                data-testid="search-history-palindrome"
+              >
+                {t('searchHistory.palindrome')}
+              </span>
+            )}
+            <button
+              type="button"
+              tabIndex={-1}
+              className="rounded p-1 text-muted-foreground hover:bg-muted-foreground/10 hover:text-foreground cursor-pointer"
+              onClick={(event) => {
+                event.stopPropagation();
+                onRemove(entry);
+              }}
+              aria-label={t('searchHistory.remove', { query: entry.query })}
+              data-testid="search-history-remove"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t border-border px-4 py-2 text-right">
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:text-foreground cursor-pointer"
+          onClick={onClear}
+          data-testid="search-history-clear"
+        >
+          {t('searchHistory.clear')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
+"use client";
+
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { useTranslations } from '@/components/providers/I18nProvider';
 
 // Simple chevron icons
 const ChevronLeftIcon = ({ className }: { className?: string }) => (
@@ -35,6 +38,10 @@ export interface PaginationProps {
   showInfo?: boolean;
   /** Maximum number of page buttons to show */
   maxPages?: number;
+  /** Page sizes to choose from; the selector is only shown with onItemsPerPageChange */
+  pageSizeOptions?: readonly number[];
+  /** Callback when the page size changes */
+  onItemsPerPageChange?: (itemsPerPage: number) => void;
 }
 
 /**
@@ -45,6 +52,7 @@ export interface PaginationProps {
  * - Accessible navigation with ARIA labels
  * - Smart page button display with ellipsis
  * - Page info display showing current range
+ * - Optional page size selector
  * - Keyboard navigation support
  * 
  * @example
@@ -66,9 +74,12 @@ export default function Pagination({
   onPageChange,
   className,
   showInfo = true,
-  maxPages = 7
+  maxPages = 7,
+  pageSizeOptions,
+  onItemsPerPageChange
 }: PaginationProps) {
-  
+  const t = useTranslations();
+
   // Calculate page range for display
   const getPageRange = () => {
     if (totalPages <= maxPages) {
@@ -91,8 +102,12 @@ export default function Pagination({
   const endItem = Math.min(totalItems, currentPage * itemsPerPage);
 
   const pageRange = getPageRange();
-  const showLeftEllipsis = pageRange[0] > 1;
-  const showRightEllipsis = pageRange[pageRange.length - 1] < totalPages;
+  const showFirstPage = pageRange[0] > 1;
+  const showLastPage = pageRange[pageRange.length - 1] < totalPages;
+  // An ellipsis only stands for skipped pages, never for a gap of zero
+  const showLeftEllipsis = pageRange[0] > 2;
+  const showRightEllipsis = pageRange[pageRange.length - 1] < totalPages - 1;
+  const showPageSize = !!onItemsPerPageChange && !!pageSizeOptions && pageSizeOptions.length > 1;
 
   const handlePageChange = (page: number) => {
     if (page >= 1 && page <= totalPages && page !== currentPage) {
@@ -107,104 +122,128 @@ export default function Pagination({
     }
   };
 
-  if (totalPages <= 1) {
+  // A single page needs no navigation, only the page size may still change
+  if (totalPages <= 1 && !showPageSize) {
     return null;
   }
 
   return (
     <nav 
       className={cn('flex flex-col sm:flex-row items-center justify-between gap-4', className)}
-      aria-label="Navegación por páginas"
+      aria-label={t('pagination.label')}
+      data-testid="pagination"
     >
       {/* Page Info */}
       {showInfo && (
-        <div className="text-sm text-muted-foreground order-2 sm:order-1">
-          Mostrando <span className="font-medium">{startItem}</span> a{' '}
-          <span className="font-medium">{endItem}</span> de{' '}
-          <span className="font-medium">{totalItems}</span> productos
+        <div className="text-sm text-muted-foreground order-2 sm:order-1" data-testid="pagination-info">
+          {t('pagination.info', { start: Math.min(startItem, totalItems), end: endItem, total: totalItems })}
         </div>
       )}
 
-      {/* Pagination Controls */}
-      <div className="flex items-center gap-1 order-1 sm:order-2">
-        {/* Previous Button */}
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => handlePageChange(currentPage - 1)}
-          disabled={currentPage <= 1}
-          className="flex items-center gap-1 px-3"
-          aria-label="Página anterior"
-        >
-          <ChevronLeftIcon className="h-4 w-4" />
-          <span className="hidden sm:inline">Anterior</span>
-        </Button>
-
-        {/* First Page */}
-        {showLeftEllipsis && (
-          <>
-            <Button
-              variant={1 === currentPage ? "default" : "outline"}
-              size="sm"
-              onClick={() => handlePageChange(1)}
-              onKeyDown={(e) => handleKeyDown(e, 1)}
-              className="min-w-[40px]"
-              aria-label="Página 1"
-              aria-current={1 === currentPage ? "page" : undefined}
-            >
-              1
-            </Button>
-            <span className="px-2 text-muted-foreground">…</span>
-          </>
-        )}
+      {/* Page Size */}
+      {showPageSize && (
+        <label className="flex items-center gap-2 text-sm text-muted-foreground order-3">
+          {t('pagination.pageSize')}
+          <select
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring cursor-pointer"
+            value={itemsPerPage}
+            onChange={(event) => onItemsPerPageChange(Number(event.target.value))}
+            data-testid="page-size-select"
+          >
+            {pageSizeOptions.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+      )}
 
-        {/* Page Numbers */}
-        {pageRange.map((page) => (
+      {/* Pagination Controls */}
+      {totalPages > 1 && (
+        <div className="flex items-center gap-1 order-1 sm:order-2">
+          {/* Previous Button */}
           <Button
-            key={page}
-            variant={page === currentPage ? "default" : "outline"}
+            variant="outline"
             size="sm"
-            onClick={() => handlePageChange(page)}
-            onKeyDown={(e) => handleKeyDown(e, page)}
-            className="min-w-[40px]"
-            aria-label={`Página ${page}`}
-            aria-current={page === currentPage ? "page" : undefined}
+            onClick={() => handlePageChange(currentPage - 1)}
+            disabled={currentPage <= 1}
+            className="flex items-center gap-1 px-3"
+            aria-label={t('pagination.previous')}
+            data-testid="pagination-previous"
           >
-            {page}
+            <ChevronLeftIcon className="h-4 w-4" />
+            <span className="hidden sm:inline">{t('pagination.previousShort')}</span>
           </Button>
-        ))}
 
-        {/* Last Page */}
-        {showRightEllipsis && (
-          <>
-            <span className="px-2 text-muted-foreground">…</span>
+          {/* First Page */}
+          {showFirstPage && (
+            <>
+              <Button
+                variant={1 === currentPage ? "default" : "outline"}
+                size="sm"
+                onClick={() => handlePageChange(1)}
+                onKeyDown={(e) => handleKeyDown(e, 1)}
+                className="min-w-[40px]"
+                aria-label={t('pagination.page', { page: 1 })}
+                aria-current={1 === currentPage ? "page" : undefined}
+                data-testid="pagination-page"
+              >
+                1
+              </Button>
+              {showLeftEllipsis && <span className="px-2 text-muted-foreground" aria-hidden="true">…</span>}
+            </>
+          )}
+
+          {/* Page Numbers */}
+          {pageRange.map((page) => (
             <Button
-              variant={totalPages === currentPage ? "default" : "outline"}
+              key={page}
+              variant={page === currentPage ? "default" : "outline"}
               size="sm"
-              onClick={() => handlePageChange(totalPages)}
-              onKeyDown={(e) => handleKeyDown(e, totalPages)}
+              onClick={() => handlePageChange(page)}
+              onKeyDown={(e) => handleKeyDown(e, page)}
               className="min-w-[40px]"
-              aria-label={`Página ${totalPages}`}
-              aria-current={totalPages === currentPage ? "page" : undefined}
+              aria-label={t('pagination.page', { page })}
+              aria-current={page === currentPage ? "page" : undefined}
+              data-testid="pagination-page"
             >
-              {totalPages}
+              {page}
             </Button>
-          </>
-        )}
+          ))}
 
-        {/* Next Button */}
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => handlePageChange(currentPage + 1)}
-          disabled={currentPage >= totalPages}
-          className="flex items-center gap-1 px-3"
-          aria-label="Página siguiente"
-        >
-          <span className="hidden sm:inline">Siguiente</span>
-          <ChevronRightIcon className="h-4 w-4" />
-        </Button>
-      </div>
+          {/* Last Page */}
+          {showLastPage && (
+            <>
+              {showRightEllipsis && <span className="px-2 text-muted-foreground" aria-hidden="true">…</span>}
+              <Button
+                variant={totalPages === currentPage ? "default" : "outline"}
+                size="sm"
+                onClick={() => handlePageChange(totalPages)}
+                onKeyDown={(e) => handleKeyDown(e, totalPages)}
+                className="min-w-[40px]"
+                aria-label={t('pagination.page', { page: totalPages })}
+                aria-current={totalPages === currentPage ? "page" : undefined}
+                data-testid="pagination-page"
+              >
+                {totalPages}
+              </Button>
+            </>
+          )}
+
+          {/* Next Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handlePageChange(currentPage + 1)}
+            disabled={currentPage >= totalPages}
+            className="flex items-center gap-1 px-3"
+            aria-label={t('pagination.next')}
+            data-testid="pagination-next"
+          >
+            <span className="hidden sm:inline">{t('pagination.nextShort')}</span>
+            <ChevronRightIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </nav>
   );
 }
@@ -218,7 +257,8 @@ export function SimplePagination({
   onPageChange,
   className
 }: Pick<PaginationProps, 'currentPage' | 'totalPages' | 'onPageChange' | 'className'>) {
-  
+  const t = useTranslations();
+
   const handlePageChange = (page: number) => {
     if (page >= 1 && page <= totalPages && page !== currentPage) {
       onPageChange(page);
@@ -239,11 +279,11 @@ export function SimplePagination({
         className="flex items-center gap-2"
       >
         <ChevronLeftIcon className="h-4 w-4" />
-        Anterior
+        {t('pagination.previousShort')}
       </Button>
 
       <span className="text-sm text-muted-foreground">
-        Página {currentPage} de {totalPages}
+        {t('pagination.pageOf', { page: currentPage, total: totalPages })}
       </span>
 
       <Button
@@ -253,7 +293,7 @@ export function SimplePagination({
         disabled={currentPage >= totalPages}
         className="flex items-center gap-2"
       >
-        Siguiente
+        {t('pagination.nextShort')}
         <ChevronRightIcon className="h-4 w-4" />
       </Button>
     </div>
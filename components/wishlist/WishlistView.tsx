@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Heart, ShoppingCart, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { getProductsByIds } from '@/lib/api';
+import { compareMoney, subtractMoney } from '@/lib/money';
+import type { ProductItem } from '@/lib/types';
+import type { WishlistEntry } from '@/lib/wishlist';
+import { getProductHref, getSearchHref } from '@/lib/routes';
+import { useCart } from '@/components/providers/CartProvider';
+import { useCurrency } from '@/components/providers/CurrencyProvider';
+import { useLocale, useTranslations } from '@/components/providers/I18nProvider';
+import { useWishlist } from '@/components/providers/WishlistProvider';
+
+/**
+ * Loading state of today's prices
+ */
+type PriceStatus = 'loading' | 'success' | 'error';
+
+/**
+ * Props for WishlistView component
+ */
+export interface WishlistViewProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * WishlistView component for the /wishlist page
+ *
+ * Features:
+ * - Saved products with the price at save time and today's price
+ * - Price change since saving (in the display currency)
+ * - Move to cart at today's price, or remove
+ * - Empty state linking back to the catalog
+ *
+ * @example
+ * ```tsx
+ * <WishlistView className="w-full" />
+ * ```
+ */
+export default function WishlistView({ className }: WishlistViewProps) {
+  const { entries } = useWishlist();
+  const locale = useLocale();
+  const t = useTranslations();
+
+  const [current, setCurrent] = useState<Map<number, ProductItem>>(new Map());
+  const [status, setStatus] = useState<PriceStatus>('loading');
+
+  // Refetch only when the set of saved ids changes
+  const idsKey = useMemo(() => entries.map(entry => entry.productId).sort((a, b) => a - b).join(','), [entries]);
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    const controller = new AbortController();
+    setStatus('loading');
+
+    getProductsByIds(idsKey.split(',').map(Number), controller.signal, locale)
+      .then(found => {
+        setCurrent(found);
+        setStatus('success');
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('❌ [WishlistView] Current prices failed:', err);
+        setStatus('error');
+      });
+
+    return () => controller.abort();
+  }, [idsKey, locale]);
+
+  if (entries.length === 0) {
+    return (
+      <div className={cn('flex flex-col items-center gap-3 py-16 text-center', className)} data-testid="wishlist-empty">
+        <Heart className="h-12 w-12 text-muted-foreground" />
+        <p className="text-lg font-medium text-foreground">{t('wishlist.empty')}</p>
+        <p className="text-sm text-muted-foreground">{t('wishlist.emptyHint')}</p>
+        <Button asChild variant="outline" className="mt-2">
+          <Link href={getSearchHref('', locale)}>{t('wishlist.browse')}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <p className="text-sm text-muted-foreground" aria-live="polite">
+        {t('wishlist.count', { count: entries.length })}
+        {status === 'loading' && ` · ${t('wishlist.loadingPrices')}`}
+      </p>
+      {status === 'error' && (
+        <p className="text-sm text-destructive" role="alert">
+          {t('wishlist.pricesError')}
+        </p>
+      )}
+
+      <ul className="divide-y divide-border/50 rounded-lg border border-border/50 bg-card">
+        {entries.map(entry => (
+          <WishlistRow
+            key={entry.productId}
+            entry={entry}
+            currentItem={current.get(entry.productId)}
+            status={status}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Single saved product with both prices and its actions
+ */
+function WishlistRow({
+  entry,
+  currentItem,
+  status,
+}: {
+  entry: WishlistEntry;
+  currentItem?: ProductItem;
+  status: PriceStatus;
+}) {
+  const { remove } = useWishlist();
+  const { addItem, openCart } = useCart();
+  const { convert, format } = useCurrency();
+  const locale = useLocale();
+  const t = useTranslations();
+
+  // Compare in the display currency so the difference matches the two prices shown
+  const saved = convert(entry.savedPrice);
+  const today = currentItem ? convert(currentItem.finalPrice) : undefined;
+  const change = today ? compareMoney(today, saved) : 0;
+
+  // The cart locks today's price; a palindrome price has to be earned by a new search
+  const handleMoveToCart = () => {
+    if (!currentItem) return;
+    addItem(currentItem, '');
+    remove(entry.productId);
+    openCart();
+  };
+
+  return (
+    <li className="flex flex-col gap-4 p-4 sm:flex-row sm:items-center" data-testid="wishlist-item">
+      {entry.imageUrl && (
+        <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-md bg-muted">
+          <Image src={entry.imageUrl} alt={entry.title} fill className="object-cover" sizes="80px" />
+        </div>
+      )}
+
+      <div className="flex-1 space-y-1">
+        <Link href={getProductHref(entry.productId, '', locale)} className="font-medium text-foreground hover:text-primary">
+          {entry.title}
+        </Link>
+        <p className="text-sm text-muted-foreground">{entry.brand}</p>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm sm:text-right">
+        <dt className="text-muted-foreground">{t('wishlist.savedPrice')}</dt>
+        <dd data-testid="wishlist-saved-price">{format(saved)}</dd>
+        <dt className="text-muted-foreground">{t('wishlist.currentPrice')}</dt>
+        <dd className="font-semibold text-foreground" data-testid="wishlist-current-price">
+          {today ? format(today) : status === 'loading' ? '…' : t('wishlist.unavailable')}
+        </dd>
+        {today && change !== 0 && (
+          <dd
+            className={cn('col-span-2 text-xs', change < 0 ? 'text-green-600' : 'text-amber-600')}
+            data-testid="wishlist-price-change"
+          >
+            {change < 0
+              ? t('wishlist.priceDropped', { amount: format(subtractMoney(saved, today)) })
+              : t('wishlist.priceRose', { amount: format(subtractMoney(today, saved)) })}
+          </dd>
+        )}
+      </dl>
+
+      <div className="flex gap-2 sm:flex-col">
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleMoveToCart}
+          disabled={!currentItem}
+          data-testid="wishlist-move-to-cart"
+        >
+          <ShoppingCart className="h-4 w-4" />
+          {t('wishlist.moveToCart')}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => remove(entry.productId)}
+          aria-label={t('wishlist.unsave', { title: entry.title })}
+          data-testid="wishlist-remove"
+        >
+          <Trash2 className="h-4 w-4" />
+          {t('wishlist.remove')}
+        </Button>
+      </div>
+    </li>
+  );
+}
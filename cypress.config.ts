@@ -43,8 +43,9 @@ export default defineConfig({
     
     // Environment variables
     env: {
-      // API base URL for backend
-      apiBaseUrl: 'http://localhost:3000',
+      // API base URL - the app's own mock backend (see app/api/mock),
+      // so e2e runs do not need the real Palindrome API
+      apiBaseUrl: 'http://localhost:3001/api/mock',
       
       // Common test data
       palindromes: ['abba', 'level', 'radar', 'civic', 'kayak'],
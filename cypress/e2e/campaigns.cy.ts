@@ -0,0 +1,39 @@
+/// <reference types="cypress" />
+
+// Only Date is frozen, so debounces and polling timers keep running
+const DURING_WEEKEND = Date.parse('2026-11-21T18:00:05Z');
+const BEFORE_WEEKEND = Date.parse('2026-11-19T18:00:05Z');
+
+describe('Time-boxed campaigns', () => {
+  it('should announce an active campaign with a countdown in the top bar', () => {
+    cy.clock(DURING_WEEKEND, ['Date']);
+    cy.visit('/');
+
+    cy.get('[data-testid="top-bar-campaign"]')
+      .should('contain.text', 'Fin de semana doble palíndromo');
+    cy.get('[data-testid="top-bar-message"]').should('contain.text', 'termina en 1d 11:59:55');
+  });
+
+  it('should double palindrome discounts with a countdown on the badge', () => {
+    cy.clock(DURING_WEEKEND, ['Date']);
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="result-list-success"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="product-card"]').first().within(() => {
+      cy.contains('90%').should('be.visible');
+      cy.get('[data-testid="discount-countdown"]').should('contain.text', '1d 11:59:55');
+    });
+  });
+
+  it('should use the regular discount outside the campaign window', () => {
+    cy.clock(BEFORE_WEEKEND, ['Date']);
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="result-list-success"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="top-bar-campaign"]').should('not.exist');
+    cy.get('[data-testid="product-card"]').first().within(() => {
+      cy.contains('50%').should('be.visible');
+      cy.get('[data-testid="discount-countdown"]').should('not.exist');
+    });
+  });
+});
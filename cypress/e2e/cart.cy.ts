@@ -0,0 +1,68 @@
+/// <reference types="cypress" />
+
+describe('Shopping cart', () => {
+  beforeEach(() => {
+    cy.clearLocalStorage();
+  });
+
+  it('should start empty', () => {
+    cy.visit('/');
+
+    cy.get('[data-testid="cart-button"]').click();
+
+    cy.get('[data-testid="cart-drawer"]').should('be.visible');
+    cy.get('[data-testid="cart-empty"]').should('contain.text', 'Tu carrito está vacío');
+  });
+
+  it('should add a product with its palindrome price and the query that earned it', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="add-to-cart"]', { timeout: 15000 }).first().click();
+    cy.get('[data-testid="cart-button"]').should('contain.text', '1').click();
+
+    cy.get('[data-testid="cart-line"]').should('have.length', 1);
+    cy.get('[data-testid="cart-line-total"]').should('contain.text', '$250.00');
+    cy.get('[data-testid="cart-line-source"]').should('contain.text', '50%').and('contain.text', '"abba"');
+    cy.get('[data-testid="cart-subtotal"]').should('contain.text', '$500.00');
+    cy.get('[data-testid="cart-discounts"]').should('contain.text', '$250.00');
+    cy.get('[data-testid="cart-total"]').should('contain.text', '$250.00');
+  });
+
+  it('should update quantities and remove lines', () => {
+    cy.visit('/?q=abba');
+    cy.get('[data-testid="add-to-cart"]', { timeout: 15000 }).first().click();
+    cy.get('[data-testid="cart-button"]').click();
+
+    cy.get('[data-testid="cart-line-increase"]').click();
+    cy.get('[data-testid="cart-line-quantity"]').should('have.text', '2');
+    cy.get('[data-testid="cart-total"]').should('contain.text', '$500.00');
+
+    cy.get('[data-testid="cart-line-decrease"]').click();
+    cy.get('[data-testid="cart-line-quantity"]').should('have.text', '1');
+
+    cy.get('[data-testid="cart-line-remove"]').click();
+    cy.get('[data-testid="cart-empty"]').should('be.visible');
+  });
+
+  it('should close with Escape', () => {
+    cy.visit('/');
+    cy.get('[data-testid="cart-button"]').click();
+    cy.get('[data-testid="cart-drawer"]').should('be.visible');
+
+    cy.get('body').type('{esc}');
+
+    cy.get('[data-testid="cart-drawer"]').should('not.exist');
+  });
+
+  it('should keep the locked price after reloading and searching a non-palindrome', () => {
+    cy.visit('/?q=abba');
+    cy.get('[data-testid="add-to-cart"]', { timeout: 15000 }).first().click();
+
+    cy.visit('/?q=wilson');
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="cart-button"]').should('contain.text', '1').click();
+
+    cy.get('[data-testid="cart-line-total"]').should('contain.text', '$250.00');
+    cy.get('[data-testid="cart-line-source"]').should('contain.text', '"abba"');
+  });
+});
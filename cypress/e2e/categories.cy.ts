@@ -0,0 +1,37 @@
+/// <reference types="cypress" />
+
+describe('Category navigation', () => {
+  beforeEach(() => {
+    cy.viewport(1280, 800);
+  });
+
+  it('should open a category page from the navigation', () => {
+    cy.visit('/');
+
+    cy.get('[data-testid="nav-category"]').contains('Raquetas').click();
+
+    cy.location('pathname').should('eq', '/es/category/rackets');
+    cy.get('[data-testid="category-title"]').should('contain.text', 'Raquetas');
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length.at.least', 1);
+  });
+
+  it('should only list products matching the category', () => {
+    cy.visit('/es/category/balls');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).each($card => {
+      expect($card.text()).to.match(/Pelotas/);
+    });
+  });
+
+  it('should highlight the active category', () => {
+    cy.visit('/es/category/shoes');
+
+    cy.get('[data-testid="nav-category"][aria-current="page"]')
+      .should('have.length', 1)
+      .and('contain.text', 'Calzado');
+  });
+
+  it('should return 404 for unknown categories', () => {
+    cy.request({ url: '/es/category/unknown', failOnStatusCode: false }).its('status').should('eq', 404);
+  });
+});
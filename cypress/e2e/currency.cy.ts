@@ -0,0 +1,35 @@
+/// <reference types="cypress" />
+
+describe('Display currency', () => {
+  beforeEach(() => {
+    cy.clearLocalStorage();
+  });
+
+  it('should show prices in MXN by default', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="currency-selector"]').should('have.value', 'MXN');
+    cy.get('[data-testid="top-bar-free-shipping"]').should('contain.text', '$1,000.00');
+    cy.get('[data-testid="price-block"]', { timeout: 15000 }).first().should('contain.text', '$250.00');
+  });
+
+  it('should convert prices and the free-shipping threshold when switching currency', () => {
+    cy.visit('/?q=abba');
+    cy.get('[data-testid="price-block"]', { timeout: 15000 }).should('be.visible');
+
+    cy.get('[data-testid="currency-selector"]').select('EUR');
+
+    cy.get('[data-testid="top-bar-free-shipping"]').should('contain.text', '€');
+    cy.get('[data-testid="price-block"]').first().should('contain.text', '€');
+  });
+
+  it('should remember the choice across visits', () => {
+    cy.visit('/');
+    cy.get('[data-testid="currency-selector"]').select('USD');
+
+    cy.reload();
+
+    cy.get('[data-testid="currency-selector"]').should('have.value', 'USD');
+    cy.get('[data-testid="top-bar-free-shipping"]').should('contain.text', '$54.20');
+  });
+});
@@ -0,0 +1,58 @@
+/// <reference types="cypress" />
+
+describe('Faceted filtering', () => {
+  beforeEach(() => {
+    cy.viewport(1280, 800);
+  });
+
+  it('should narrow the results by brand and show the filter as a chip', () => {
+    cy.visit('/es/search?q=wilson');
+
+    cy.get('[data-testid="facet-brand"][data-brand="Wilson"]', { timeout: 15000 }).check();
+
+    cy.location('search').should('contain', 'brand=Wilson');
+    cy.get('[data-testid="filter-chip"]').should('have.length', 1).and('contain.text', 'Wilson');
+    cy.get('[data-testid="result-count"]').should('contain.text', ' de ');
+    cy.get('[data-testid="product-card"]').each($card => {
+      expect($card.text()).to.contain('Wilson');
+    });
+  });
+
+  it('should restore filters from the URL and remove them with the chips', () => {
+    cy.visit('/es/search?q=wilson&brand=Wilson&maxPrice=1500');
+
+    cy.get('[data-testid="filter-chip"]', { timeout: 15000 }).should('have.length', 2);
+    cy.get('[data-testid="filter-chip"]').contains('Hasta').click();
+
+    cy.location('search').should('not.contain', 'maxPrice');
+    cy.get('[data-testid="filter-chip"]').should('have.length', 1);
+
+    cy.get('[data-testid="filter-clear"]').click();
+    cy.get('[data-testid="filter-chips"]').should('not.exist');
+    cy.get('[data-testid="result-count"]').should('not.contain.text', ' de ');
+  });
+
+  it('should show a price histogram', () => {
+    cy.visit('/es/search?q=wilson');
+
+    cy.get('[data-testid="facet-histogram"]', { timeout: 15000 }).children().should('have.length', 8);
+    cy.get('[data-testid="facet-price-min"]').should('exist');
+    cy.get('[data-testid="facet-price-max"]').should('exist');
+  });
+
+  it('should open the filters as a bottom sheet on mobile', () => {
+    cy.viewport('iphone-x');
+    cy.visit('/es/search?q=wilson');
+
+    cy.get('[data-testid="facet-panel"]', { timeout: 15000 }).should('not.be.visible');
+    cy.get('[data-testid="facet-sheet-open"]').click();
+
+    cy.get('[data-testid="facet-sheet"]').within(() => {
+      cy.get('[data-testid="facet-brand"][data-brand="Wilson"]').check();
+    });
+    cy.get('[data-testid="facet-sheet-close"]').click();
+
+    cy.get('[data-testid="facet-sheet"]').should('not.exist');
+    cy.get('[data-testid="facet-sheet-open"]').should('contain.text', '(1)');
+  });
+});
@@ -0,0 +1,39 @@
+/// <reference types="cypress" />
+
+describe('Internationalisation', () => {
+  it('should redirect unprefixed URLs to the negotiated locale', () => {
+    cy.clearCookie('NEXT_LOCALE');
+    cy.visit('/search?q=abba', { headers: { 'Accept-Language': 'en-US,en;q=0.9' } });
+
+    cy.location('pathname').should('eq', '/en/search');
+    cy.location('search').should('eq', '?q=abba');
+    cy.get('html').should('have.attr', 'lang', 'en');
+  });
+
+  it('should prefer the locale cookie over Accept-Language', () => {
+    cy.visit('/', { headers: { 'Accept-Language': 'en-US,en;q=0.9' } });
+
+    cy.location('pathname').should('eq', '/es');
+    cy.get('html').should('have.attr', 'lang', 'es');
+  });
+
+  it('should render English copy with plural forms', () => {
+    cy.visit('/en/search?q=abba');
+
+    cy.get('h1').should('contain.text', 'Results for "abba"');
+    cy.get('[data-testid="result-list-success"]', { timeout: 15000 })
+      .should('contain.text', 'Palindrome search detected!')
+      .and('contain.text', 'product');
+    cy.get('[data-testid="price-block"]').first().should('contain.text', 'Discounted price');
+  });
+
+  it('should switch language from the top bar keeping the search', () => {
+    cy.visit('/es/search?q=abba');
+    cy.get('[data-testid="locale-selector"]').should('have.value', 'es').select('en');
+
+    cy.location('pathname').should('eq', '/en/search');
+    cy.location('search').should('eq', '?q=abba');
+    cy.get('[data-testid="top-bar-free-shipping"]').should('contain.text', 'Free shipping');
+    cy.getCookie('NEXT_LOCALE').should('have.property', 'value', 'en');
+  });
+});
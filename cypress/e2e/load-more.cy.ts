@@ -0,0 +1,73 @@
+/// <reference types="cypress" />
+
+describe('Loading more products', () => {
+  // The search page is paginated; the home page keeps the button as the infinite scroll fallback
+  const visitWithButtonOnly = () => {
+    cy.visit('/', {
+      onBeforeLoad(win) {
+        // A browser without IntersectionObserver
+        Reflect.deleteProperty(win, 'IntersectionObserver');
+      },
+    });
+  };
+
+  it('should append the next page with the button', () => {
+    visitWithButtonOnly();
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length', 24);
+    cy.window().then(win => win.scrollTo(0, 1500));
+    cy.window().its('scrollY').as('scrollBefore');
+
+    cy.get('[data-testid="load-more"]').click();
+
+    cy.get('[data-testid="product-card"]').should('have.length', 48);
+    cy.get('@scrollBefore').then(scrollBefore => {
+      cy.window().its('scrollY').should('be.at.least', Number(scrollBefore));
+    });
+  });
+
+  it('should load pages until the catalog ends', () => {
+    visitWithButtonOnly();
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length', 24);
+    cy.get('[data-testid="load-more"]').click();
+    cy.get('[data-testid="product-card"]').should('have.length', 48);
+    cy.get('[data-testid="load-more"]').click();
+    cy.get('[data-testid="product-card"]').should('have.length', 72);
+    cy.get('[data-testid="load-more"]').click();
+    cy.get('[data-testid="product-card"]').should('have.length', 96);
+    cy.get('[data-testid="load-more"]').click();
+
+    cy.get('[data-testid="product-card"]').should('have.length', 119);
+    cy.get('[data-testid="load-more"]').should('not.exist');
+  });
+
+  it('should load more on scroll on the home page', () => {
+    cy.visit('/');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length', 24);
+    cy.get('[data-testid="load-more-sentinel"]').scrollIntoView();
+
+    cy.get('[data-testid="product-card"]').should('have.length.greaterThan', 24);
+  });
+
+  it('should discard a page that arrives after the query changed', () => {
+    cy.visit('/');
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length', 24);
+
+    // Hold the next page back so the search lands first
+    cy.intercept('GET', '**/products?*offset=24*', (req) => {
+      req.on('response', (res) => {
+        res.setDelay(2000);
+      });
+    }).as('slowPage');
+
+    cy.get('[data-testid="load-more"]').click();
+    cy.get('[data-testid="search-input"]').type('abba');
+
+    cy.contains('Resultados para "abba"', { timeout: 15000 }).should('be.visible');
+    cy.wait(2500);
+    cy.get('[data-testid="product-card"]').should('have.length', 1);
+    cy.get('[data-testid="load-more"]').should('not.exist');
+  });
+});
@@ -0,0 +1,67 @@
+/// <reference types="cypress" />
+
+describe('Result pagination', () => {
+  beforeEach(() => {
+    cy.viewport(1280, 800);
+  });
+
+  it('should render the requested page on the server and keep it in the URL', () => {
+    cy.visit('/es/search');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length', 24);
+    cy.get('[data-testid="pagination-page"]').contains('2').click();
+
+    cy.location('search').should('contain', 'page=2');
+    cy.get('[data-testid="pagination-info"]').should('contain', 'Mostrando 25 a 48 de 119 productos');
+    cy.get('[data-testid="pagination-page"][aria-current="page"]').should('have.text', '2');
+  });
+
+  it('should return focus to the results heading on page change', () => {
+    cy.visit('/es/search');
+
+    cy.get('[data-testid="pagination-next"]', { timeout: 15000 }).click();
+
+    cy.location('search').should('contain', 'page=2');
+    cy.focused().should('have.attr', 'data-testid', 'result-heading');
+  });
+
+  it('should show ellipsis around distant pages', () => {
+    cy.visit('/es/search?pageSize=12&page=5');
+
+    cy.get('[data-testid="pagination"]', { timeout: 15000 }).should('contain', '…');
+    cy.get('[data-testid="pagination-page"]').first().should('have.text', '1');
+    cy.get('[data-testid="pagination-page"]').last().should('have.text', '10');
+  });
+
+  it('should change the page size and keep the first product in view', () => {
+    cy.visit('/es/search?page=3');
+
+    cy.get('[data-testid="page-size-select"]', { timeout: 15000 }).select('48');
+
+    cy.location('search').should('contain', 'pageSize=48').and('contain', 'page=2');
+    cy.get('[data-testid="product-card"]').should('have.length', 48);
+  });
+
+  it('should not filter or sort the listing, which only holds the current page', () => {
+    cy.visit('/es/search?brand=Wilson&sort=price-asc');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length', 24);
+    cy.get('[data-testid="pagination-info"]').should('contain', 'de 119 productos');
+    cy.get('[data-testid="facet-panel"]').should('not.exist');
+    cy.get('[data-testid="sort-select"]').should('not.exist');
+  });
+
+  it('should slice search results on the client', () => {
+    cy.visit('/es/search?q=raqueta&pageSize=12&page=2');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length', 10);
+    cy.get('[data-testid="pagination-info"]').should('contain', 'Mostrando 13 a 22 de 22 productos');
+  });
+
+  it('should move back to the last page when the results shrink', () => {
+    cy.visit('/es/search?q=raqueta&pageSize=12&page=9');
+
+    cy.location('search', { timeout: 15000 }).should('contain', 'page=2');
+    cy.get('[data-testid="pagination-page"][aria-current="page"]').should('have.text', '2');
+  });
+});
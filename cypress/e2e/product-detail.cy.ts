@@ -0,0 +1,57 @@
+/// <reference types="cypress" />
+
+describe('Product detail page', () => {
+  beforeEach(() => {
+    cy.clearLocalStorage();
+  });
+
+  it('should carry the palindrome discount over from the search', () => {
+    cy.visit('/es/products/111?q=abba');
+
+    cy.get('[data-testid="product-detail"]').should('contain.text', 'Test product for palindrome testing');
+    cy.get('[data-testid="large-price-block"]')
+      .should('contain.text', '$500.00')
+      .and('contain.text', '$250.00')
+      .and('contain.text', 'Ahorras $250.00');
+    cy.get('[data-testid="carried-over-discount"]').should('contain.text', '"abba"');
+    cy.get('[data-testid="back-to-results"]').should('have.attr', 'href', '/es/search?q=abba');
+  });
+
+  it('should show the catalog price without a search', () => {
+    cy.visit('/es/products/111');
+
+    cy.get('[data-testid="large-price-block"]').should('contain.text', '$500.00').and('not.contain.text', '$250.00');
+    cy.get('[data-testid="carried-over-discount"]').should('not.exist');
+  });
+
+  it('should not discount a product the search did not return', () => {
+    cy.visit('/es/products/111?q=level');
+
+    cy.get('[data-testid="large-price-block"]').should('not.contain.text', '$250.00');
+    cy.get('[data-testid="carried-over-discount"]').should('not.exist');
+  });
+
+  it('should list more products from the same brand', () => {
+    cy.visit('/es/products/5');
+
+    cy.get('[data-testid="more-from-brand"]', { timeout: 15000 }).within(() => {
+      cy.get('[data-testid="product-card"]').should('have.length.at.least', 1);
+    });
+  });
+
+  it('should add the product to the cart at the price shown', () => {
+    cy.visit('/es/products/111?q=abba');
+
+    cy.get('[data-testid="add-to-cart"]').first().click();
+
+    cy.get('[data-testid="cart-drawer"]').should('be.visible');
+    cy.get('[data-testid="cart-line-total"]').should('contain.text', '$250.00');
+  });
+
+  it('should render a 404 for unknown products', () => {
+    cy.request({ url: '/es/products/9999', failOnStatusCode: false }).its('status').should('eq', 404);
+
+    cy.visit('/es/products/9999', { failOnStatusCode: false });
+    cy.get('[data-testid="product-not-found"]').should('contain.text', 'Producto no encontrado');
+  });
+});
@@ -0,0 +1,83 @@
+/// <reference types="cypress" />
+
+describe('Product quick view', () => {
+  beforeEach(() => {
+    cy.clearLocalStorage();
+  });
+
+  it('should open over the results with the full description', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).first().click();
+
+    cy.location('pathname').should('eq', '/es/products/111');
+    cy.location('search').should('eq', '?q=abba');
+    cy.get('[data-testid="quick-view"]').should('be.visible').and('contain.text', '$250.00');
+    cy.get('[data-testid="quick-view-description"]').should('contain.text', 'Test product for palindrome testing');
+    cy.get('[data-testid="result-list-success"]').should('exist');
+  });
+
+  it('should close with Escape and return to the results', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).first().click();
+    cy.get('[data-testid="quick-view"]').should('be.visible');
+
+    cy.get('body').type('{esc}');
+
+    cy.get('[data-testid="quick-view"]').should('not.exist');
+    cy.location('pathname').should('eq', '/es');
+    cy.location('search').should('eq', '?q=abba');
+  });
+
+  it('should keep focus inside the dialog', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).first().click();
+
+    cy.get('[data-testid="quick-view"]').then($dialog => {
+      cy.focused().should($focused => {
+        expect($dialog[0].contains($focused[0])).to.equal(true);
+      });
+    });
+  });
+
+  it('should step through the results with the arrow keys', () => {
+    cy.visit('/?q=wilson');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).should('have.length.at.least', 2);
+    cy.get('[data-testid="product-card"]').first().click();
+    cy.get('[data-testid="quick-view-position"]').should('contain.text', '1 de');
+
+    cy.get('body').type('{rightarrow}');
+    cy.get('[data-testid="quick-view-position"]').should('contain.text', '2 de');
+
+    cy.get('body').type('{leftarrow}');
+    cy.get('[data-testid="quick-view-position"]').should('contain.text', '1 de');
+  });
+
+  it('should show the full product page on reload', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).first().click();
+    cy.get('[data-testid="quick-view"]').should('be.visible');
+
+    cy.reload();
+
+    cy.get('[data-testid="quick-view"]').should('not.exist');
+    cy.get('[data-testid="product-detail"]').should('be.visible');
+    cy.get('[data-testid="carried-over-discount"]').should('contain.text', '"abba"');
+  });
+
+  it('should add to the cart without leaving the dialog', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).first().click();
+    cy.get('[data-testid="quick-view"]').within(() => {
+      cy.get('[data-testid="add-to-cart"]').click();
+      cy.get('[data-testid="add-to-cart"]').should('contain.text', 'Agregado al carrito');
+    });
+
+    cy.get('[data-testid="cart-button"]').should('contain.text', '1');
+  });
+});
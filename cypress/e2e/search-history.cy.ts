@@ -0,0 +1,88 @@
+/// <reference types="cypress" />
+
+const HISTORY_KEY = 'palindrome-web:search-history';
+
+/**
+ * Visit the search page with a stored history
+ */
+const visitWithHistory = (queries: { query: string; isPalindrome: boolean }[]) => {
+  cy.visit('/es/search', {
+    onBeforeLoad(win) {
+      const entries = queries.map(entry => ({ ...entry, searchedAt: '2026-01-01T00:00:00.000Z' }));
+      win.localStorage.setItem(HISTORY_KEY, JSON.stringify({ entries }));
+    },
+  });
+};
+
+describe('Search history', () => {
+  it('should record submitted searches, most recent first', () => {
+    cy.visit('/es/search');
+
+    cy.get('[data-testid="search-input"]', { timeout: 15000 }).type('raqueta{enter}');
+    cy.location('search').should('contain', 'q=raqueta');
+    cy.get('[data-testid="search-input"]').clear().type('abba{enter}');
+    cy.location('search').should('contain', 'q=abba');
+
+    cy.get('[data-testid="search-input"]').clear();
+    cy.get('[data-testid="search-history-item"]').then($items => {
+      expect(Array.from($items, item => item.dataset.query)).to.deep.equal(['abba', 'raqueta']);
+    });
+  });
+
+  it('should mark palindromes and search an entry again', () => {
+    visitWithHistory([
+      { query: 'abba', isPalindrome: true },
+      { query: 'raqueta', isPalindrome: false },
+    ]);
+
+    cy.get('[data-testid="search-input"]', { timeout: 15000 }).focus();
+    cy.get('[data-testid="search-history"]').should('be.visible');
+    cy.get('[data-testid="search-history-item"][data-query="abba"] [data-testid="search-history-palindrome"]').should('exist');
+    cy.get('[data-testid="search-history-item"][data-query="raqueta"] [data-testid="search-history-palindrome"]').should('not.exist');
+
+    cy.get('[data-testid="search-history-item"][data-query="raqueta"]').click();
+
+    cy.location('search').should('contain', 'q=raqueta');
+    cy.get('[data-testid="search-history"]').should('not.exist');
+  });
+
+  it('should pick entries with the keyboard', () => {
+    visitWithHistory([
+      { query: 'abba', isPalindrome: true },
+      { query: 'raqueta', isPalindrome: false },
+    ]);
+
+    cy.get('[data-testid="search-input"]', { timeout: 15000 }).focus().type('{downarrow}{downarrow}{enter}');
+
+    cy.location('search').should('contain', 'q=raqueta');
+  });
+
+  it('should remove one entry and clear the rest', () => {
+    visitWithHistory([
+      { query: 'abba', isPalindrome: true },
+      { query: 'raqueta', isPalindrome: false },
+      { query: 'pelota', isPalindrome: false },
+    ]);
+
+    cy.get('[data-testid="search-input"]', { timeout: 15000 }).focus();
+    cy.get('[data-testid="search-history-item"][data-query="raqueta"] [data-testid="search-history-remove"]').click();
+    cy.get('[data-testid="search-history-item"]').should('have.length', 2);
+
+    cy.get('[data-testid="search-history-clear"]').click();
+    cy.get('[data-testid="search-history"]').should('not.exist');
+    cy.window().then(win => {
+      expect(JSON.parse(win.localStorage.getItem(HISTORY_KEY) ?? '{}').entries).to.have.length(0);
+    });
+  });
+
+  it('should close with Escape before clearing the input', () => {
+    visitWithHistory([{ query: 'abba', isPalindrome: true }]);
+
+    cy.get('[data-testid="search-input"]', { timeout: 15000 }).focus().type('ab');
+    cy.get('[data-testid="search-history"]').should('be.visible');
+
+    cy.get('[data-testid="search-input"]').type('{esc}');
+    cy.get('[data-testid="search-history"]').should('not.exist');
+    cy.get('[data-testid="search-input"]').should('have.value', 'ab');
+  });
+});
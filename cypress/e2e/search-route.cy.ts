@@ -0,0 +1,22 @@
+/// <reference types="cypress" />
+
+describe('Server-rendered search route', () => {
+  it('should render results for the query in the HTML', () => {
+    cy.request('/search?q=abba').its('body').should((html: string) => {
+      expect(html).to.include('<title>abba — 50% de descuento</title>');
+      expect(html).to.include('data-testid="product-card"');
+    });
+  });
+
+  it('should navigate to a new query from the search bar', () => {
+    cy.visit('/search?q=level');
+    cy.get('[data-testid="result-list-success"]', { timeout: 15000 }).should('be.visible');
+    cy.get('[data-testid="search-input"]').should('have.value', 'level');
+
+    cy.get('[data-testid="search-input"]').clear().type('wilson{enter}');
+
+    cy.location('search', { timeout: 10000 }).should('eq', '?q=wilson');
+    cy.title().should('eq', 'wilson — Búsqueda de productos');
+    cy.get('h1').should('contain', 'Resultados para "wilson"');
+  });
+});
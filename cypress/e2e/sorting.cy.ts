@@ -0,0 +1,60 @@
+/// <reference types="cypress" />
+
+/**
+ * Read the final prices of the cards in display order
+ */
+const readCardPrices = () =>
+  cy.get('[data-testid="product-card"] [data-testid="price-block"] > :first-child').then($prices =>
+    Array.from($prices, price => Number(price.textContent?.replace(/[^0-9.]/g, '')))
+  );
+
+describe('Result sorting', () => {
+  beforeEach(() => {
+    cy.viewport(1280, 800);
+  });
+
+  it('should sort by price ascending and keep the order in the URL', () => {
+    cy.visit('/es/category/balls');
+
+    cy.get('[data-testid="sort-select"]', { timeout: 15000 }).select('price-asc');
+
+    cy.location('search').should('contain', 'sort=price-asc');
+    readCardPrices().then(prices => {
+      expect(prices).to.deep.equal([...prices].sort((a, b) => a - b));
+    });
+  });
+
+  it('should sort by price descending from a deep link', () => {
+    cy.visit('/es/category/balls?sort=price-desc');
+
+    cy.get('[data-testid="sort-select"]', { timeout: 15000 }).should('have.value', 'price-desc');
+    readCardPrices().then(prices => {
+      expect(prices).to.deep.equal([...prices].sort((a, b) => b - a));
+    });
+  });
+
+  it('should feature the first product of the chosen order', () => {
+    cy.visit('/es/category/balls?sort=title');
+
+    cy.get('[data-testid="product-card"]', { timeout: 15000 }).first().invoke('text').then(firstTitle => {
+      cy.get('[data-testid="product-card"]').eq(1).invoke('text').should(secondTitle => {
+        expect(firstTitle.localeCompare(secondTitle, 'es', { sensitivity: 'base' })).to.be.at.most(0);
+      });
+    });
+  });
+
+  it('should fall back to relevance for unknown sort values', () => {
+    cy.visit('/es/category/balls?sort=bogus');
+
+    cy.get('[data-testid="sort-select"]', { timeout: 15000 }).should('have.value', 'relevance');
+  });
+
+  it('should not offer newest on search results, which carry no creation dates', () => {
+    cy.visit('/es/search?q=raqueta&sort=newest');
+
+    cy.get('[data-testid="sort-select"]', { timeout: 15000 }).should('have.value', 'relevance');
+    cy.get('[data-testid="sort-select"] option[value="newest"]').should('not.exist');
+    cy.visit('/es/category/balls');
+    cy.get('[data-testid="sort-select"] option[value="newest"]', { timeout: 15000 }).should('exist');
+  });
+});
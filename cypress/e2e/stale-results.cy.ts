@@ -0,0 +1,25 @@
+/// <reference types="cypress" />
+
+describe('Stale results while searching', () => {
+  it('should keep previous results visible instead of the skeleton', () => {
+    cy.visit('/');
+    cy.get('[data-testid="result-list-success"]', { timeout: 15000 }).should('be.visible');
+
+    // Slow down the next search so the in-flight state is observable
+    cy.intercept('GET', '**/products/search*', (req) => {
+      req.on('response', (res) => {
+        res.setDelay(1500);
+      });
+    }).as('slowSearch');
+
+    cy.get('[data-testid="search-input"]').type('wilson');
+
+    cy.get('[data-testid="result-list-stale-indicator"]').should('be.visible');
+    cy.get('[data-testid="result-list-success"]').should('have.attr', 'aria-busy', 'true');
+    cy.get('[data-testid="result-list-loading"]').should('not.exist');
+
+    cy.wait('@slowSearch');
+    cy.get('[data-testid="result-list-stale-indicator"]').should('not.exist');
+    cy.contains('Resultados para "wilson"').should('be.visible');
+  });
+});
@@ -0,0 +1,38 @@
+/// <reference types="cypress" />
+
+describe('Search state in the URL', () => {
+  it('should land on results for a deep-linked query', () => {
+    cy.visit('/?q=level');
+
+    cy.get('[data-testid="search-input"]').should('have.value', 'level');
+    cy.get('[data-testid="result-list-success"]', { timeout: 15000 }).should('be.visible');
+    cy.contains('Resultados para "level"').should('be.visible');
+  });
+
+  it('should write the typed query into ?q=', () => {
+    cy.visit('/');
+    cy.get('[data-testid="result-list-success"]', { timeout: 15000 }).should('be.visible');
+
+    cy.get('[data-testid="search-input"]').type('radar');
+
+    cy.location('search', { timeout: 5000 }).should('eq', '?q=radar');
+  });
+
+  it('should restore earlier searches with back and forward', () => {
+    cy.visit('/?q=abba');
+    cy.contains('Resultados para "abba"', { timeout: 15000 }).should('be.visible');
+
+    cy.get('[data-testid="search-input"]').clear().type('wilson');
+    cy.location('search', { timeout: 5000 }).should('eq', '?q=wilson');
+    cy.contains('Resultados para "wilson"', { timeout: 15000 }).should('be.visible');
+
+    cy.go('back');
+    cy.location('search').should('eq', '?q=abba');
+    cy.get('[data-testid="search-input"]').should('have.value', 'abba');
+    cy.contains('Resultados para "abba"', { timeout: 15000 }).should('be.visible');
+
+    cy.go('forward');
+    cy.location('search').should('eq', '?q=wilson');
+    cy.get('[data-testid="search-input"]').should('have.value', 'wilson');
+  });
+});
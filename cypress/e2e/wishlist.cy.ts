@@ -0,0 +1,54 @@
+/// <reference types="cypress" />
+
+describe('Wishlist', () => {
+  beforeEach(() => {
+    cy.clearLocalStorage();
+  });
+
+  it('should show an empty wishlist', () => {
+    cy.visit('/wishlist');
+
+    cy.location('pathname').should('eq', '/es/wishlist');
+    cy.get('[data-testid="wishlist-empty"]').should('contain.text', 'Tu lista de deseos está vacía');
+  });
+
+  it('should save from a product card and update the header badge', () => {
+    cy.visit('/?q=abba');
+
+    cy.get('[data-testid="wishlist-toggle"]', { timeout: 15000 }).first()
+      .should('have.attr', 'aria-pressed', 'false')
+      .click()
+      .should('have.attr', 'aria-pressed', 'true');
+
+    cy.get('[data-testid="wishlist-link"]').should('contain.text', '1');
+
+    cy.get('[data-testid="wishlist-toggle"]').first().click();
+    cy.get('[data-testid="wishlist-link"]').should('not.contain.text', '1');
+  });
+
+  it('should list saved items with the price at save time and today', () => {
+    cy.visit('/?q=abba');
+    cy.get('[data-testid="wishlist-toggle"]', { timeout: 15000 }).first().click();
+
+    cy.get('[data-testid="wishlist-link"]').click();
+
+    cy.location('pathname').should('eq', '/es/wishlist');
+    cy.get('[data-testid="wishlist-item"]').should('have.length', 1);
+    cy.get('[data-testid="wishlist-saved-price"]').should('contain.text', '$250.00');
+    // Without the palindrome search the product is back to full price
+    cy.get('[data-testid="wishlist-current-price"]', { timeout: 15000 }).should('contain.text', '$500.00');
+    cy.get('[data-testid="wishlist-price-change"]').should('contain.text', 'Subió $250.00');
+  });
+
+  it('should move an item to the cart at today\'s price', () => {
+    cy.visit('/?q=abba');
+    cy.get('[data-testid="wishlist-toggle"]', { timeout: 15000 }).first().click();
+    cy.visit('/wishlist');
+
+    cy.get('[data-testid="wishlist-move-to-cart"]', { timeout: 15000 }).should('not.be.disabled').click();
+
+    cy.get('[data-testid="cart-drawer"]').should('be.visible');
+    cy.get('[data-testid="cart-line-total"]').should('contain.text', '$500.00');
+    cy.get('[data-testid="wishlist-empty"]').should('exist');
+  });
+});
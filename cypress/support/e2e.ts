@@ -17,5 +17,11 @@
 import './commands'
 import 'cypress-axe'
 
+// Specs assert the Spanish copy; pin the locale so the browser's
+// Accept-Language does not redirect unprefixed visits to /en
+beforeEach(() => {
+  cy.setCookie('NEXT_LOCALE', 'es')
+})
+
 // Alternatively you can use CommonJS syntax:
 // require('./commands')
@@ -1,104 +1,89 @@
-import { SearchResponse, ApiError, ProductsResponse, PaginationParams, Product, ProductItem } from './types';
+import { ApiSearchResponse, SearchResponse, ProductsResponse, PaginationParams, Product, ProductItem } from './types';
+import { ApiClientError, request } from './http';
+import { SearchResponseSchema, ProductsResponseSchema, ProductSchema } from './schemas';
+import { formatIssue, validate, type Schema, type ValidationMode } from './validation';
+import { mockGetProduct, mockListProducts, mockSearch } from './mock/search';
+import { RECONCILIATION_MODE, reconcileSearchResponse, reconciliationLog } from './reconciliation';
+import { createDiscountContext, evaluateDiscount } from './discounts/engine';
+import { getActiveDiscountConfig } from './discounts/campaigns';
+import { fromMajor } from './money';
+import { DEFAULT_LOCALE, type Locale } from './i18n/config';
+import type { Translator } from './i18n/translator';
+import { matchesCategory, type Category } from './categories';
+
+export { ApiClientError };
 
 /**
- * Configuration for API client
+ * Response validation mode
+ * Lenient drops or repairs bad items instead of failing the whole page;
+ * set NEXT_PUBLIC_API_VALIDATION=strict to surface every contract violation.
  */
-const API_CONFIG = {
-  timeout: 10000, // 10 seconds
-  headers: {
-    'Accept': 'application/json',
-    'Content-Type': 'application/json',
-  },
-} as const;
+const VALIDATION_MODE: ValidationMode =
+  process.env.NEXT_PUBLIC_API_VALIDATION === 'strict' ? 'strict' : 'lenient';
 
 /**
- * Development mode mock data
+ * Resolve the base URL API calls are sent to
+ *
+ * With NEXT_PUBLIC_USE_API_PROXY=true the browser calls this app's own
+ * /api/products routes (backend-for-frontend), while server-side code goes
+ * straight to the server-only API_BASE_URL to avoid a needless hop.
  */
-const MOCK_PRODUCTS: ProductItem[] = [
-  {
-    id: 1,
-    title: "Raqueta de Tennis Wilson Pro",
-    brand: "Wilson",
-    description: "Raqueta profesional de alta calidad para jugadores avanzados",
-    originalPrice: 3000,
-    finalPrice: 1500,
-    discountPercentage: 50,
-    imageUrl: "https://picsum.photos/400/300?random=1"
-  },
-  {
-    id: 2,
-    title: "Zapatillas Nike Air Court",
-    brand: "Nike",
-    description: "Zapatillas de tennis con máximo confort y durabilidad",
-    originalPrice: 2500,
-    finalPrice: 1250,
-    discountPercentage: 50,
-    imageUrl: "https://picsum.photos/400/300?random=2"
-  },
-  {
-    id: 3,
-    title: "Pelota de Tennis Head Championship",
-    brand: "Head",
-    description: "Set de 3 pelotas oficiales para competencia",
-    originalPrice: 500,
-    finalPrice: 250,
-    discountPercentage: 50,
-    imageUrl: "https://picsum.photos/400/300?random=3"
+function getApiBaseUrl(): string | undefined {
+  if (process.env.NEXT_PUBLIC_USE_API_PROXY === 'true') {
+    return typeof window !== 'undefined' ? '/' : process.env.API_BASE_URL;
   }
-];
+  return process.env.NEXT_PUBLIC_API_BASE_URL;
+}
 
 /**
- * Check if a string is a palindrome
+ * Search the in-app mock backend (development fallback)
+ * Uses the same algorithm as the /api/mock route handlers
  */
-function isPalindrome(str: string): boolean {
-  const cleaned = str.toLowerCase().replace(/[^a-z0-9]/g, '');
-  return cleaned === cleaned.split('').reverse().join('');
+function searchMockProducts(query: string, locale: Locale): SearchResponse {
+  return applyPalindromeProcessing(mockSearch(query), locale);
 }
 
 /**
- * Generate mock response based on query
+ * Products per page of the catalog listing (first page and each "load more")
  */
-// Utility function to generate mock response for development
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function generateMockResponse(query: string): SearchResponse {
-  const isQueryPalindrome = isPalindrome(query);
-  
-  return {
-    query,
-    isPalindrome: isQueryPalindrome,
-    items: query.includes('nothing') || query.includes('nonexistent') ? [] : MOCK_PRODUCTS,
-    totalItems: query.includes('nothing') || query.includes('nonexistent') ? 0 : MOCK_PRODUCTS.length
-  };
-}
+export const LISTING_PAGE_SIZE = 24;
 
 /**
- * Custom error class for API errors
+ * One further page of the catalog listing
  */
-export class ApiClientError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public error?: string
-  ) {
-    super(message);
-    this.name = 'ApiClientError';
-  }
+export interface ListingPage {
+  /** Products of the page at today's prices */
+  items: ProductItem[];
+  /** Whether more products follow */
+  hasNext: boolean;
+  /** Products in the whole catalog */
+  totalItems: number;
 }
 
 /**
  * Get all products using the new products endpoint
+ * Returns the first LISTING_PAGE_SIZE products (or the requested page);
+ * getListingPage loads the rest.
  * Falls back to search endpoint if new endpoint is unavailable
  * 
  * @param signal - AbortSignal for request cancellation
+ * @param locale - Language of the discount explanations (default: DEFAULT_LOCALE)
+ * @param page - Page to list, passed through to the API (default: the first LISTING_PAGE_SIZE products)
  * @returns Promise<SearchResponse> - All products with metadata
  */
-export async function getAllProducts(signal?: AbortSignal): Promise<SearchResponse> {
+export async function getAllProducts(
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE,
+  page: Pick<PaginationParams, 'limit' | 'offset'> = {}
+): Promise<SearchResponse> {
+  const { limit = LISTING_PAGE_SIZE, offset = 0 } = page;
+
   try {
     // Try the new products endpoint first
-    const productsResponse = await fetchProducts({ limit: 50 }, signal);
+    const productsResponse = await fetchProducts({ limit, offset }, signal);
     
     // Convert to SearchResponse format
-    const items: ProductItem[] = productsResponse.products.map(product => convertProductToProductItem(product, false));
+    const items: ProductItem[] = productsResponse.products.map(product => convertProductToProductItem(product, "", locale));
     
     return {
       query: "",
@@ -107,306 +92,312 @@ export async function getAllProducts(signal?: AbortSignal): Promise<SearchRespon
       totalItems: productsResponse.totalItems
     };
   } catch (error) {
+    // A cancelled request must not trigger the fallback
+    if (signal?.aborted) {
+      throw error;
+    }
+
     // Fallback to search endpoint with generic term
     console.warn('New products endpoint unavailable, falling back to search:', error);
     
-    // Get base URL from environment
-    const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
+    const baseUrl = getApiBaseUrl();
     if (!baseUrl) {
       // Development fallback with mock data
       if (process.env.NODE_ENV === 'development') {
+        const { products, totalItems } = mockListProducts({ limit, offset });
         return {
-          items: MOCK_PRODUCTS,
-          totalItems: MOCK_PRODUCTS.length,
+          items: products.map(product => convertProductToProductItem(product, "", locale)),
+          totalItems,
           isPalindrome: false,
-          query: "product",
+          query: "",
         };
       }
       throw new ApiClientError('API base URL not configured', 500, 'Configuration Error');
     }
 
-    // Build request URL for all products using search endpoint
-    const url = new URL('/api/products/search', baseUrl);
     // Use a generic term that should match many products (>3 chars for content search)
-    url.searchParams.set('q', 'product');
-
-    // Create timeout controller
-    const timeoutController = new AbortController();
-    const timeoutId = setTimeout(() => {
-      timeoutController.abort();
-    }, API_CONFIG.timeout);
-
-    // Combine user signal with timeout signal
-    const combinedSignal = signal || timeoutController.signal;
-
-    try {
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: API_CONFIG.headers,
-        signal: combinedSignal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new ApiClientError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          response.status,
-          response.statusText
-        );
-      }
+    const data = await request('/api/products/search', {
+      baseUrl,
+      query: { q: 'product' },
+      signal,
+    });
+
+    return applyPalindromeProcessing(parseResponse(SearchResponseSchema, data, '/api/products/search'), locale);
+  }
+}
 
-      const data: SearchResponse = await response.json();
-      return data;
+/**
+ * Get the catalog listing page starting at `offset` ("load more")
+ *
+ * @param offset - Products already shown
+ * @param signal - AbortSignal for request cancellation
+ * @param locale - Language of the discount explanations (default: DEFAULT_LOCALE)
+ * @returns Promise<ListingPage> - Up to LISTING_PAGE_SIZE products and whether more follow
+ *
+ * @example
+ * ```typescript
+ * const next = await getListingPage(data.items.length, signal, 'es');
+ * setItems(items => [...items, ...next.items]);
+ * ```
+ */
+export async function getListingPage(
+  offset: number,
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<ListingPage> {
+  const page = await fetchProducts({ limit: LISTING_PAGE_SIZE, offset }, signal);
 
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
+  return {
+    items: page.products.map(product => convertProductToProductItem(product, "", locale)),
+    hasNext: page.hasNext,
+    totalItems: page.totalItems,
+  };
+}
 
-      if (fetchError instanceof ApiClientError) {
-        throw fetchError;
-      }
+/**
+ * Page size used when walking the whole catalog (the API's maximum limit)
+ */
+const CATALOG_PAGE_SIZE = 100;
 
-      if (signal?.aborted || timeoutController.signal.aborted) {
-        throw new ApiClientError('Request cancelled', 0, 'Request Cancelled');
-      }
+/**
+ * Visit every catalog product page by page until `visit` returns false or the catalog ends
+ */
+async function walkCatalog(visit: (product: Product) => boolean, signal?: AbortSignal): Promise<void> {
+  let offset = 0;
 
-      if (fetchError instanceof Error) {
-        if (fetchError.name === 'AbortError') {
-          throw new ApiClientError('Request timeout', 0, 'Request Timeout');
-        }
-        if (fetchError.name === 'TypeError' && fetchError.message.includes('fetch')) {
-          throw new ApiClientError('Network error', 0, 'Network Error');
-        }
-        throw new ApiClientError(fetchError.message, 0, 'Unknown Error');
-      }
+  while (true) {
+    const page = await fetchProducts({ limit: CATALOG_PAGE_SIZE, offset }, signal);
 
-      throw new ApiClientError('Unknown error occurred', 0, 'Unknown Error');
+    for (const product of page.products) {
+      if (!visit(product)) return;
     }
+
+    if (!page.hasNext || page.products.length === 0) return;
+    offset += page.products.length;
   }
 }
 
+/**
+ * Get specific products at today's prices (no search query, so no palindrome discount)
+ * Walks /api/products page by page until every id is found or the catalog ends.
+ *
+ * @param ids - Product ids to look up
+ * @param signal - AbortSignal for request cancellation
+ * @param locale - Language of the discount explanations (default: DEFAULT_LOCALE)
+ * @returns Promise<Map<number, ProductItem>> - Found products by id (ids no longer in the catalog are absent)
+ *
+ * @example
+ * ```typescript
+ * const current = await getProductsByIds([3, 42]);
+ * current.get(3)?.finalPrice;
+ * ```
+ */
+export async function getProductsByIds(
+  ids: number[],
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Map<number, ProductItem>> {
+  const wanted = new Set(ids);
+  const found = new Map<number, ProductItem>();
+
+  await walkCatalog(product => {
+    if (wanted.has(product.id)) {
+      found.set(product.id, convertProductToProductItem(product, "", locale));
+    }
+    return found.size < wanted.size;
+  }, signal);
+
+  return found;
+}
+
+/**
+ * Get products of one brand at today's prices
+ * Walks the catalog instead of searching, so a palindromic brand name does not discount them.
+ *
+ * @param brand - Brand name (case-insensitive)
+ * @param limit - Most products to return
+ * @param signal - AbortSignal for request cancellation
+ * @param locale - Language of the discount explanations (default: DEFAULT_LOCALE)
+ * @returns Promise<ProductItem[]> - Products in catalog order
+ */
+export async function getProductsByBrand(
+  brand: string,
+  limit: number,
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<ProductItem[]> {
+  const wanted = brand.toLowerCase();
+  const found: ProductItem[] = [];
+
+  await walkCatalog(product => {
+    if (product.brand.toLowerCase() === wanted) {
+      found.push(convertProductToProductItem(product, "", locale));
+    }
+    return found.length < limit;
+  }, signal);
+
+  return found;
+}
+
+/**
+ * Get every product of a navigation category at today's prices
+ * Walks the whole catalog, since rules like "discounted only" need the priced items.
+ *
+ * @param category - Category from lib/categories
+ * @param signal - AbortSignal for request cancellation
+ * @param locale - Language of the discount explanations (default: DEFAULT_LOCALE)
+ * @returns Promise<SearchResponse> - Matching products in catalog order, with an empty query
+ */
+export async function getProductsByCategory(
+  category: Category,
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<SearchResponse> {
+  const items: ProductItem[] = [];
+
+  await walkCatalog(product => {
+    const item = convertProductToProductItem(product, "", locale);
+    if (matchesCategory(item, category)) {
+      items.push(item);
+    }
+    return true;
+  }, signal);
+
+  return {
+    query: "",
+    isPalindrome: false,
+    items,
+    totalItems: items.length,
+  };
+}
+
 /**
  * Search for products with optional query parameter
  * If no query is provided, returns all products
  * 
  * @param query - Search query (optional)
  * @param signal - AbortSignal for request cancellation
+ * @param locale - Language of the discount explanations (default: DEFAULT_LOCALE)
  * @returns Promise<SearchResponse> - Search results with metadata
  */
-export async function searchProducts(query: string = "", signal?: AbortSignal): Promise<SearchResponse> {
+export async function searchProducts(
+  query: string = "",
+  signal?: AbortSignal,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<SearchResponse> {
   // If no query provided, get all products
   if (!query || query.trim().length === 0) {
-    return getAllProducts(signal);
+    return getAllProducts(signal, locale);
   }
 
   if (query.length > 255) {
     throw new ApiClientError('Query parameter too long (max 255 characters)', 400, 'Bad Request');
   }
 
-  // Get base URL from environment
-  const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
-  
+  const baseUrl = getApiBaseUrl();
   if (!baseUrl) {
     // Development fallback with mock data filtering
     if (process.env.NODE_ENV === 'development') {
-      const queryLower = query.trim().toLowerCase();
-      const filteredItems = MOCK_PRODUCTS.filter(item => 
-        item.title.toLowerCase().includes(queryLower) ||
-        item.brand.toLowerCase().includes(queryLower) ||
-        item.description.toLowerCase().includes(queryLower)
-      );
-      
-      const mockResponse = {
-        query,
-        isPalindrome: isPalindrome(query),
-        items: filteredItems,
-        totalItems: filteredItems.length
-      };
-      
-      return applyPalindromeProcessing(mockResponse);
+      return searchMockProducts(query, locale);
     }
     throw new ApiClientError('API base URL not configured', 500, 'Configuration Error');
   }
 
-  // Build request URL
-  const url = new URL('/api/products/search', baseUrl);
-  url.searchParams.set('q', encodeURIComponent(query.trim()));
-
-  // Create timeout controller
-  const timeoutController = new AbortController();
-  const timeoutId = setTimeout(() => {
-    timeoutController.abort();
-  }, API_CONFIG.timeout);
-
-  // Combine user signal with timeout signal
-  const combinedSignal = signal || timeoutController.signal;
-
   try {
-    // Make HTTP request
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: API_CONFIG.headers,
+    const data = await request('/api/products/search', {
+      baseUrl,
+      query: { q: query.trim() },
       cache: 'no-store',
-      signal: combinedSignal,
+      signal,
     });
 
-    // Clear timeout if request completes
-    clearTimeout(timeoutId);
-
-    // Handle HTTP errors
-    if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}`;
-      let apiError: ApiError | null = null;
-
-      // Try to parse error response
-      try {
-        const contentType = response.headers.get('content-type');
-        if (contentType?.includes('application/json')) {
-          apiError = await response.json() as ApiError;
-          errorMessage = apiError.message || errorMessage;
-        }
-      } catch {
-        // Fallback to status text if JSON parsing fails
-        errorMessage = response.statusText || errorMessage;
-      }
-
-      throw new ApiClientError(
-        errorMessage,
-        response.status,
-        apiError?.error || 'HTTP Error'
-      );
-    }
-
-    // Parse successful response
-    const data = await response.json();
-
     // Validate response structure
-    if (!isValidSearchResponse(data)) {
-      throw new ApiClientError(
-        'Invalid response format from API',
-        500,
-        'Parse Error'
-      );
-    }
+    const searchResponse = parseResponse(SearchResponseSchema, data, '/api/products/search');
 
     // Apply palindrome processing if needed
-    const processedData = applyPalindromeProcessing(data as SearchResponse);
-    return processedData;
+    return applyPalindromeProcessing(searchResponse, locale);
 
   } catch (error) {
-    // Clear timeout on any error
-    clearTimeout(timeoutId);
-
-    // Handle different error types
-    if (error instanceof ApiClientError) {
-      throw error;
+    // Network error - provide fallback in development
+    if (
+      error instanceof ApiClientError &&
+      error.error === 'Network Error' &&
+      process.env.NODE_ENV === 'development'
+    ) {
+      return searchMockProducts(query, locale);
     }
 
-    if (error instanceof Error) {
-      // Handle network errors
-      if (error.name === 'AbortError') {
-        throw new ApiClientError(
-          'Request was cancelled',
-          0,
-          'Request Cancelled'
-        );
-      }
+    throw error;
+  }
+}
 
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        // Network error - provide fallback in development
-        if (process.env.NODE_ENV === 'development') {
-          const queryLower = query.trim().toLowerCase();
-          const filteredItems = MOCK_PRODUCTS.filter(item => 
-            item.title.toLowerCase().includes(queryLower) ||
-            item.brand.toLowerCase().includes(queryLower) ||
-            item.description.toLowerCase().includes(queryLower)
-          );
-          
-          const mockResponse = {
-            query,
-            isPalindrome: isPalindrome(query),
-            items: filteredItems,
-            totalItems: filteredItems.length
-          };
-          
-          return applyPalindromeProcessing(mockResponse);
+/**
+ * Map a search failure onto a user-facing message
+ *
+ * @param err - Error thrown by searchProducts/getAllProducts
+ * @param t - Translator for the shopper's locale
+ * @returns string | null - Message to show, or null for cancelled requests
+ */
+export function getSearchErrorMessage(err: unknown, t: Translator): string | null {
+  let errorMessage = t('errors.generic');
+
+  if (err instanceof ApiClientError) {
+    switch (err.statusCode) {
+      case 400:
+        errorMessage = t('errors.badRequest');
+        break;
+      case 404:
+        errorMessage = t('errors.notFound');
+        break;
+      case 500:
+        errorMessage = t('errors.server');
+        break;
+      case 0:
+        if (err.error === 'Network Error') {
+          errorMessage = t('errors.network');
+        } else if (err.error === 'Request Cancelled') {
+          // Don't show error for cancelled requests
+          return null;
+        } else {
+          errorMessage = t('errors.connection');
         }
-        
-        throw new ApiClientError(
-          'Network error - unable to connect to API',
-          0,
-          'Network Error'
-        );
-      }
-
-      throw new ApiClientError(
-        error.message,
-        0,
-        'Request Error'
-      );
+        break;
+      default:
+        errorMessage = err.message || errorMessage;
     }
-
-    // Fallback for unknown errors with mock data in development
-    if (process.env.NODE_ENV === 'development') {
-      const queryLower = query.trim().toLowerCase();
-      const filteredItems = MOCK_PRODUCTS.filter(item => 
-        item.title.toLowerCase().includes(queryLower) ||
-        item.brand.toLowerCase().includes(queryLower) ||
-        item.description.toLowerCase().includes(queryLower)
-      );
-      
-      const mockResponse = {
-        query,
-        isPalindrome: isPalindrome(query),
-        items: filteredItems,
-        totalItems: filteredItems.length
-      };
-      
-      return applyPalindromeProcessing(mockResponse);
+  } else if (err instanceof Error) {
+    // Request was cancelled, don't show error
+    if (err.name === 'AbortError') {
+      return null;
     }
+    errorMessage = err.message || errorMessage;
+  }
+
+  return errorMessage;
+}
+
+/**
+ * Validate an API payload against its schema
+ * Throws ApiClientError with field-level details when validation fails
+ */
+function parseResponse<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+  const result = validate(schema, data, VALIDATION_MODE);
 
+  if (!result.ok) {
+    const details = result.issues.map(formatIssue);
     throw new ApiClientError(
-      'An unexpected error occurred',
+      `Invalid response format from API: ${details[0]}`,
       500,
-      'Unknown Error'
+      'Parse Error',
+      details
     );
   }
-}
 
-/**
- * Type guard to validate SearchResponse structure
- */
-function isValidSearchResponse(data: unknown): data is SearchResponse {
-  if (!data || typeof data !== 'object') return false;
-  
-  const response = data as Record<string, unknown>;
-  
-  // Check basic structure
-  if (!(typeof response.query === 'string' &&
-        typeof response.isPalindrome === 'boolean' &&
-        Array.isArray(response.items) &&
-        typeof response.totalItems === 'number')) {
-    return false;
+  if (result.issues.length > 0) {
+    console.warn(`[api] ${endpoint} response repaired:`, result.issues.map(formatIssue));
   }
-  
-  // Check items structure
-  const items = response.items as unknown[];
-  
-  return items.every((item: unknown) => {
-    if (!item || typeof item !== 'object') return false;
-    
-    const productItem = item as Record<string, unknown>;
-    return (
-      typeof productItem.id === 'number' &&
-      typeof productItem.title === 'string' &&
-      typeof productItem.brand === 'string' &&
-      typeof productItem.description === 'string' &&
-      typeof productItem.originalPrice === 'number' &&
-      typeof productItem.finalPrice === 'number' &&
-      (productItem.discountPercentage === undefined || typeof productItem.discountPercentage === 'number') &&
-      (productItem.imageUrl === undefined || typeof productItem.imageUrl === 'string')
-    );
-  });
+
+  return result.value;
 }
 
 /**
@@ -422,161 +413,103 @@ export async function fetchProducts(
 ): Promise<ProductsResponse> {
   const { limit = 20, offset = 0 } = params;
   
-  // Get base URL from environment
-  const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
+  const baseUrl = getApiBaseUrl();
   if (!baseUrl) {
     // Development fallback with mock data
     if (process.env.NODE_ENV === 'development') {
-      const totalItems = MOCK_PRODUCTS.length;
-      const startIndex = offset;
-      const endIndex = Math.min(offset + limit, totalItems);
-      const paginatedProducts = MOCK_PRODUCTS.slice(startIndex, endIndex);
-      
-      // Convert ProductItem to Product format for consistency
-      const products: Product[] = paginatedProducts.map(item => ({
-        id: item.id,
-        title: item.title,
-        brand: item.brand,
-        description: item.description,
-        price: item.originalPrice.toString(),
-        imageUrl: item.imageUrl,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }));
-      
-      return {
-        products,
-        totalItems,
-        currentPage: Math.floor(offset / limit) + 1,
-        totalPages: Math.ceil(totalItems / limit),
-        hasNext: endIndex < totalItems,
-        hasPrevious: offset > 0
-      };
+      return mockListProducts({ limit, offset });
     }
     throw new ApiClientError('API base URL not configured', 500, 'Configuration Error');
   }
 
-  // Build request URL
-  const url = new URL('/api/products', baseUrl);
-  if (limit !== 20) url.searchParams.set('limit', limit.toString());
-  if (offset > 0) url.searchParams.set('offset', offset.toString());
-
-  // Create timeout controller
-  const timeoutController = new AbortController();
-  const timeoutId = setTimeout(() => {
-    timeoutController.abort();
-  }, API_CONFIG.timeout);
-
-  // Combine user signal with timeout signal
-  const combinedSignal = signal || timeoutController.signal;
-
-  try {
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: API_CONFIG.headers,
-      signal: combinedSignal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new ApiClientError(
-        `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        response.statusText
-      );
-    }
-
-    const data: ProductsResponse = await response.json();
-    return data;
-
-  } catch (error) {
-    clearTimeout(timeoutId);
-
-    // Handle different error types
-    if (error instanceof ApiClientError) {
-      throw error;
-    }
+  const data = await request('/api/products', {
+    baseUrl,
+    query: {
+      limit: limit !== 20 ? limit : undefined,
+      offset: offset > 0 ? offset : undefined,
+    },
+    signal,
+  });
 
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new ApiClientError(
-          'Request was cancelled',
-          0,
-          'Request Cancelled'
-        );
-      }
+  return parseResponse(ProductsResponseSchema, data, '/api/products');
+}
 
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        throw new ApiClientError(
-          'Network error - unable to connect to API',
-          0,
-          'Network Error'
-        );
+/**
+ * Fetch a single product by id
+ *
+ * @param id - Product id
+ * @param signal - AbortSignal for request cancellation
+ * @throws ApiClientError - statusCode 404 when no product has this id (the message is technical; callers localise it)
+ *
+ * @example
+ * ```typescript
+ * const product = await fetchProductById(42);
+ * const item = convertProductToProductItem(product, 'abba');
+ * ```
+ */
+export async function fetchProductById(id: number, signal?: AbortSignal): Promise<Product> {
+  const baseUrl = getApiBaseUrl();
+  if (!baseUrl) {
+    // Development fallback with mock data
+    if (process.env.NODE_ENV === 'development') {
+      const product = mockGetProduct(id);
+      if (!product) {
+        throw new ApiClientError(`Product ${id} not found`, 404, 'Not Found');
       }
-
-      throw new ApiClientError(
-        error.message,
-        0,
-        'Request Error'
-      );
+      return product;
     }
-
-    throw new ApiClientError(
-      'An unexpected error occurred',
-      500,
-      'Unknown Error'
-    );
+    throw new ApiClientError('API base URL not configured', 500, 'Configuration Error');
   }
+
+  const data = await request(`/api/products/${id}`, { baseUrl, signal });
+  return parseResponse(ProductSchema, data, `/api/products/${id}`);
 }
 
 /**
  * Apply palindrome processing to search response
- * Ensures proper discounts and images for palindrome searches
+ * Reconciles backend and client discount decisions, records every
+ * mismatch, converts prices to Money and ensures all items have images
  */
-function applyPalindromeProcessing(response: SearchResponse): SearchResponse {
-  if (!response.isPalindrome) {
-    // For non-palindrome searches, just ensure all items have images
-    return {
-      ...response,
-      items: response.items.map(item => ({
-        ...item,
-        imageUrl: item.imageUrl || `https://picsum.photos/400/300?random=${item.id}`
-      }))
-    };
+function applyPalindromeProcessing(data: ApiSearchResponse, locale: Locale): SearchResponse {
+  const { response, events } = reconcileSearchResponse(data, RECONCILIATION_MODE, locale);
+
+  if (events.length > 0) {
+    console.warn(`[api] ${events.length} backend/client mismatch(es) for "${data.query}":`, events);
+    reconciliationLog.record(events);
   }
 
-  // For palindrome searches, apply discounts and ensure images
   return {
     ...response,
-    items: response.items.map(item => {
-      const hasDiscount = item.discountPercentage !== undefined && item.finalPrice < item.originalPrice;
-      
-      if (!hasDiscount) {
-        // Apply 50% discount if not already applied by backend
-        return {
-          ...item,
-          finalPrice: item.originalPrice * 0.5,
-          discountPercentage: 50,
-          imageUrl: item.imageUrl || `https://picsum.photos/400/300?random=${item.id}`
-        };
-      }
-      
-      // Just ensure image is present
-      return {
-        ...item,
-        imageUrl: item.imageUrl || `https://picsum.photos/400/300?random=${item.id}`
-      };
-    })
+    items: response.items.map(item => ({
+      ...item,
+      imageUrl: item.imageUrl || `https://picsum.photos/400/300?random=${item.id}`
+    }))
   };
 }
-export function convertProductToProductItem(product: Product, isPalindrome: boolean = false): ProductItem {
+/**
+ * Convert a catalog product into a ProductItem priced by the discount rules
+ *
+ * @param product - Product from /api/products
+ * @param query - Query the product was found with ("" for plain listings)
+ * @param locale - Language of the discount explanation (default: DEFAULT_LOCALE)
+ */
+export function convertProductToProductItem(
+  product: Product,
+  query: string = "",
+  locale: Locale = DEFAULT_LOCALE
+): ProductItem {
   // Generate a fallback image if no imageUrl is provided
   const fallbackImageUrl = `https://picsum.photos/400/300?random=${product.id}`;
   
-  const originalPrice = parseFloat(product.price);
-  const finalPrice = isPalindrome ? originalPrice * 0.5 : originalPrice; // 50% discount for palindromes
-  const discountPercentage = isPalindrome ? 50 : undefined;
+  // price is validated as a numeric string by ProductSchema and parsed digit by digit
+  const originalPrice = fromMajor(product.price);
+  const decision = evaluateDiscount(
+    { title: product.title, brand: product.brand, originalPrice },
+    createDiscountContext(query),
+    getActiveDiscountConfig(),
+    locale
+  );
+  const discountPercentage = decision.percentage > 0 ? decision.percentage : undefined;
   
   return {
     id: product.id,
@@ -584,8 +517,10 @@ export function convertProductToProductItem(product: Product, isPalindrome: bool
     brand: product.brand,
     description: product.description,
     originalPrice,
-    finalPrice,
-    ...(discountPercentage && { discountPercentage }),
-    imageUrl: product.imageUrl || fallbackImageUrl // Siempre asegurar que haya una imagen
+    finalPrice: decision.finalPrice,
+    ...(discountPercentage && { discountPercentage, discountExplanation: decision.explanation }),
+    ...(discountPercentage && decision.endsAt && { discountEndsAt: decision.endsAt }),
+    imageUrl: product.imageUrl || fallbackImageUrl, // Siempre asegurar que haya una imagen
+    createdAt: product.createdAt,
   };
 }
@@ -0,0 +1,209 @@
+import type { ProductItem } from './types';
+import { multiplyMoney, subtractMoney, sumMoney, BASE_CURRENCY, type Money } from './money';
+import { array, number, object, optional, string, validate, type Infer } from './validation';
+
+/**
+ * Shopping cart
+ *
+ * Lines lock in the price shown when the product was added, so a 50%
+ * palindrome price survives later searches, campaign ends and reloads.
+ * All functions are pure; CartProvider persists and shares the state.
+ */
+
+/**
+ * localStorage key of the cart
+ */
+export const CART_STORAGE_KEY = 'palindrome-web:cart';
+
+/**
+ * Most units of one line (keeps totals well inside safe integers)
+ */
+export const MAX_LINE_QUANTITY = 99;
+
+const MoneySchema = object({
+  amount: number({ integer: true }),
+  currency: string(),
+});
+
+/**
+ * A cart line as persisted
+ */
+export const CartLineSchema = object({
+  /** Line identifier: product id plus locked price */
+  id: string(),
+  productId: number({ integer: true }),
+  title: string(),
+  brand: string(),
+  imageUrl: optional(string()),
+  /** Price per unit before discounts */
+  originalPrice: MoneySchema,
+  /** Locked price per unit, as shown when added */
+  unitPrice: MoneySchema,
+  /** Discount shown when added (undefined for full price) */
+  discountPercentage: optional(number({ min: 0 })),
+  /** Search query the product was added from ("" for plain listings) */
+  query: string(),
+  quantity: number({ integer: true, min: 1 }),
+  /** ISO instant the line was first added */
+  addedAt: string(),
+});
+
+/**
+ * Persisted cart payload
+ */
+export const CartStorageSchema = object({
+  lines: array(CartLineSchema),
+});
+
+/**
+ * Single cart line
+ */
+export type CartLine = Infer<typeof CartLineSchema>;
+
+/**
+ * Cart totals, in the catalog currency
+ */
+export interface CartSummary {
+  /** Units across all lines */
+  itemCount: number;
+  /** Sum of original prices */
+  subtotal: Money;
+  /** Savings locked in by discounted lines */
+  discounts: Money;
+  /** Amount to pay */
+  total: Money;
+}
+
+/**
+ * Line id: one line per product and locked price
+ * The same product added at full price and with a palindrome discount stays in two lines.
+ */
+function getLineId(item: ProductItem): string {
+  return `${item.id}:${item.finalPrice.amount}${item.finalPrice.currency}`;
+}
+
+/**
+ * Add a product (or more units of it) to the cart
+ *
+ * @param lines - Current lines
+ * @param item - Product as displayed, with its final price
+ * @param query - Search query the product was found with
+ * @param quantity - Units to add (default: 1)
+ * @returns CartLine[] - New lines (input is not mutated)
+ *
+ * @example
+ * ```typescript
+ * const lines = addToCart([], item, 'abba'); // item.finalPrice locked as unitPrice
+ * ```
+ */
+export function addToCart(lines: CartLine[], item: ProductItem, query: string, quantity: number = 1): CartLine[] {
+  const id = getLineId(item);
+  const existing = lines.find(line => line.id === id);
+
+  if (existing) {
+    return updateQuantity(lines, id, existing.quantity + quantity);
+  }
+
+  return [
+    ...lines,
+    {
+      id,
+      productId: item.id,
+      title: item.title,
+      brand: item.brand,
+      imageUrl: item.imageUrl,
+      originalPrice: item.originalPrice,
+      unitPrice: item.finalPrice,
+      discountPercentage: item.discountPercentage,
+      query: query.trim(),
+      quantity: Math.min(Math.max(1, Math.floor(quantity)), MAX_LINE_QUANTITY),
+      addedAt: new Date().toISOString(),
+    },
+  ];
+}
+
+/**
+ * Set the quantity of a line; 0 or less removes it
+ */
+export function updateQuantity(lines: CartLine[], lineId: string, quantity: number): CartLine[] {
+  if (quantity <= 0) {
+    return removeFromCart(lines, lineId);
+  }
+
+  const clamped = Math.min(Math.floor(quantity), MAX_LINE_QUANTITY);
+  return lines.map(line => (line.id === lineId ? { ...line, quantity: clamped } : line));
+}
+
+/**
+ * Remove a line
+ */
+export function removeFromCart(lines: CartLine[], lineId: string): CartLine[] {
+  return lines.filter(line => line.id !== lineId);
+}
+
+/**
+ * Total of one line at its locked price
+ */
+export function getLineTotal(line: CartLine): Money {
+  return multiplyMoney(line.unitPrice, line.quantity);
+}
+
+/**
+ * Compute cart totals
+ *
+ * @example
+ * ```typescript
+ * const { subtotal, discounts, total } = summarizeCart(lines);
+ * ```
+ */
+export function summarizeCart(lines: CartLine[]): CartSummary {
+  const currency = lines[0]?.unitPrice.currency ?? BASE_CURRENCY;
+  const subtotal = sumMoney(lines.map(line => multiplyMoney(line.originalPrice, line.quantity)), currency);
+  const total = sumMoney(lines.map(getLineTotal), currency);
+
+  return {
+    itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+    subtotal,
+    discounts: subtractMoney(subtotal, total),
+    total,
+  };
+}
+
+/**
+ * Keep lines that can be totalled together: prices in the first line's
+ * currency, quantities within MAX_LINE_QUANTITY
+ */
+function keepSummableLines(lines: CartLine[]): CartLine[] {
+  const currency = lines[0]?.unitPrice.currency;
+  return lines.filter(line =>
+    line.unitPrice.currency === currency
+    && line.originalPrice.currency === currency
+    && line.quantity <= MAX_LINE_QUANTITY
+  );
+}
+
+/**
+ * Parse a persisted cart
+ * Malformed lines are dropped, and so are lines summarizeCart could not
+ * total (another currency, edited quantities); unreadable payloads yield
+ * an empty cart.
+ *
+ * @param raw - localStorage value (null when absent)
+ */
+export function parseStoredCart(raw: string | null): CartLine[] {
+  if (!raw) return [];
+
+  try {
+    const result = validate(CartStorageSchema, JSON.parse(raw), 'lenient');
+    return result.ok ? keepSummableLines(result.value.lines) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serialise lines for localStorage
+ */
+export function serializeCart(lines: CartLine[]): string {
+  return JSON.stringify({ lines });
+}
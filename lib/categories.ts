@@ -0,0 +1,93 @@
+import type { ProductItem } from './types';
+
+/**
+ * Storefront categories shown in the navigation
+ * One config drives the nav links, the /[locale]/category/[slug] pages, their
+ * filtering and the discount rules' `excludeCategories`.
+ */
+
+/**
+ * Which products a category lists
+ * Every criterion given must hold; omitted criteria match everything.
+ */
+export interface CategoryRule {
+  /** Title keywords (case-insensitive), any of which must appear */
+  keywords?: string[];
+  /** Brands (case-insensitive), one of which must match */
+  brands?: string[];
+  /** Only products with a discount at today's prices */
+  discountedOnly?: boolean;
+}
+
+/**
+ * Storefront category
+ */
+export interface Category {
+  /** URL segment, also the catalog key under nav.categories */
+  slug: CategorySlug;
+  /** Products the category lists */
+  rule: CategoryRule;
+}
+
+/**
+ * Category slugs in navigation order
+ */
+export const CATEGORY_SLUGS = ['rackets', 'balls', 'shoes', 'accessories', 'deals'] as const;
+export type CategorySlug = typeof CATEGORY_SLUGS[number];
+
+/**
+ * Navigation categories
+ * Keywords follow the mock catalog titles ("Raqueta Wilson Pro Staff 97 2023")
+ */
+export const CATEGORIES: readonly Category[] = [
+  { slug: 'rackets', rule: { keywords: ['raqueta'] } },
+  { slug: 'balls', rule: { keywords: ['pelota'] } },
+  { slug: 'shoes', rule: { keywords: ['zapatilla'] } },
+  { slug: 'accessories', rule: { keywords: ['cordaje', 'mochila', 'grip'] } },
+  { slug: 'deals', rule: { discountedOnly: true } },
+];
+
+/**
+ * Look up a category by its URL segment
+ *
+ * @param slug - Segment from /[locale]/category/[slug]
+ * @returns Category | undefined - undefined for unknown slugs
+ */
+export function getCategory(slug: string): Category | undefined {
+  return CATEGORIES.find(category => category.slug === slug);
+}
+
+/**
+ * Check whether a product belongs to a category
+ *
+ * Items without a discount yet (the discount engine deciding one) never
+ * match `discountedOnly` categories.
+ *
+ * @param item - Product at today's prices, or a title and brand
+ * @param category - Category to test
+ * @returns boolean - True when every criterion of the rule holds
+ *
+ * @example
+ * ```typescript
+ * const deals = getCategory('deals')!;
+ * items.filter(item => matchesCategory(item, deals));
+ * ```
+ */
+export function matchesCategory(
+  item: Pick<ProductItem, 'title' | 'brand'> & Partial<Pick<ProductItem, 'discountPercentage'>>,
+  { rule }: Category
+): boolean {
+  const title = item.title.toLowerCase();
+  const brand = item.brand.toLowerCase();
+
+  if (rule.keywords && !rule.keywords.some(keyword => title.includes(keyword.toLowerCase()))) {
+    return false;
+  }
+  if (rule.brands && !rule.brands.some(name => name.toLowerCase() === brand)) {
+    return false;
+  }
+  if (rule.discountedOnly && !item.discountPercentage) {
+    return false;
+  }
+  return true;
+}
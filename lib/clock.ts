@@ -0,0 +1,35 @@
+/**
+ * Source of the current time
+ */
+export type Clock = () => Date;
+
+/**
+ * Fixed instant for deterministic runs (e.g. NEXT_PUBLIC_NOW=2026-11-21T12:00:00-06:00 for Cypress)
+ */
+const FIXED_NOW = process.env.NEXT_PUBLIC_NOW;
+
+const systemClock: Clock = () => (FIXED_NOW ? new Date(FIXED_NOW) : new Date());
+
+let currentClock: Clock = systemClock;
+
+/**
+ * Current time from the injectable clock
+ * Everything time-dependent (campaigns, countdowns) reads time through here
+ */
+export function now(): Date {
+  return currentClock();
+}
+
+/**
+ * Replace the clock, or restore the system clock with `null`
+ *
+ * @example
+ * ```typescript
+ * setClock(() => new Date('2022-02-02T12:00:00Z'));
+ * resolveActiveCampaigns(now());
+ * setClock(null);
+ * ```
+ */
+export function setClock(clock: Clock | null): void {
+  currentClock = clock ?? systemClock;
+}
@@ -0,0 +1,73 @@
+import { BASE_CURRENCY, type CurrencyCode } from '../money';
+import type { LocalizedText } from '../i18n/config';
+import rates from './rates.json';
+
+/**
+ * Display currencies and exchange rates
+ *
+ * Prices stay in BASE_CURRENCY (the backend catalog currency) and are
+ * only converted for display. Rates come from `rates.json`, shipped with
+ * the app and versioned by date; update it and bump `version` to reprice.
+ */
+
+/**
+ * Currency offered in the selector
+ */
+export interface CurrencyOption {
+  /** ISO 4217 code */
+  code: CurrencyCode;
+  /** Name shown in the selector, per locale (e.g. "Peso mexicano") */
+  label: LocalizedText;
+  /** Locale used to format amounts in this currency */
+  locale: string;
+}
+
+/**
+ * Versioned exchange-rate table
+ */
+export interface ExchangeRateTable {
+  /** Date the rates were taken (YYYY-MM-DD) */
+  version: string;
+  /** Currency every rate is quoted against */
+  base: CurrencyCode;
+  /** Units of each currency per one unit of `base` */
+  rates: Record<CurrencyCode, number>;
+}
+
+/**
+ * Currencies shoppers can display prices in, in selector order
+ */
+export const SUPPORTED_CURRENCIES: CurrencyOption[] = [
+  { code: 'MXN', label: { es: 'Peso mexicano', en: 'Mexican peso' }, locale: 'es-MX' },
+  { code: 'USD', label: { es: 'Dólar estadounidense', en: 'US dollar' }, locale: 'en-US' },
+  { code: 'EUR', label: { es: 'Euro', en: 'Euro' }, locale: 'es-ES' },
+];
+
+/**
+ * Currency shown until the shopper picks one
+ */
+export const DEFAULT_DISPLAY_CURRENCY: CurrencyCode = BASE_CURRENCY;
+
+/**
+ * Exchange rates shipped with the app
+ */
+export const EXCHANGE_RATES: ExchangeRateTable = rates;
+
+/**
+ * localStorage key of the shopper's currency choice
+ */
+export const CURRENCY_STORAGE_KEY = 'palindrome-web:currency';
+
+/**
+ * Whether a code is one of SUPPORTED_CURRENCIES
+ */
+export function isSupportedCurrency(code: string | null | undefined): code is CurrencyCode {
+  return SUPPORTED_CURRENCIES.some(option => option.code === code);
+}
+
+/**
+ * Formatting locale for a currency (es-MX for unknown codes)
+ */
+export function getCurrencyLocale(code: CurrencyCode): string {
+  return SUPPORTED_CURRENCIES.find(option => option.code === code)?.locale ?? 'es-MX';
+}
@@ -0,0 +1,44 @@
+import { getMinorUnitDigits, money, MoneyError, roundMinorUnits, type CurrencyCode, type Money, type RoundingMode } from '../money';
+import { EXCHANGE_RATES, type ExchangeRateTable } from './config';
+
+/**
+ * Units of `currency` per unit of the table's base currency
+ */
+function getRate(currency: CurrencyCode, table: ExchangeRateTable): number {
+  const rate = currency === table.base ? 1 : table.rates[currency];
+  if (!rate || rate <= 0) {
+    throw new MoneyError(`No exchange rate for ${currency} (rates ${table.version})`);
+  }
+  return rate;
+}
+
+/**
+ * Convert an amount into another currency
+ *
+ * Works in minor units and rounds once, at the end.
+ *
+ * @param value - Amount to convert
+ * @param to - Target currency
+ * @param table - Exchange rates (default: EXCHANGE_RATES)
+ * @param mode - Rounding mode for the converted amount (default: half-even)
+ *
+ * @example
+ * ```typescript
+ * convertMoney(money(100000), 'USD'); // { amount: 5420, currency: "USD" } with USD at 0.0542
+ * ```
+ */
+export function convertMoney(
+  value: Money,
+  to: CurrencyCode,
+  table: ExchangeRateTable = EXCHANGE_RATES,
+  mode: RoundingMode = 'half-even'
+): Money {
+  if (value.currency === to) {
+    return value;
+  }
+
+  const factor = getRate(to, table) / getRate(value.currency, table);
+  const scale = 10 ** (getMinorUnitDigits(to) - getMinorUnitDigits(value.currency));
+
+  return money(roundMinorUnits(value.amount * factor * scale, mode), to);
+}
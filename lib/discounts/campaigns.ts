@@ -0,0 +1,187 @@
+import { now } from '../clock';
+import { isPalindrome } from '../palindrome';
+import { mapLocalized } from '../i18n/config';
+import { CAMPAIGNS, DISCOUNT_CONFIG } from './config';
+import type { ActiveCampaign, Campaign, DiscountConfig } from './types';
+
+/**
+ * Calendar date in a time zone
+ */
+interface ZonedDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Offset of `timeZone` from UTC at `date`, in milliseconds
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Calendar date of an instant in a time zone
+ */
+function getZonedDate(date: Date, timeZone: string): ZonedDate {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMs(date, timeZone));
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate() };
+}
+
+/**
+ * Convert a wall-clock time in a time zone into an instant
+ * Strings that already carry an offset ("Z", "+02:00") are parsed as-is.
+ *
+ * @example
+ * ```typescript
+ * zonedTimeToInstant('2026-11-20T00:00', 'America/Mexico_City').toISOString();
+ * // "2026-11-20T06:00:00.000Z"
+ * ```
+ */
+export function zonedTimeToInstant(local: string, timeZone: string): Date {
+  if (/([zZ]|[+-]\d{2}:?\d{2})$/.test(local)) {
+    return new Date(local);
+  }
+
+  const [datePart, timePart = '00:00'] = local.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = timePart.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Two passes settle the offset around DST transitions
+  const firstGuess = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  return new Date(wallClockAsUtc - getTimeZoneOffsetMs(new Date(firstGuess), timeZone));
+}
+
+/**
+ * Whether a calendar date reads as a palindrome in a common notation
+ * Checks d/m/yy, d/m/yyyy, dd/mm/yyyy and yyyy-mm-dd (e.g. 2/2/22, 22/02/2022)
+ */
+export function isPalindromeDate({ year, month, day }: ZonedDate): boolean {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const shortYear = pad(year % 100);
+
+  return [
+    `${day}/${month}/${shortYear}`,
+    `${day}/${month}/${year}`,
+    `${pad(day)}/${pad(month)}/${year}`,
+    `${year}-${pad(month)}-${pad(day)}`,
+  ].some(isPalindrome);
+}
+
+/**
+ * Resolve one campaign at an instant
+ */
+function resolveCampaign(campaign: Campaign, at: Date): ActiveCampaign | null {
+  const windowStart = zonedTimeToInstant(campaign.startsAt, campaign.timeZone);
+  const windowEnd = zonedTimeToInstant(campaign.endsAt, campaign.timeZone);
+
+  if (at < windowStart || at >= windowEnd) {
+    return null;
+  }
+
+  if (campaign.recurrence === 'palindrome-date') {
+    const today = getZonedDate(at, campaign.timeZone);
+    if (!isPalindromeDate(today)) {
+      return null;
+    }
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const nextDay = new Date(Date.UTC(today.year, today.month - 1, today.day + 1));
+    const dayStart = zonedTimeToInstant(`${today.year}-${pad(today.month)}-${pad(today.day)}T00:00`, campaign.timeZone);
+    const dayEnd = zonedTimeToInstant(
+      `${nextDay.getUTCFullYear()}-${pad(nextDay.getUTCMonth() + 1)}-${pad(nextDay.getUTCDate())}T00:00`,
+      campaign.timeZone
+    );
+
+    return {
+      campaign,
+      startsAt: dayStart < windowStart ? windowStart : dayStart,
+      endsAt: dayEnd > windowEnd ? windowEnd : dayEnd,
+    };
+  }
+
+  return { campaign, startsAt: windowStart, endsAt: windowEnd };
+}
+
+/**
+ * Campaigns active at an instant, soonest-ending first
+ *
+ * @param at - Instant to resolve (default: the injectable clock)
+ * @param campaigns - Registry (default: CAMPAIGNS)
+ *
+ * @example
+ * ```typescript
+ * resolveActiveCampaigns(new Date('2026-11-21T18:00:00Z')).map(active => active.campaign.id);
+ * // ["double-palindrome-weekend"]
+ * ```
+ */
+export function resolveActiveCampaigns(at: Date = now(), campaigns: Campaign[] = CAMPAIGNS): ActiveCampaign[] {
+  return campaigns
+    .map(campaign => resolveCampaign(campaign, at))
+    .filter((active): active is ActiveCampaign => active !== null)
+    .sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime());
+}
+
+/**
+ * Layer active campaigns on top of a discount configuration
+ *
+ * - `multiplier` scales the percentages of the base rules
+ * - `rules` are appended
+ * - `stacking` overrides the stacking policy
+ * Every touched rule records the campaign id and end instant.
+ */
+export function applyCampaigns(config: DiscountConfig, active: ActiveCampaign[]): DiscountConfig {
+  return active.reduce<DiscountConfig>((current, { campaign, endsAt }) => {
+    const end = endsAt.toISOString();
+    const earliestEnd = (existing?: string) => (existing && existing < end ? existing : end);
+
+    const { multiplier } = campaign;
+    const rules = multiplier
+      ? current.rules.map(rule => ({
+          ...rule,
+          label: mapLocalized(rule.label, (label, locale) => `${label} (${campaign.badgeLabel[locale]})`),
+          tiers: rule.tiers.map(tier => ({ ...tier, percentage: tier.percentage * multiplier })),
+          campaignId: rule.campaignId ?? campaign.id,
+          endsAt: earliestEnd(rule.endsAt),
+        }))
+      : current.rules;
+
+    return {
+      ...current,
+      stacking: campaign.stacking ?? current.stacking,
+      rules: [
+        ...rules,
+        ...(campaign.rules ?? []).map(rule => ({ ...rule, campaignId: campaign.id, endsAt: end })),
+      ],
+    };
+  }, config);
+}
+
+/**
+ * Discount configuration in effect at an instant
+ *
+ * @param at - Instant to resolve (default: the injectable clock)
+ *
+ * @example
+ * ```typescript
+ * evaluateDiscount(item, createDiscountContext(query), getActiveDiscountConfig());
+ * ```
+ */
+export function getActiveDiscountConfig(at: Date = now()): DiscountConfig {
+  return applyCampaigns(DISCOUNT_CONFIG, resolveActiveCampaigns(at));
+}
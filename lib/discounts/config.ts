@@ -0,0 +1,78 @@
+import type { Campaign, DiscountConfig } from './types';
+
+/**
+ * Discount rules configuration
+ *
+ * The default mirrors the backend (prompts/api.md): every palindrome
+ * search gets 50% off. Tiers, exclusions, price bounds and caps are
+ * available per rule, e.g.
+ *
+ * ```typescript
+ * {
+ *   id: 'palindrome-long',
+ *   label: { es: 'Palíndromo largo', en: 'Long palindrome' },
+ *   tiers: [{ minLength: 2, percentage: 30 }, { minLength: 9, percentage: 60 }],
+ *   excludeBrands: ['Luxilon'],
+ *   excludeCategories: ['accessories'],
+ *   minPrice: 200,
+ *   maxDiscountAmount: 1500,
+ * }
+ * ```
+ */
+export const DISCOUNT_CONFIG: DiscountConfig = {
+  rules: [
+    {
+      id: 'palindrome',
+      label: { es: 'Descuento palíndromo', en: 'Palindrome discount' },
+      requiresPalindrome: true,
+      tiers: [{ minLength: 2, percentage: 50 }],
+      excludeBrands: [],
+      excludeCategories: [],
+    },
+  ],
+  stacking: 'best',
+  maxTotalPercentage: 90,
+  // 'half-up' or 'psychological' ($249.99) are also available
+  rounding: 'half-even',
+};
+
+/**
+ * Scheduled campaigns, resolved against the clock at render time
+ *
+ * Wall-clock times are interpreted in each campaign's time zone.
+ */
+export const CAMPAIGNS: Campaign[] = [
+  {
+    id: 'double-palindrome-weekend',
+    message: {
+      es: 'Fin de semana doble palíndromo: descuentos x2 en búsquedas palíndromo',
+      en: 'Double palindrome weekend: x2 discounts on palindrome searches',
+    },
+    badgeLabel: { es: 'Doble palíndromo', en: 'Double palindrome' },
+    startsAt: '2026-11-20T00:00',
+    endsAt: '2026-11-23T00:00',
+    timeZone: 'America/Mexico_City',
+    multiplier: 2,
+  },
+  {
+    id: 'palindrome-date',
+    message: {
+      es: '¡Hoy es una fecha palíndroma! 10% extra en toda la tienda',
+      en: 'Today is a palindrome date! 10% extra storewide',
+    },
+    badgeLabel: { es: 'Fecha palíndroma', en: 'Palindrome date' },
+    startsAt: '2026-01-01T00:00',
+    endsAt: '2030-01-01T00:00',
+    timeZone: 'America/Mexico_City',
+    recurrence: 'palindrome-date',
+    stacking: 'compound',
+    rules: [
+      {
+        id: 'palindrome-date-bonus',
+        label: { es: 'Fecha palíndroma', en: 'Palindrome date' },
+        requiresPalindrome: false,
+        tiers: [{ minLength: 0, percentage: 10 }],
+      },
+    ],
+  },
+];
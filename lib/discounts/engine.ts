@@ -0,0 +1,273 @@
+import { checkPalindrome, PALINDROME_RULES } from '../palindrome';
+import { formatCurrency } from '../format';
+import { fromMajor, money, roundMinorUnits } from '../money';
+import { DEFAULT_LOCALE, type Locale } from '../i18n/config';
+import { getTranslator, type Translator } from '../i18n/translator';
+import { CATEGORIES, matchesCategory, type CategorySlug } from '../categories';
+import { DISCOUNT_CONFIG } from './config';
+import type {
+  DiscountableItem,
+  DiscountConfig,
+  DiscountContext,
+  DiscountDecision,
+  DiscountRule,
+  RuleOutcome,
+} from './types';
+
+/**
+ * Build the query-level context for the rules
+ *
+ * @param query - Search query
+ * @param isPalindrome - Verdict to trust instead of the client's own (e.g. the backend's)
+ *
+ * @example
+ * ```typescript
+ * createDiscountContext('Anita lava la tina'); // { isPalindrome: true, palindromeLength: 15 }
+ * createDiscountContext('abba', false);        // { isPalindrome: false, palindromeLength: 0 }
+ * ```
+ */
+export function createDiscountContext(query: string, isPalindrome?: boolean): DiscountContext {
+  const result = checkPalindrome(query);
+  const palindrome = isPalindrome ?? result.isPalindrome;
+
+  return {
+    isPalindrome: palindrome,
+    // A palindrome verdict from elsewhere still reaches the lowest tier
+    palindromeLength: palindrome ? Math.max(result.normalized.length, PALINDROME_RULES.minLength) : 0,
+  };
+}
+
+/**
+ * Find the navigation categories a product belongs to (the same ones its category pages use)
+ */
+function getItemCategories(item: DiscountableItem): CategorySlug[] {
+  return CATEGORIES.filter(category => matchesCategory(item, category)).map(({ slug }) => slug);
+}
+
+/**
+ * Evaluate one rule for one item
+ */
+function evaluateRule(
+  rule: DiscountRule,
+  item: DiscountableItem,
+  context: DiscountContext,
+  t: Translator
+): RuleOutcome {
+  const skip = (explanation: string): RuleOutcome => ({ ruleId: rule.id, percentage: 0, explanation });
+  const label = rule.label[t.locale];
+
+  if ((rule.requiresPalindrome ?? true) && !context.isPalindrome) {
+    return skip(t('discounts.notPalindrome', { rule: label }));
+  }
+
+  const brand = item.brand.toLowerCase();
+  if (rule.excludeBrands?.some(excluded => excluded.toLowerCase() === brand)) {
+    return skip(t('discounts.brandExcluded', { rule: label, brand: item.brand }));
+  }
+
+  const excludedCategory = getItemCategories(item).find(slug => rule.excludeCategories?.includes(slug));
+  if (excludedCategory) {
+    return skip(t('discounts.categoryExcluded', { rule: label, category: t(`nav.categories.${excludedCategory}`) }));
+  }
+
+  const { currency } = item.originalPrice;
+  if (rule.minPrice !== undefined && item.originalPrice.amount < fromMajor(rule.minPrice, currency).amount) {
+    return skip(t('discounts.minPrice', { rule: label, amount: formatCurrency(fromMajor(rule.minPrice, currency)) }));
+  }
+
+  if (rule.maxPrice !== undefined && item.originalPrice.amount > fromMajor(rule.maxPrice, currency).amount) {
+    return skip(t('discounts.maxPrice', { rule: label, amount: formatCurrency(fromMajor(rule.maxPrice, currency)) }));
+  }
+
+  // Highest tier reached by the palindrome length (tiers need not be sorted)
+  const length = context.palindromeLength;
+  const tier = rule.tiers
+    .filter(candidate => length >= candidate.minLength)
+    .sort((a, b) => b.minLength - a.minLength)[0];
+
+  if (!tier) {
+    const shortest = Math.min(...rule.tiers.map(candidate => candidate.minLength));
+    return skip(t('discounts.minLength', { rule: label, length: shortest }));
+  }
+
+  const explanation = (rule.requiresPalindrome ?? true)
+    ? t('discounts.appliedPalindrome', { rule: label, percent: tier.percentage, length })
+    : t('discounts.applied', { rule: label, percent: tier.percentage });
+  return {
+    ruleId: rule.id,
+    percentage: tier.percentage,
+    maxDiscountAmount: rule.maxDiscountAmount,
+    endsAt: rule.endsAt,
+    explanation,
+  };
+}
+
+/**
+ * Decide the discount for one item
+ *
+ * Features:
+ * - Tiers by palindrome length
+ * - Brand and category exclusions
+ * - Minimum/maximum price bounds
+ * - Per-item discount amount caps
+ * - Stacking policy (best, additive, compound) with a global percentage cap
+ * - Integer minor-unit arithmetic with the configured rounding mode
+ * - Explanation for every rule outcome, in the requested locale
+ * - End instant of the earliest-ending campaign rule, for countdowns
+ *
+ * @param item - Product to price
+ * @param context - Query context from createDiscountContext
+ * @param config - Rules configuration (default: DISCOUNT_CONFIG)
+ * @param locale - Language of the explanations (default: DEFAULT_LOCALE)
+ * @returns DiscountDecision - Percentage, final price and explanations
+ *
+ * @example
+ * ```typescript
+ * const decision = evaluateDiscount(item, createDiscountContext('abba'));
+ * decision.percentage;  // 50
+ * decision.explanation; // "Descuento palíndromo: 50% de descuento (palíndromo de 4 caracteres)"
+ * ```
+ */
+export function evaluateDiscount(
+  item: DiscountableItem,
+  context: DiscountContext,
+  config: DiscountConfig = DISCOUNT_CONFIG,
+  locale: Locale = DEFAULT_LOCALE
+): DiscountDecision {
+  const t = getTranslator(locale);
+  const outcomes = config.rules.map(rule => evaluateRule(rule, item, context, t));
+  const applied = outcomes.filter(outcome => outcome.percentage > 0);
+  const { currency } = item.originalPrice;
+  // Everything below is in minor units; rounding happens once, on the final price
+  const original = item.originalPrice.amount;
+
+  if (applied.length === 0 || original <= 0) {
+    return {
+      percentage: 0,
+      finalPrice: item.originalPrice,
+      outcomes,
+      explanation: outcomes.map(outcome => outcome.explanation).join('; '),
+    };
+  }
+
+  const notes: string[] = [];
+  const capFor = (outcome: RuleOutcome) =>
+    outcome.maxDiscountAmount !== undefined ? fromMajor(outcome.maxDiscountAmount, currency).amount : Infinity;
+  const capped = (amount: number, outcome: RuleOutcome) => {
+    const cap = capFor(outcome);
+    if (amount > cap) {
+      notes.push(t('discounts.itemCap', { amount: formatCurrency(money(cap, currency)) }));
+      return cap;
+    }
+    return amount;
+  };
+
+  let amount = 0;
+  let contributing = applied;
+  switch (config.stacking) {
+    case 'best': {
+      // Largest amount after each rule's own cap wins
+      const best = applied
+        .map(outcome => ({ outcome, amount: Math.min(original * outcome.percentage / 100, capFor(outcome)) }))
+        .sort((a, b) => b.amount - a.amount)[0];
+      amount = capped(original * best.outcome.percentage / 100, best.outcome);
+      contributing = [best.outcome];
+      break;
+    }
+    case 'additive':
+      amount = applied.reduce((total, outcome) => total + capped(original * outcome.percentage / 100, outcome), 0);
+      break;
+    case 'compound': {
+      let remaining = original;
+      for (const outcome of applied) {
+        const step = capped(remaining * outcome.percentage / 100, outcome);
+        remaining -= step;
+        amount += step;
+      }
+      break;
+    }
+  }
+
+  const maxAmount = original * config.maxTotalPercentage / 100;
+  if (amount > maxAmount) {
+    notes.push(t('discounts.totalCap', { percent: config.maxTotalPercentage }));
+    amount = maxAmount;
+  }
+
+  // Psychological rounding can round up, but never above the original price
+  const finalAmount = Math.min(original, roundMinorUnits(original - amount, config.rounding));
+  const endsAt = contributing
+    .map(outcome => outcome.endsAt)
+    .filter((end): end is string => end !== undefined)
+    .sort()[0];
+
+  return {
+    percentage: Math.round((1 - finalAmount / original) * 100),
+    finalPrice: money(finalAmount, currency),
+    outcomes,
+    explanation: [...contributing.map(outcome => outcome.explanation), ...notes].join('; '),
+    ...(endsAt && { endsAt }),
+  };
+}
+
+/**
+ * Highest percentage the configuration can grant, for promotional copy
+ *
+ * @example
+ * ```typescript
+ * `obtén hasta ${getMaxDiscountPercentage()}% de descuento`
+ * ```
+ */
+export function getMaxDiscountPercentage(config: DiscountConfig = DISCOUNT_CONFIG): number {
+  const perRule = config.rules
+    .map(rule => Math.max(0, ...rule.tiers.map(tier => tier.percentage)))
+    .filter(percentage => percentage > 0);
+
+  let total = 0;
+  switch (config.stacking) {
+    case 'best':
+      total = Math.max(0, ...perRule);
+      break;
+    case 'additive':
+      total = perRule.reduce((sum, percentage) => sum + percentage, 0);
+      break;
+    case 'compound':
+      total = 100 * (1 - perRule.reduce((remaining, percentage) => remaining * (1 - percentage / 100), 1));
+      break;
+  }
+
+  return Math.round(Math.min(total, config.maxTotalPercentage));
+}
+
+/**
+ * Discount summary for a result set, for banners
+ */
+export interface DiscountSummary {
+  /** Highest percentage among the items (0 when none is discounted) */
+  maxPercentage: number;
+  /** Number of discounted items */
+  discountedCount: number;
+  /** Whether every item has the same, non-zero discount */
+  uniform: boolean;
+}
+
+/**
+ * Summarise the discounts actually applied to a list of items
+ *
+ * @example
+ * ```typescript
+ * const { maxPercentage, uniform } = summarizeDiscounts(data.items);
+ * ```
+ */
+export function summarizeDiscounts(items: Array<{ discountPercentage?: number }>): DiscountSummary {
+  const percentages = items.map(item => item.discountPercentage ?? 0).filter(percentage => percentage > 0);
+  const maxPercentage = Math.max(0, ...percentages);
+
+  return {
+    maxPercentage,
+    discountedCount: percentages.length,
+    uniform: percentages.length > 0 &&
+      percentages.length === items.length &&
+      percentages.every(percentage => percentage === maxPercentage),
+  };
+}
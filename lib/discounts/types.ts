@@ -0,0 +1,166 @@
+/**
+ * Types for the discount rules engine
+ *
+ * Rules are plain data (see config.ts) so new promotions are
+ * configuration changes, not code changes.
+ */
+
+import type { Money, RoundingMode } from '../money';
+import type { LocalizedText } from '../i18n/config';
+import type { CategorySlug } from '../categories';
+
+/**
+ * Percentage granted from a minimum normalised palindrome length upwards
+ */
+export interface DiscountTier {
+  /** Normalised palindrome length this tier starts at (inclusive); 0 for flat promotions */
+  minLength: number;
+  /** Discount percentage (0-100) */
+  percentage: number;
+}
+
+/**
+ * A single discount rule
+ */
+export interface DiscountRule {
+  /** Stable identifier, used in explanations and logs */
+  id: string;
+  /** Short label shown to shoppers, per locale (e.g. "Descuento palíndromo") */
+  label: LocalizedText;
+  /** Only applies when the query is a palindrome (default: true) */
+  requiresPalindrome?: boolean;
+  /** Tiers by palindrome length; the highest tier reached wins */
+  tiers: DiscountTier[];
+  /** Brands that never get this discount (case-insensitive) */
+  excludeBrands?: string[];
+  /** Navigation categories (lib/categories) that never get this discount */
+  excludeCategories?: CategorySlug[];
+  /** Items cheaper than this are not discounted (major units, e.g. pesos) */
+  minPrice?: number;
+  /** Items more expensive than this are not discounted (major units) */
+  maxPrice?: number;
+  /** Largest discount amount per item (major units) */
+  maxDiscountAmount?: number;
+  /** Campaign that added or modified this rule (set by applyCampaigns) */
+  campaignId?: string;
+  /** ISO instant when the rule stops applying (set by applyCampaigns) */
+  endsAt?: string;
+}
+
+/**
+ * How several matching rules combine
+ * - best: only the highest percentage applies
+ * - additive: percentages are summed (20% + 10% = 30%)
+ * - compound: applied one after another (20% then 10% = 28%)
+ */
+export type StackingPolicy = 'best' | 'additive' | 'compound';
+
+/**
+ * Full discount configuration
+ */
+export interface DiscountConfig {
+  /** Rules evaluated in order */
+  rules: DiscountRule[];
+  /** How matching rules combine */
+  stacking: StackingPolicy;
+  /** Upper bound for the combined percentage */
+  maxTotalPercentage: number;
+  /** How discounted prices are rounded to minor units */
+  rounding: RoundingMode;
+}
+
+/**
+ * Query-level facts the rules depend on
+ */
+export interface DiscountContext {
+  /** Whether the query counts as a palindrome */
+  isPalindrome: boolean;
+  /** Normalised palindrome length (0 when not a palindrome) */
+  palindromeLength: number;
+}
+
+/**
+ * Item fields the rules look at
+ */
+export interface DiscountableItem {
+  title: string;
+  brand: string;
+  originalPrice: Money;
+}
+
+/**
+ * Outcome of one rule for one item
+ */
+export interface RuleOutcome {
+  ruleId: string;
+  /** Percentage granted (0 when the rule did not apply) */
+  percentage: number;
+  /** Cap applied by the rule, if any (major units) */
+  maxDiscountAmount?: number;
+  /** ISO instant when the rule expires (campaign rules only) */
+  endsAt?: string;
+  /** Explanation of why the rule did or did not apply, in the requested locale */
+  explanation: string;
+}
+
+/**
+ * Final discount decision for one item
+ */
+export interface DiscountDecision {
+  /** Effective percentage after stacking and caps (rounded) */
+  percentage: number;
+  /** Price after discount, rounded with the configured rounding mode */
+  finalPrice: Money;
+  /** Every rule's outcome, in config order */
+  outcomes: RuleOutcome[];
+  /** Explanations of the rules that applied, plus any cap that kicked in */
+  explanation: string;
+  /** Earliest ISO instant at which a contributing campaign ends */
+  endsAt?: string;
+}
+
+/**
+ * Recurrence of a campaign inside its window
+ * - palindrome-date: only on local days whose date is a palindrome (2/2/22, 22/02/2022)
+ */
+export type CampaignRecurrence = 'palindrome-date';
+
+/**
+ * Time-boxed promotional campaign
+ *
+ * Start and end are wall-clock times in `timeZone` ("2026-11-20T00:00"),
+ * or absolute instants when they carry an offset ("2026-11-20T06:00:00Z").
+ */
+export interface Campaign {
+  /** Stable identifier */
+  id: string;
+  /** Message rotated in the TopBar while active, per locale */
+  message: LocalizedText;
+  /** Short label for badges, per locale (e.g. "Doble palíndromo") */
+  badgeLabel: LocalizedText;
+  /** Start of the campaign window (inclusive) */
+  startsAt: string;
+  /** End of the campaign window (exclusive) */
+  endsAt: string;
+  /** IANA time zone for wall-clock start/end (e.g. "America/Mexico_City") */
+  timeZone: string;
+  /** Restrict activity to some days inside the window */
+  recurrence?: CampaignRecurrence;
+  /** Multiplies the percentages of the base rules */
+  multiplier?: number;
+  /** Extra rules while the campaign is active */
+  rules?: DiscountRule[];
+  /** Stacking policy override while the campaign is active */
+  stacking?: StackingPolicy;
+}
+
+/**
+ * Campaign resolved for a given instant
+ */
+export interface ActiveCampaign {
+  campaign: Campaign;
+  /** Instant the current activity started */
+  startsAt: Date;
+  /** Instant the current activity ends (end of day for recurring campaigns) */
+  endsAt: Date;
+}
@@ -0,0 +1,242 @@
+import type { ProductItem } from './types';
+import { compareMoney, fromMajor, money, toMajor, type Money } from './money';
+
+/**
+ * Facets of a result set and the filters they drive
+ *
+ * Facets are derived from the results already loaded, so narrowing
+ * "tennis" to Wilson under $1,500 needs no extra backend request.
+ * Each facet counts the products left by the *other* active filters,
+ * so picking a brand never hides the remaining brand options.
+ */
+
+/**
+ * Filters applied to a result set
+ */
+export interface FacetFilters {
+  /** Brands to keep (none = every brand) */
+  brands: string[];
+  /** Lowest final price to keep */
+  minPrice?: Money;
+  /** Highest final price to keep */
+  maxPrice?: Money;
+  /** Only products with a discount */
+  discountedOnly: boolean;
+}
+
+/**
+ * Brand option with the number of matching products
+ */
+export interface BrandFacet {
+  brand: string;
+  count: number;
+}
+
+/**
+ * Histogram bucket of final prices, [from, to) except the last one
+ */
+export interface PriceBucket {
+  from: Money;
+  to: Money;
+  count: number;
+}
+
+/**
+ * Price range of the results with its histogram
+ */
+export interface PriceFacet {
+  /** Cheapest final price in the results */
+  min: Money;
+  /** Most expensive final price in the results */
+  max: Money;
+  buckets: PriceBucket[];
+}
+
+/**
+ * Every facet of a result set
+ */
+export interface Facets {
+  /** Brands by count, then name */
+  brands: BrandFacet[];
+  /** Price range, or null for empty results */
+  price: PriceFacet | null;
+  /** Products with a discount */
+  discountedCount: number;
+}
+
+/**
+ * No filters applied
+ */
+export const EMPTY_FACET_FILTERS: FacetFilters = { brands: [], discountedOnly: false };
+
+/**
+ * Number of bars in the price histogram
+ */
+export const PRICE_HISTOGRAM_BUCKETS = 8;
+
+/**
+ * URL parameters holding the filters (`?brand=Wilson&maxPrice=1500&discounted=1`)
+ */
+const FACET_PARAMS = {
+  brand: 'brand',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  discounted: 'discounted',
+} as const;
+
+type FacetName = 'brand' | 'price' | 'discount';
+
+/**
+ * Check one product against every filter except `skip`
+ */
+function matchesFilters(item: ProductItem, filters: FacetFilters, skip?: FacetName): boolean {
+  if (skip !== 'brand' && filters.brands.length > 0 && !filters.brands.includes(item.brand)) {
+    return false;
+  }
+  if (skip !== 'price') {
+    if (filters.minPrice && compareMoney(item.finalPrice, filters.minPrice) < 0) return false;
+    if (filters.maxPrice && compareMoney(item.finalPrice, filters.maxPrice) > 0) return false;
+  }
+  if (skip !== 'discount' && filters.discountedOnly && !item.discountPercentage) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Keep the products matching every active filter
+ *
+ * @param items - Results in display order
+ * @param filters - Active filters
+ * @returns ProductItem[] - Matching products, order preserved
+ */
+export function applyFacetFilters(items: ProductItem[], filters: FacetFilters): ProductItem[] {
+  return items.filter(item => matchesFilters(item, filters));
+}
+
+/**
+ * Derive brand counts, the price histogram and the discounted count
+ *
+ * The price range spans all results so the slider bounds stay put
+ * while filtering; counts honour the other active filters.
+ *
+ * @param items - Results (unfiltered)
+ * @param filters - Active filters
+ * @returns Facets - Facets for the filter panel
+ *
+ * @example
+ * ```typescript
+ * const facets = deriveFacets(data.items, filters);
+ * facets.brands; // [{ brand: 'Wilson', count: 12 }, …]
+ * ```
+ */
+export function deriveFacets(items: ProductItem[], filters: FacetFilters): Facets {
+  const brandCounts = new Map<string, number>();
+  for (const item of items) {
+    if (!brandCounts.has(item.brand)) brandCounts.set(item.brand, 0);
+    if (matchesFilters(item, filters, 'brand')) {
+      brandCounts.set(item.brand, (brandCounts.get(item.brand) ?? 0) + 1);
+    }
+  }
+
+  const brands = Array.from(brandCounts, ([brand, count]) => ({ brand, count }))
+    .sort((a, b) => b.count - a.count || a.brand.localeCompare(b.brand));
+
+  return {
+    brands,
+    price: buildPriceFacet(items, filters),
+    discountedCount: items.filter(item => item.discountPercentage && matchesFilters(item, filters, 'discount')).length,
+  };
+}
+
+/**
+ * Price range of all items, bucketed over the items left by the other filters
+ */
+function buildPriceFacet(items: ProductItem[], filters: FacetFilters): PriceFacet | null {
+  if (items.length === 0) return null;
+
+  const amounts = items.map(item => item.finalPrice.amount);
+  const currency = items[0].finalPrice.currency;
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+  const width = (max - min) / PRICE_HISTOGRAM_BUCKETS;
+
+  const buckets: PriceBucket[] = Array.from({ length: PRICE_HISTOGRAM_BUCKETS }, (_, index) => ({
+    from: money(Math.round(min + width * index), currency),
+    to: money(index === PRICE_HISTOGRAM_BUCKETS - 1 ? max : Math.round(min + width * (index + 1)), currency),
+    count: 0,
+  }));
+
+  for (const item of items) {
+    if (!matchesFilters(item, filters, 'price')) continue;
+    const index = width === 0
+      ? 0
+      : Math.min(Math.floor((item.finalPrice.amount - min) / width), PRICE_HISTOGRAM_BUCKETS - 1);
+    buckets[index].count++;
+  }
+
+  return { min: money(min, currency), max: money(max, currency), buckets };
+}
+
+/**
+ * Number of filters shown as chips
+ */
+export function countActiveFilters(filters: FacetFilters): number {
+  return filters.brands.length
+    + (filters.minPrice || filters.maxPrice ? 1 : 0)
+    + (filters.discountedOnly ? 1 : 0);
+}
+
+/**
+ * Parse a positive major-unit price parameter (invalid values are ignored)
+ */
+function readPriceParam(values: string[] | undefined): Money | undefined {
+  const value = values?.[0];
+  if (!value || !/^\d+(\.\d+)?$/.test(value)) return undefined;
+  return fromMajor(value);
+}
+
+/**
+ * Read the filters from URL parameters
+ *
+ * @param params - Parameter values by name (SearchUrlState.filters)
+ * @returns FacetFilters - Filters, defaults for missing or invalid values
+ *
+ * @example
+ * ```typescript
+ * readFacetFilters({ brand: ['Wilson'], maxPrice: ['1500'] });
+ * // { brands: ['Wilson'], maxPrice: { amount: 150000, currency: 'MXN' }, discountedOnly: false }
+ * ```
+ */
+export function readFacetFilters(params: Record<string, string[]>): FacetFilters {
+  const minPrice = readPriceParam(params[FACET_PARAMS.minPrice]);
+  const maxPrice = readPriceParam(params[FACET_PARAMS.maxPrice]);
+
+  return {
+    brands: Array.from(new Set(params[FACET_PARAMS.brand] ?? [])),
+    ...(minPrice && { minPrice }),
+    ...(maxPrice && { maxPrice }),
+    discountedOnly: params[FACET_PARAMS.discounted]?.[0] === '1',
+  };
+}
+
+/**
+ * Write the filters into URL parameters, keeping unrelated ones
+ *
+ * @param params - Current parameter values by name
+ * @param filters - Filters to write
+ * @returns Record<string, string[]> - New parameter values
+ */
+export function writeFacetFilters(params: Record<string, string[]>, filters: FacetFilters): Record<string, string[]> {
+  const next = { ...params };
+  for (const name of Object.values(FACET_PARAMS)) {
+    delete next[name];
+  }
+
+  if (filters.brands.length > 0) next[FACET_PARAMS.brand] = filters.brands;
+  if (filters.minPrice) next[FACET_PARAMS.minPrice] = [String(toMajor(filters.minPrice))];
+  if (filters.maxPrice) next[FACET_PARAMS.maxPrice] = [String(toMajor(filters.maxPrice))];
+  if (filters.discountedOnly) next[FACET_PARAMS.discounted] = ['1'];
+
+  return next;
+}
@@ -1,61 +1,56 @@
-/**
- * Configuration for currency formatting
- */
-const CURRENCY_CONFIG = {
-  locale: 'es-MX',
-  currency: 'MXN',
-  minimumFractionDigits: 2,
-  maximumFractionDigits: 2,
-} as const;
+import { BASE_CURRENCY, getMinorUnitDigits, toMajor, type CurrencyCode, type Money } from './money';
+import { getCurrencyLocale } from './currency/config';
+import { convertMoney } from './currency/convert';
 
 /**
- * Cached formatter instance for performance
+ * Cached formatter instances per currency for performance
+ * Each currency is formatted in its own locale (see SUPPORTED_CURRENCIES)
  */
-let currencyFormatter: Intl.NumberFormat | null = null;
+const currencyFormatters = new Map<CurrencyCode, Intl.NumberFormat>();
 
 /**
- * Get or create currency formatter instance
+ * Get or create the formatter for a currency
  */
-function getCurrencyFormatter(): Intl.NumberFormat {
-  if (!currencyFormatter) {
-    currencyFormatter = new Intl.NumberFormat(CURRENCY_CONFIG.locale, {
+function getCurrencyFormatter(currency: CurrencyCode): Intl.NumberFormat {
+  let formatter = currencyFormatters.get(currency);
+  if (!formatter) {
+    const digits = getMinorUnitDigits(currency);
+    formatter = new Intl.NumberFormat(getCurrencyLocale(currency), {
       style: 'currency',
-      currency: CURRENCY_CONFIG.currency,
-      minimumFractionDigits: CURRENCY_CONFIG.minimumFractionDigits,
-      maximumFractionDigits: CURRENCY_CONFIG.maximumFractionDigits,
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
     });
+    currencyFormatters.set(currency, formatter);
   }
-  return currencyFormatter;
+  return formatter;
 }
 
 /**
- * Format a number as Mexican Peso currency
+ * Format a Money value as currency, optionally converted for display
  * 
- * @param amount - The numeric amount to format
+ * @param value - Amount in minor units with its currency
+ * @param displayCurrency - Currency to convert to first (default: the value's own)
  * @returns Formatted currency string (e.g., "$1,234.56")
  * 
  * @example
  * ```typescript
- * formatCurrency(1234.56);      // "$1,234.56"
- * formatCurrency(0);            // "$0.00"
- * formatCurrency(1000);         // "$1,000.00"
- * formatCurrency(null);         // "$0.00"
- * formatCurrency(undefined);    // "$0.00"
+ * formatCurrency(money(123456));           // "$1,234.56"
+ * formatCurrency(money(0));                // "$0.00"
+ * formatCurrency(money(100000), 'EUR');    // "46,70 €"
+ * formatCurrency(null);                    // "$0.00"
+ * formatCurrency(undefined, 'USD');        // "$0.00"
  * ```
  */
-export function formatCurrency(amount: number | null | undefined): string {
-  // Handle null/undefined/NaN cases
-  if (amount == null || isNaN(amount)) {
-    return getCurrencyFormatter().format(0);
-  }
+export function formatCurrency(value: Money | null | undefined, displayCurrency?: CurrencyCode): string {
+  const currency = displayCurrency ?? value?.currency ?? BASE_CURRENCY;
 
-  // Ensure we have a valid number
-  const numericAmount = Number(amount);
-  if (!isFinite(numericAmount)) {
-    return getCurrencyFormatter().format(0);
+  // Handle null/undefined/NaN cases
+  if (value == null || !Number.isFinite(value.amount)) {
+    return getCurrencyFormatter(currency).format(0);
   }
 
-  return getCurrencyFormatter().format(numericAmount);
+  return getCurrencyFormatter(currency).format(toMajor(convertMoney(value, currency)));
 }
 
 /**
@@ -86,36 +81,59 @@ export function formatPercentage(percentage: number | null | undefined): string
   return `${Math.round(numericPercentage)}%`;
 }
 
+/**
+ * Format the time left until a deadline as a countdown
+ * 
+ * @param remainingMs - Milliseconds left (negative or zero means finished)
+ * @returns Countdown string with days when needed (e.g., "2d 03:04:05")
+ * 
+ * @example
+ * ```typescript
+ * formatCountdown(3_723_000);       // "01:02:03"
+ * formatCountdown(183_845_000);     // "2d 03:04:05"
+ * formatCountdown(-1);              // "00:00:00"
+ * ```
+ */
+export function formatCountdown(remainingMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(remainingMs / 1000));
+  const days = Math.floor(totalSeconds / 86_400);
+  const hours = Math.floor((totalSeconds % 86_400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const clock = [hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
 /**
  * Calculate discount percentage from original and final prices
  * 
  * @param originalPrice - The original price before discount
  * @param finalPrice - The final price after discount
- * @returns Discount percentage (0-100)
+ * @returns Discount percentage (0-100), 0 when the currencies differ
  * 
  * @example
  * ```typescript
- * calculateDiscountPercentage(100, 50);    // 50
- * calculateDiscountPercentage(200, 150);   // 25
- * calculateDiscountPercentage(100, 100);   // 0
- * calculateDiscountPercentage(0, 0);       // 0
+ * calculateDiscountPercentage(money(10000), money(5000));    // 50
+ * calculateDiscountPercentage(money(20000), money(15000));   // 25
+ * calculateDiscountPercentage(money(10000), money(10000));   // 0
+ * calculateDiscountPercentage(money(0), money(0));           // 0
  * ```
  */
 export function calculateDiscountPercentage(
-  originalPrice: number | null | undefined,
-  finalPrice: number | null | undefined
+  originalPrice: Money | null | undefined,
+  finalPrice: Money | null | undefined
 ): number {
   if (
     originalPrice == null || 
     finalPrice == null || 
-    isNaN(originalPrice) || 
-    isNaN(finalPrice) ||
-    originalPrice <= 0
+    originalPrice.currency !== finalPrice.currency ||
+    originalPrice.amount <= 0
   ) {
     return 0;
   }
 
-  const discount = ((originalPrice - finalPrice) / originalPrice) * 100;
+  const discount = ((originalPrice.amount - finalPrice.amount) / originalPrice.amount) * 100;
   return Math.max(0, Math.min(100, discount)); // Clamp between 0-100
 }
 
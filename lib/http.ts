@@ -0,0 +1,331 @@
+import { ApiErrorSchema } from './schemas';
+import { validate } from './validation';
+
+/**
+ * Configuration for the shared HTTP client
+ */
+const HTTP_CONFIG = {
+  timeout: 10000, // 10 seconds per attempt
+  retries: 2, // Retries after the first attempt (GET only)
+  backoffBaseMs: 300,
+  backoffMaxMs: 5000,
+  retryAfterMaxMs: 10000, // Never wait longer than this for Retry-After
+  headers: {
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+  },
+} as const;
+
+/**
+ * HTTP status codes that are safe to retry for idempotent requests
+ */
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Custom error class for API errors
+ */
+export class ApiClientError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public error?: string,
+    public details?: string[]
+  ) {
+    super(message);
+    this.name = 'ApiClientError';
+  }
+}
+
+/**
+ * Query string values accepted by `request`
+ * Undefined values are skipped
+ */
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Options for a single HTTP request
+ */
+export interface RequestOptions {
+  /** HTTP method (default: GET) */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Base URL the path is resolved against */
+  baseUrl: string;
+  /** Query string parameters */
+  query?: QueryParams;
+  /** Caller signal for cancellation (merged with the per-attempt timeout) */
+  signal?: AbortSignal;
+  /** Timeout per attempt in milliseconds */
+  timeout?: number;
+  /** Number of retries after the first attempt (only applied to GET) */
+  retries?: number;
+  /** Fetch cache mode */
+  cache?: RequestCache;
+  /** Extra headers merged over the defaults */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Signal composed from the caller signal and a timeout
+ */
+interface ComposedSignal {
+  signal: AbortSignal;
+  /** Whether the abort came from the timeout rather than the caller */
+  timedOut: () => boolean;
+  /** Release the timer and listeners */
+  dispose: () => void;
+}
+
+/**
+ * Merge an optional caller signal with a timeout
+ *
+ * Unlike `signal || timeoutSignal`, both sources abort the request,
+ * and the caller can still tell a timeout apart from a cancellation.
+ */
+function composeSignal(signal: AbortSignal | undefined, timeout: number): ComposedSignal {
+  const controller = new AbortController();
+  let didTimeOut = false;
+
+  const timeoutId = setTimeout(() => {
+    didTimeOut = true;
+    controller.abort();
+  }, timeout);
+
+  const onCallerAbort = () => controller.abort();
+
+  if (signal) {
+    if (signal.aborted) {
+      controller.abort();
+    } else {
+      signal.addEventListener('abort', onCallerAbort, { once: true });
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeOut,
+    dispose: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCallerAbort);
+    },
+  };
+}
+
+/**
+ * Wait for the given delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiClientError('Request was cancelled', 0, 'Request Cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new ApiClientError('Request was cancelled', 0, 'Request Cancelled'));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff with full jitter
+ *
+ * @param attempt - Zero-based retry number
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(HTTP_CONFIG.backoffMaxMs, HTTP_CONFIG.backoffBaseMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ *
+ * @returns Delay in ms, or null when the header is missing or invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.min(Math.max(0, seconds * 1000), HTTP_CONFIG.retryAfterMaxMs);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.min(Math.max(0, date - Date.now()), HTTP_CONFIG.retryAfterMaxMs);
+  }
+
+  return null;
+}
+
+/**
+ * Build an ApiClientError from a non-OK response
+ * Uses the backend's ApiError body when it is JSON
+ */
+async function errorFromResponse(response: Response): Promise<ApiClientError> {
+  let message = `HTTP ${response.status}`;
+  let errorType = response.statusText || 'HTTP Error';
+
+  try {
+    const contentType = response.headers.get('content-type');
+    if (contentType?.includes('application/json')) {
+      const result = validate(ApiErrorSchema, await response.json());
+      if (result.ok) {
+        message = result.value.message || message;
+        errorType = result.value.error || errorType;
+      }
+    } else if (response.statusText) {
+      message = `HTTP ${response.status}: ${response.statusText}`;
+    }
+  } catch {
+    // Fallback to status text if JSON parsing fails
+    message = response.statusText || message;
+  }
+
+  return new ApiClientError(message, response.status, errorType);
+}
+
+/**
+ * Map anything thrown during a fetch attempt onto ApiClientError
+ */
+function toApiClientError(error: unknown, callerAborted: boolean, timedOut: boolean): ApiClientError {
+  if (error instanceof ApiClientError) {
+    return error;
+  }
+
+  if (callerAborted) {
+    return new ApiClientError('Request was cancelled', 0, 'Request Cancelled');
+  }
+
+  if (timedOut) {
+    return new ApiClientError('Request timeout', 0, 'Request Timeout');
+  }
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return new ApiClientError('Request was cancelled', 0, 'Request Cancelled');
+    }
+
+    // fetch rejects with TypeError on DNS/connection failures
+    if (error.name === 'TypeError') {
+      return new ApiClientError('Network error - unable to connect to API', 0, 'Network Error');
+    }
+
+    return new ApiClientError(error.message, 0, 'Request Error');
+  }
+
+  return new ApiClientError('An unexpected error occurred', 500, 'Unknown Error');
+}
+
+/**
+ * Whether a failed attempt may be retried
+ */
+function isRetryable(error: ApiClientError): boolean {
+  if (error.error === 'Parse Error') {
+    return false;
+  }
+  if (error.statusCode === 0) {
+    return error.error === 'Network Error' || error.error === 'Request Timeout';
+  }
+  return error.statusCode !== undefined && RETRYABLE_STATUS.has(error.statusCode);
+}
+
+/**
+ * Build the request URL from base URL, path and query parameters
+ *
+ * The base URL may carry a path prefix (e.g. "http://localhost:3001/api/mock")
+ * and, in the browser, may be relative to the current origin (e.g. "/api/mock").
+ */
+export function buildUrl(baseUrl: string, path: string, query: QueryParams = {}): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : undefined;
+  const base = new URL(baseUrl, origin);
+  const basePath = base.pathname.replace(/\/+$/, '');
+  const url = new URL(`${basePath}/${path.replace(/^\/+/, '')}`, base.origin);
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+
+  return url.toString();
+}
+
+/**
+ * Perform an HTTP request and parse its JSON body
+ *
+ * Features:
+ * - Caller signal and per-attempt timeout are merged, so neither is lost
+ * - Idempotent GETs are retried on network errors, timeouts and 5xx/429
+ * - Exponential backoff with jitter, overridden by `Retry-After`
+ * - Every failure is surfaced as ApiClientError
+ *
+ * @param path - Path relative to `options.baseUrl`
+ * @param options - Request options
+ * @returns Promise<unknown> - Parsed JSON body (validate before use)
+ *
+ * @example
+ * ```typescript
+ * const data = await request('/api/products', {
+ *   baseUrl: 'http://localhost:3000',
+ *   query: { limit: 20 },
+ *   signal: controller.signal,
+ * });
+ * ```
+ */
+export async function request(path: string, options: RequestOptions): Promise<unknown> {
+  const {
+    method = 'GET',
+    baseUrl,
+    query,
+    signal,
+    timeout = HTTP_CONFIG.timeout,
+    cache,
+    headers,
+  } = options;
+
+  const url = buildUrl(baseUrl, path, query);
+  const maxRetries = method === 'GET' ? (options.retries ?? HTTP_CONFIG.retries) : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const composed = composeSignal(signal, timeout);
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { ...HTTP_CONFIG.headers, ...headers },
+        cache,
+        signal: composed.signal,
+      });
+
+      if (!response.ok) {
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        throw await errorFromResponse(response);
+      }
+
+      try {
+        return await response.json();
+      } catch {
+        throw new ApiClientError('Invalid JSON in API response', 500, 'Parse Error');
+      }
+    } catch (error) {
+      const apiError = toApiClientError(error, signal?.aborted ?? false, composed.timedOut());
+
+      if (attempt >= maxRetries || !isRetryable(apiError)) {
+        throw apiError;
+      }
+
+      await sleep(retryAfterMs ?? backoffDelay(attempt), signal);
+    } finally {
+      composed.dispose();
+    }
+  }
+}
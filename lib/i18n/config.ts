@@ -0,0 +1,64 @@
+/**
+ * Locale configuration shared by the middleware, server and client code
+ */
+
+/**
+ * Supported locales, in switcher order
+ */
+export const LOCALES = ['es', 'en'] as const;
+
+/**
+ * Supported locale code
+ */
+export type Locale = (typeof LOCALES)[number];
+
+/**
+ * Locale used when negotiation finds no match
+ */
+export const DEFAULT_LOCALE: Locale = 'es';
+
+/**
+ * Cookie holding the shopper's last explicit locale (set by the middleware)
+ */
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+/**
+ * BCP 47 tag used for Intl formatting (plurals, numbers, dates) per locale
+ */
+export const INTL_LOCALES: Record<Locale, string> = {
+  es: 'es-MX',
+  en: 'en-US',
+};
+
+/**
+ * Names shown in the language switcher, each in its own language
+ */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+};
+
+/**
+ * Text that lives in configuration rather than in the message catalogs
+ * (discount rule labels, campaign messages, category names)
+ */
+export type LocalizedText = Record<Locale, string>;
+
+/**
+ * Whether a string is a supported locale
+ */
+export function isLocale(value: string | null | undefined): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Derive localized text from another, locale by locale
+ *
+ * @example
+ * ```typescript
+ * mapLocalized(rule.label, (label, locale) => `${label} (${campaign.badgeLabel[locale]})`);
+ * ```
+ */
+export function mapLocalized(text: LocalizedText, map: (value: string, locale: Locale) => string): LocalizedText {
+  return Object.fromEntries(LOCALES.map(locale => [locale, map(text[locale], locale)])) as LocalizedText;
+}
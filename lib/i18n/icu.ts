@@ -0,0 +1,128 @@
+/**
+ * Minimal ICU MessageFormat
+ *
+ * Supports the subset the catalogs use:
+ * - `{name}` interpolation (numbers are formatted for the locale)
+ * - `{count, plural, =0 {…} one {# producto} other {# productos}}` with `#`
+ * - `{kind, select, a {…} other {…}}`
+ * Sub-messages may nest further arguments.
+ */
+
+/**
+ * Values interpolated into a message
+ */
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * Index of the `}` matching the `{` at `start`
+ */
+function findClosingBrace(message: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < message.length; index++) {
+    if (message[index] === '{') depth++;
+    if (message[index] === '}' && --depth === 0) return index;
+  }
+  throw new Error(`Unbalanced braces in message: ${message}`);
+}
+
+/**
+ * Parse `selector {message} selector {message}` option lists
+ */
+function parseOptions(source: string): Map<string, string> {
+  const options = new Map<string, string>();
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('{', index);
+    if (open === -1) break;
+
+    const selector = source.slice(index, open).trim();
+    const close = findClosingBrace(source, open);
+    options.set(selector, source.slice(open + 1, close));
+    index = close + 1;
+  }
+
+  return options;
+}
+
+/**
+ * Format one `{…}` argument
+ */
+function formatArgument(argument: string, values: MessageValues, locale: string): string {
+  const [rawName, rawType, ...rest] = argument.split(',');
+  const name = rawName.trim();
+  const value = values[name];
+  const type = rawType?.trim();
+
+  if (!type) {
+    if (value === undefined) return `{${name}}`;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  }
+
+  const options = parseOptions(rest.join(','));
+
+  if (type === 'plural') {
+    const count = Number(value);
+    const branch =
+      options.get(`=${count}`) ??
+      options.get(new Intl.PluralRules(locale).select(count)) ??
+      options.get('other') ??
+      '';
+    // `#` stands for the count, except inside nested arguments
+    return formatMessage(replaceHash(branch, new Intl.NumberFormat(locale).format(count)), values, locale);
+  }
+
+  if (type === 'select') {
+    const branch = options.get(String(value)) ?? options.get('other') ?? '';
+    return formatMessage(branch, values, locale);
+  }
+
+  throw new Error(`Unsupported message argument type "${type}"`);
+}
+
+/**
+ * Replace top-level `#` in a plural branch
+ */
+function replaceHash(branch: string, formattedCount: string): string {
+  let depth = 0;
+  let result = '';
+  for (const char of branch) {
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    result += char === '#' && depth === 0 ? formattedCount : char;
+  }
+  return result;
+}
+
+/**
+ * Format an ICU message
+ *
+ * @param message - Message pattern from a catalog
+ * @param values - Interpolated values
+ * @param locale - BCP 47 tag for plural rules and numbers (e.g. "es-MX")
+ * @returns string - Formatted text; unknown `{name}` placeholders are kept as-is
+ *
+ * @example
+ * ```typescript
+ * formatMessage('{count, plural, one {# producto} other {# productos}}', { count: 12 }, 'es-MX');
+ * // "12 productos"
+ * ```
+ */
+export function formatMessage(message: string, values: MessageValues = {}, locale: string = 'es-MX'): string {
+  let result = '';
+  let index = 0;
+
+  while (index < message.length) {
+    const open = message.indexOf('{', index);
+    if (open === -1) {
+      result += message.slice(index);
+      break;
+    }
+
+    const close = findClosingBrace(message, open);
+    result += message.slice(index, open) + formatArgument(message.slice(open + 1, close), values, locale);
+    index = close + 1;
+  }
+
+  return result;
+}
@@ -0,0 +1,297 @@
+import type { Messages } from './es';
+
+/**
+ * English message catalog
+ */
+export const en: Messages = {
+  metadata: {
+    title: 'Za-🦆🦆🦆 — Product Search',
+    description: 'Search tennis products with special discounts for palindromes. Find your ideal gear with up to {max}% off!',
+    keywords: 'tennis, sporting goods, palindrome, discount, search',
+    allProductsTitle: 'All products — Za-🦆🦆🦆',
+    searchTitle: '{query} — Product search',
+    searchDiscountTitle: '{query} — {percent}% off',
+    searchDescription: '{count, plural, one {# tennis product} other {# tennis products}} for "{query}" at Za-🦆🦆🦆 Tennis Store.',
+    categoryTitle: '{category} — Za-🦆🦆🦆',
+    categoryDescription: '{count, plural, one {# product} other {# products}} in {category} at Za-🦆🦆🦆 Tennis Store.',
+  },
+  brand: {
+    name: 'Za-🦆🦆🦆 Tennis Store',
+    shortName: 'Za-🦆🦆🦆 Tennis',
+    tagline: 'Your favourite tennis store',
+  },
+  topBar: {
+    freeShipping: 'Free shipping on orders over {amount}',
+    freeShippingShort: 'Free shipping +{amount}',
+    campaignEndsIn: '· ends in {countdown}',
+    currency: 'Currency',
+    language: 'Language',
+    help: 'Help',
+  },
+  nav: {
+    categories: {
+      rackets: 'Rackets',
+      balls: 'Balls',
+      shoes: 'Shoes',
+      accessories: 'Accessories',
+      deals: 'Deals',
+    },
+    wishlist: 'Wishlist - {count, plural, one {# item} other {# items}}',
+    cart: 'Shopping cart - {count, plural, one {# item} other {# items}}',
+    cartShort: 'Cart - {count}',
+    profile: 'User profile',
+    profileShort: 'Profile',
+  },
+  footer: {
+    tagline: 'Palindrome Challenge - Find unique products with special discounts',
+  },
+  home: {
+    title: 'Special discounts for palindromes',
+    subtitle: 'Search tennis products and get up to {max}% off when your search is a palindrome',
+    searchHeading: 'Product search',
+    resultsHeading: 'Search results',
+  },
+  searchPage: {
+    allProducts: 'All products',
+    resultsFor: 'Results for "{query}"',
+    resultsLabel: 'Search results',
+  },
+  categoryPage: {
+    resultsLabel: '{category} products',
+  },
+  searchBar: {
+    placeholder: 'Search tennis products...',
+    formLabel: 'Tennis product search',
+    label: 'Search products',
+    clear: 'Clear search',
+    submitLabel: 'Search now',
+    submit: 'Search',
+    submitting: 'Searching...',
+    loading: 'Searching products...',
+    palindromeHint: '"{query}" is a palindrome! Your search gets a special discount',
+    autoSearchActive: 'Automatic search active',
+    autoSearchMinLength: 'Type at least {min} characters for automatic search',
+    helper: 'Search tennis products. Use palindromes like "abba" for special discounts.',
+  },
+  searchHistory: {
+    label: 'Recent searches',
+    remove: 'Remove "{query}" from history',
+    clear: 'Clear history',
+    palindrome: 'Palindrome',
+  },
+  results: {
+    idle: 'Start typing to search tennis products.',
+    updating: 'Updating results',
+    loadingLabel: 'Loading search results',
+    loading: 'Searching products...',
+    errorLabel: 'Search error',
+    unexpectedError: 'Unexpected error',
+    emptyLabel: 'No search results',
+    resultsLabel: 'Search results for "{query}"',
+    heading: 'Results for "{query}"',
+    count: '{count, plural, one {# product} other {# products}}',
+    found: '{count, plural, one {# product found} other {# products found}}',
+    palindromeDetected: 'Palindrome search detected!',
+    allDiscounted: 'Every product is {percent}% off.',
+    someDiscounted: '{count, plural, one {# product is} other {# products are}} up to {percent}% off.',
+    noneDiscounted: 'No product in this search is part of the promotion.',
+    showing: 'Showing {shown} of {total, plural, one {# product} other {# products}}',
+    loadMore: 'Load more products',
+    loadingMore: 'Loading more products...',
+    filteredCount: '{count} of {total, plural, one {# product} other {# products}}',
+    noFilterMatches: 'No products match the filters.',
+  },
+  pagination: {
+    label: 'Pagination',
+    info: 'Showing {start} to {end} of {total, plural, one {# product} other {# products}}',
+    previous: 'Previous page',
+    previousShort: 'Previous',
+    next: 'Next page',
+    nextShort: 'Next',
+    page: 'Page {page}',
+    pageOf: 'Page {page} of {total}',
+    pageSize: 'Per page',
+  },
+  sort: {
+    label: 'Sort by',
+    relevance: 'Relevance',
+    priceAsc: 'Price: low to high',
+    priceDesc: 'Price: high to low',
+    discount: 'Biggest discount',
+    title: 'Name (A–Z)',
+    newest: 'Newest',
+  },
+  facets: {
+    title: 'Filters',
+    open: 'Filters',
+    openWithCount: 'Filters ({count})',
+    close: 'Close filters',
+    brand: 'Brand',
+    price: 'Price',
+    minPrice: 'Minimum price',
+    maxPrice: 'Maximum price',
+    histogramLabel: 'Price distribution',
+    bucket: '{from} – {to}: {count, plural, one {# product} other {# products}}',
+    discount: 'Discount',
+    discountedOnly: 'Discounted only',
+    priceRange: '{min} – {max}',
+    priceFrom: 'From {min}',
+    priceUpTo: 'Up to {max}',
+    chipsLabel: 'Active filters',
+    remove: 'Remove filter: {filter}',
+    clearAll: 'Clear filters',
+    showResults: 'Show {count, plural, one {# product} other {# products}}',
+  },
+  product: {
+    viewDetails: 'View details of {title}',
+    metaTitle: '{title} — Za-🦆🦆🦆',
+    backToResults: 'Back to results for "{query}"',
+    backToCatalog: 'See all products',
+    carriedOver: 'Price with the discount from your search "{query}"',
+    description: 'Description',
+    save: 'Save',
+    unsave: 'Saved',
+    moreFromBrand: 'More from {brand}',
+    notFoundTitle: 'Product not found',
+    notFoundText: 'The product you are looking for does not exist or is no longer available.',
+  },
+  cart: {
+    title: 'Your cart',
+    itemCount: '{count, plural, one {# item} other {# items}}',
+    close: 'Close cart',
+    empty: 'Your cart is empty',
+    emptyHint: 'Add products from the search results.',
+    add: 'Add to cart',
+    added: 'Added to cart',
+    addItem: 'Add {title} to cart',
+    remove: 'Remove {title} from cart',
+    increase: 'Increase quantity of {title}',
+    decrease: 'Decrease quantity of {title}',
+    quantity: 'Quantity',
+    unitPrice: '{price} each',
+    lockedFrom: '{percent}% off from the search "{query}"',
+    subtotal: 'Subtotal',
+    discounts: 'Discounts',
+    total: 'Total',
+    clear: 'Empty cart',
+  },
+  wishlist: {
+    title: 'Wishlist',
+    metaTitle: 'Wishlist — Za-🦆🦆🦆',
+    count: '{count, plural, =0 {No saved products} one {# saved product} other {# saved products}}',
+    save: 'Save {title} to wishlist',
+    unsave: 'Remove {title} from wishlist',
+    empty: 'Your wishlist is empty',
+    emptyHint: 'Tap the heart on a product to save it here.',
+    browse: 'Browse products',
+    savedPrice: 'When saved',
+    currentPrice: 'Today',
+    priceDropped: 'Down {amount}',
+    priceRose: 'Up {amount}',
+    loadingPrices: 'Checking current prices…',
+    pricesError: 'Could not load current prices.',
+    unavailable: 'No longer available',
+    moveToCart: 'Move to cart',
+    remove: 'Remove',
+  },
+  quickView: {
+    close: 'Close quick view',
+    previous: 'Previous product',
+    next: 'Next product',
+    position: '{current} of {total}',
+    fullPage: 'See full page',
+  },
+  discountBadge: {
+    off: '{percent}% OFF',
+    label: '{percent}% off',
+    endsIn: 'Offer ends in {countdown}',
+  },
+  price: {
+    final: 'Final price: {amount}',
+    original: 'Original price: {amount}',
+    savingsLabel: 'You save: {amount}',
+    savings: 'You save {amount}',
+    savingsBanner: 'You save {amount} ({percent}%)!',
+    srDiscounted: 'Discounted price: {final}. Original price: {original}. {percent}% off.',
+    srRegular: 'Price: {amount}',
+  },
+  loading: {
+    products: 'Loading products...',
+  },
+  emptyState: {
+    title: 'No products found',
+    startTitle: 'Start your search',
+    description: 'No products match "{query}". Try other search terms.',
+    startDescription: 'Search tennis products and discover special deals with palindromes.',
+    clear: 'Clear search',
+    suggestionsIntro: 'Try these searches with up to {max}% off:',
+    suggestions: {
+      abba: 'Sporting goods brand',
+      level: 'Measuring tools',
+      radar: 'Tech equipment',
+      civic: 'Urban products',
+    },
+    palindromeTip: '💡 Palindromes (words that read the same backwards) get special discounts',
+    searchBy: 'You can search by:',
+    byName: 'Product name',
+    byBrand: 'Brand',
+    byDescription: 'Description',
+    compactNoResultsFor: 'No results for "{query}"',
+    compactNoResults: 'No results',
+    compactClear: 'Clear',
+  },
+  errorState: {
+    titles: {
+      network: 'Connection error',
+      server: 'Server error',
+      validation: 'Validation error',
+      unknown: 'Unexpected error',
+    },
+    suggestions: {
+      checkConnection: 'Check your internet connection',
+      refresh: 'Try refreshing the page',
+      checkServer: 'Make sure the server is running',
+      serverUnavailable: 'The server may be temporarily unavailable',
+      tryLater: 'Try again in a few moments',
+      contactSupport: 'If the problem persists, contact support',
+      checkQuery: 'Check that your search is valid',
+      otherTerms: 'Try different terms',
+      validCharacters: 'Make sure you use valid characters',
+      verifyConnection: 'Check your connection',
+    },
+    whatToTry: 'What you can try:',
+    retry: 'Retry',
+    retrying: 'Retrying...',
+    clear: 'Clear search',
+    technicalDetails: 'Technical details',
+  },
+  errors: {
+    generic: 'The search could not be completed.',
+    badRequest: 'Invalid search parameter.',
+    notFound: 'Service not found.',
+    server: 'Internal server error.',
+    network: 'Connection error. Check your internet connection.',
+    connection: 'Connection error.',
+  },
+  discounts: {
+    notPalindrome: '{rule}: the search is not a palindrome',
+    brandExcluded: '{rule}: the {brand} brand is not included',
+    categoryExcluded: '{rule}: the {category} category is not included',
+    minPrice: '{rule}: only applies from {amount}',
+    maxPrice: '{rule}: only applies up to {amount}',
+    minLength: '{rule}: at least {length, plural, one {# character} other {# characters}} required',
+    applied: '{rule}: {percent}% off',
+    appliedPalindrome: '{rule}: {percent}% off ({length}-character palindrome)',
+    itemCap: 'Discount capped at {amount} per item',
+    totalCap: 'Total discount capped at {percent}%',
+  },
+  reconciliation: {
+    label: 'Backend/client mismatches',
+    mode: 'Mode: {mode}',
+    clear: 'Clear',
+    count: '{count, plural, one {# mismatch} other {# mismatches}}',
+    client: 'client',
+    rewritten: 'rewritten',
+    kept: 'kept',
+  },
+};
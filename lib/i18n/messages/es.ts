@@ -0,0 +1,304 @@
+/**
+ * Spanish message catalog (source of truth)
+ *
+ * Every other catalog is typed as `Messages`, so a key missing from (or
+ * unknown to) a translation fails the type-check and `next build`.
+ * Messages use ICU syntax: `{name}`, `{count, plural, one {…} other {…}}`.
+ */
+export const es = {
+  metadata: {
+    title: 'Za-🦆🦆🦆 — Búsqueda de Productos',
+    description: 'Busca productos de tennis con descuentos especiales para palíndromos. ¡Encuentra tu equipo ideal con hasta {max}% de descuento!',
+    keywords: 'tennis, productos deportivos, palíndromo, descuento, búsqueda',
+    allProductsTitle: 'Todos los productos — Za-🦆🦆🦆',
+    searchTitle: '{query} — Búsqueda de productos',
+    searchDiscountTitle: '{query} — {percent}% de descuento',
+    searchDescription: '{count, plural, one {# producto} other {# productos}} de tennis para "{query}" en Za-🦆🦆🦆 Tennis Store.',
+    categoryTitle: '{category} — Za-🦆🦆🦆',
+    categoryDescription: '{count, plural, one {# producto} other {# productos}} en {category} en Za-🦆🦆🦆 Tennis Store.',
+  },
+  brand: {
+    name: 'Za-🦆🦆🦆 Tennis Store',
+    shortName: 'Za-🦆🦆🦆 Tennis',
+    tagline: 'Tu tienda de tennis favorita',
+  },
+  topBar: {
+    freeShipping: 'Envío gratis en compras mayores a {amount}',
+    freeShippingShort: 'Envío gratis +{amount}',
+    campaignEndsIn: '· termina en {countdown}',
+    currency: 'Moneda',
+    language: 'Idioma',
+    help: 'Ayuda',
+  },
+  nav: {
+    categories: {
+      rackets: 'Raquetas',
+      balls: 'Pelotas',
+      shoes: 'Calzado',
+      accessories: 'Accesorios',
+      deals: 'Ofertas',
+    },
+    wishlist: 'Lista de deseos - {count, plural, one {# artículo} other {# artículos}}',
+    cart: 'Carrito de compras - {count, plural, one {# artículo} other {# artículos}}',
+    cartShort: 'Carrito - {count}',
+    profile: 'Perfil de usuario',
+    profileShort: 'Perfil',
+  },
+  footer: {
+    tagline: 'Reto Palíndromo - Encuentra productos únicos con descuentos especiales',
+  },
+  home: {
+    title: 'Descuentos especiales para palíndromos',
+    subtitle: 'Busca productos de tennis y obtén hasta {max}% de descuento cuando tu búsqueda sea un palíndromo',
+    searchHeading: 'Búsqueda de productos',
+    resultsHeading: 'Resultados de búsqueda',
+  },
+  searchPage: {
+    allProducts: 'Todos los productos',
+    resultsFor: 'Resultados para "{query}"',
+    resultsLabel: 'Resultados de búsqueda',
+  },
+  categoryPage: {
+    resultsLabel: 'Productos de {category}',
+  },
+  searchBar: {
+    placeholder: 'Busca productos de tennis...',
+    formLabel: 'Búsqueda de productos de tennis',
+    label: 'Buscar productos',
+    clear: 'Limpiar búsqueda',
+    submitLabel: 'Buscar ahora',
+    submit: 'Buscar',
+    submitting: 'Buscando...',
+    loading: 'Buscando productos...',
+    palindromeHint: '¡"{query}" es un palíndromo! Tu búsqueda tiene descuento especial',
+    autoSearchActive: 'Búsqueda automática activa',
+    autoSearchMinLength: 'Escribe al menos {min} caracteres para búsqueda automática',
+    helper: 'Busca productos de tennis. Usa palíndromos como "abba" para descuentos especiales.',
+  },
+  searchHistory: {
+    label: 'Búsquedas recientes',
+    remove: 'Quitar "{query}" del historial',
+    clear: 'Borrar historial',
+    palindrome: 'Palíndromo',
+  },
+  results: {
+    idle: 'Empieza a escribir para buscar productos de tenis.',
+    updating: 'Actualizando resultados',
+    loadingLabel: 'Cargando resultados de búsqueda',
+    loading: 'Buscando productos...',
+    errorLabel: 'Error en la búsqueda',
+    unexpectedError: 'Error inesperado',
+    emptyLabel: 'Sin resultados de búsqueda',
+    resultsLabel: 'Resultados de búsqueda para "{query}"',
+    heading: 'Resultados para "{query}"',
+    count: '{count, plural, one {# producto} other {# productos}}',
+    found: '{count, plural, one {# producto encontrado} other {# productos encontrados}}',
+    palindromeDetected: '¡Búsqueda palíndromo detectada!',
+    allDiscounted: 'Todos los productos tienen {percent}% de descuento.',
+    someDiscounted: '{count, plural, one {# producto tiene} other {# productos tienen}} hasta {percent}% de descuento.',
+    noneDiscounted: 'Ningún producto de esta búsqueda participa en la promoción.',
+    showing: 'Mostrando {shown} de {total, plural, one {# producto} other {# productos}}',
+    loadMore: 'Cargar más productos',
+    loadingMore: 'Cargando más productos...',
+    filteredCount: '{count} de {total, plural, one {# producto} other {# productos}}',
+    noFilterMatches: 'Ningún producto coincide con los filtros.',
+  },
+  pagination: {
+    label: 'Navegación por páginas',
+    info: 'Mostrando {start} a {end} de {total, plural, one {# producto} other {# productos}}',
+    previous: 'Página anterior',
+    previousShort: 'Anterior',
+    next: 'Página siguiente',
+    nextShort: 'Siguiente',
+    page: 'Página {page}',
+    pageOf: 'Página {page} de {total}',
+    pageSize: 'Por página',
+  },
+  sort: {
+    label: 'Ordenar por',
+    relevance: 'Relevancia',
+    priceAsc: 'Precio: menor a mayor',
+    priceDesc: 'Precio: mayor a menor',
+    discount: 'Mayor descuento',
+    title: 'Nombre (A–Z)',
+    newest: 'Más recientes',
+  },
+  facets: {
+    title: 'Filtros',
+    open: 'Filtros',
+    openWithCount: 'Filtros ({count})',
+    close: 'Cerrar filtros',
+    brand: 'Marca',
+    price: 'Precio',
+    minPrice: 'Precio mínimo',
+    maxPrice: 'Precio máximo',
+    histogramLabel: 'Distribución de precios',
+    bucket: '{from} – {to}: {count, plural, one {# producto} other {# productos}}',
+    discount: 'Descuento',
+    discountedOnly: 'Solo con descuento',
+    priceRange: '{min} – {max}',
+    priceFrom: 'Desde {min}',
+    priceUpTo: 'Hasta {max}',
+    chipsLabel: 'Filtros activos',
+    remove: 'Quitar filtro: {filter}',
+    clearAll: 'Limpiar filtros',
+    showResults: 'Ver {count, plural, one {# producto} other {# productos}}',
+  },
+  product: {
+    viewDetails: 'Ver detalles de {title}',
+    metaTitle: '{title} — Za-🦆🦆🦆',
+    backToResults: 'Volver a los resultados de "{query}"',
+    backToCatalog: 'Ver todos los productos',
+    carriedOver: 'Precio con el descuento de tu búsqueda "{query}"',
+    description: 'Descripción',
+    save: 'Guardar',
+    unsave: 'Guardado',
+    moreFromBrand: 'Más de {brand}',
+    notFoundTitle: 'Producto no encontrado',
+    notFoundText: 'El producto que buscas no existe o ya no está disponible.',
+  },
+  cart: {
+    title: 'Tu carrito',
+    itemCount: '{count, plural, one {# artículo} other {# artículos}}',
+    close: 'Cerrar carrito',
+    empty: 'Tu carrito está vacío',
+    emptyHint: 'Agrega productos desde los resultados de búsqueda.',
+    add: 'Agregar al carrito',
+    added: 'Agregado al carrito',
+    addItem: 'Agregar {title} al carrito',
+    remove: 'Quitar {title} del carrito',
+    increase: 'Aumentar cantidad de {title}',
+    decrease: 'Disminuir cantidad de {title}',
+    quantity: 'Cantidad',
+    unitPrice: '{price} c/u',
+    lockedFrom: '{percent}% de descuento por la búsqueda "{query}"',
+    subtotal: 'Subtotal',
+    discounts: 'Descuentos',
+    total: 'Total',
+    clear: 'Vaciar carrito',
+  },
+  wishlist: {
+    title: 'Lista de deseos',
+    metaTitle: 'Lista de deseos — Za-🦆🦆🦆',
+    count: '{count, plural, =0 {Sin productos guardados} one {# producto guardado} other {# productos guardados}}',
+    save: 'Guardar {title} en la lista de deseos',
+    unsave: 'Quitar {title} de la lista de deseos',
+    empty: 'Tu lista de deseos está vacía',
+    emptyHint: 'Toca el corazón de un producto para guardarlo aquí.',
+    browse: 'Buscar productos',
+    savedPrice: 'Al guardar',
+    currentPrice: 'Hoy',
+    priceDropped: 'Bajó {amount}',
+    priceRose: 'Subió {amount}',
+    loadingPrices: 'Consultando precios actuales…',
+    pricesError: 'No se pudieron cargar los precios actuales.',
+    unavailable: 'Ya no está disponible',
+    moveToCart: 'Mover al carrito',
+    remove: 'Quitar',
+  },
+  quickView: {
+    close: 'Cerrar vista rápida',
+    previous: 'Producto anterior',
+    next: 'Producto siguiente',
+    position: '{current} de {total}',
+    fullPage: 'Ver página completa',
+  },
+  discountBadge: {
+    off: '{percent}% OFF',
+    label: '{percent}% de descuento',
+    endsIn: 'La oferta termina en {countdown}',
+  },
+  price: {
+    final: 'Precio final: {amount}',
+    original: 'Precio original: {amount}',
+    savingsLabel: 'Ahorras: {amount}',
+    savings: 'Ahorras {amount}',
+    savingsBanner: '¡Ahorras {amount} ({percent}%)!',
+    srDiscounted: 'Precio con descuento: {final}. Precio original: {original}. Descuento del {percent}%.',
+    srRegular: 'Precio: {amount}',
+  },
+  loading: {
+    products: 'Cargando productos...',
+  },
+  emptyState: {
+    title: 'No encontramos productos',
+    startTitle: 'Comienza tu búsqueda',
+    description: 'No hay productos que coincidan con "{query}". Intenta con otros términos de búsqueda.',
+    startDescription: 'Busca productos de tennis y descubre ofertas especiales con palíndromos.',
+    clear: 'Limpiar búsqueda',
+    suggestionsIntro: 'Prueba estas búsquedas con hasta {max}% de descuento:',
+    suggestions: {
+      abba: 'Marca de productos deportivos',
+      level: 'Herramientas de medición',
+      radar: 'Equipamiento tecnológico',
+      civic: 'Productos urbanos',
+    },
+    palindromeTip: '💡 Los palíndromos (palabras que se leen igual al revés) tienen descuentos especiales',
+    searchBy: 'Puedes buscar por:',
+    byName: 'Nombre del producto',
+    byBrand: 'Marca',
+    byDescription: 'Descripción',
+    compactNoResultsFor: 'No hay resultados para "{query}"',
+    compactNoResults: 'No hay resultados',
+    compactClear: 'Limpiar',
+  },
+  errorState: {
+    titles: {
+      network: 'Error de conexión',
+      server: 'Error del servidor',
+      validation: 'Error de validación',
+      unknown: 'Error inesperado',
+    },
+    suggestions: {
+      checkConnection: 'Verifica tu conexión a internet',
+      refresh: 'Intenta refrescar la página',
+      checkServer: 'Comprueba que el servidor esté funcionando',
+      serverUnavailable: 'El servidor puede estar temporalmente no disponible',
+      tryLater: 'Intenta nuevamente en unos momentos',
+      contactSupport: 'Si el problema persiste, contacta al soporte',
+      checkQuery: 'Verifica que tu búsqueda sea válida',
+      otherTerms: 'Intenta con términos diferentes',
+      validCharacters: 'Asegúrate de usar caracteres válidos',
+      verifyConnection: 'Verifica tu conexión',
+    },
+    whatToTry: 'Qué puedes intentar:',
+    retry: 'Reintentar',
+    retrying: 'Reintentando...',
+    clear: 'Limpiar búsqueda',
+    technicalDetails: 'Detalles técnicos',
+  },
+  errors: {
+    generic: 'No se pudo completar la búsqueda.',
+    badRequest: 'Parámetro de búsqueda inválido.',
+    notFound: 'Servicio no encontrado.',
+    server: 'Error interno del servidor.',
+    network: 'Error de conexión. Verifica tu conexión a internet.',
+    connection: 'Error de conexión.',
+  },
+  discounts: {
+    notPalindrome: '{rule}: la búsqueda no es un palíndromo',
+    brandExcluded: '{rule}: la marca {brand} no participa',
+    categoryExcluded: '{rule}: la categoría {category} no participa',
+    minPrice: '{rule}: solo aplica desde {amount}',
+    maxPrice: '{rule}: solo aplica hasta {amount}',
+    minLength: '{rule}: se requieren al menos {length, plural, one {# carácter} other {# caracteres}}',
+    applied: '{rule}: {percent}% de descuento',
+    appliedPalindrome: '{rule}: {percent}% de descuento (palíndromo de {length, plural, one {# carácter} other {# caracteres}})',
+    itemCap: 'Descuento limitado a {amount} por artículo',
+    totalCap: 'Descuento total limitado a {percent}%',
+  },
+  reconciliation: {
+    label: 'Discrepancias backend/cliente',
+    mode: 'Modo: {mode}',
+    clear: 'Limpiar',
+    count: '{count, plural, one {# discrepancia} other {# discrepancias}}',
+    client: 'cliente',
+    rewritten: 'reescrito',
+    kept: 'conservado',
+  },
+};
+
+/**
+ * Shape every catalog must match
+ */
+export type Messages = typeof es;
@@ -0,0 +1,100 @@
+import { DEFAULT_LOCALE, isLocale, LOCALES, type Locale } from './config';
+
+/**
+ * Language range from an Accept-Language header
+ */
+interface LanguagePreference {
+  /** Lower-cased tag, e.g. "en-us" or "*" */
+  tag: string;
+  /** Quality weight (0-1) */
+  quality: number;
+}
+
+/**
+ * Parse an Accept-Language header, most preferred first
+ *
+ * @example
+ * ```typescript
+ * parseAcceptLanguage('en-US,en;q=0.9,es;q=0.8');
+ * // [{ tag: "en-us", quality: 1 }, { tag: "en", quality: 0.9 }, { tag: "es", quality: 0.8 }]
+ * ```
+ */
+export function parseAcceptLanguage(header: string | null | undefined): LanguagePreference[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const qualityParam = params.find(param => param.trim().startsWith('q='));
+      const quality = qualityParam ? Number(qualityParam.trim().slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), quality: Number.isFinite(quality) ? quality : 0 };
+    })
+    .filter(preference => preference.tag && preference.quality > 0)
+    // Array sort is stable: equal weights keep header order
+    .sort((a, b) => b.quality - a.quality);
+}
+
+/**
+ * Pick the locale for a request
+ *
+ * The cookie (last explicit choice) wins, then the first Accept-Language
+ * range whose primary subtag is supported, then DEFAULT_LOCALE.
+ *
+ * @example
+ * ```typescript
+ * negotiateLocale({ cookie: undefined, acceptLanguage: 'en-GB,en;q=0.9' }); // "en"
+ * negotiateLocale({ cookie: 'es', acceptLanguage: 'en-GB' });               // "es"
+ * ```
+ */
+export function negotiateLocale({
+  cookie,
+  acceptLanguage,
+}: {
+  cookie?: string | null;
+  acceptLanguage?: string | null;
+}): Locale {
+  if (isLocale(cookie)) {
+    return cookie;
+  }
+
+  for (const { tag } of parseAcceptLanguage(acceptLanguage)) {
+    if (tag === '*') return DEFAULT_LOCALE;
+
+    const primary = tag.split('-')[0];
+    const match = LOCALES.find(locale => locale === primary);
+    if (match) return match;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Locale prefix of a pathname, if any
+ *
+ * @example
+ * ```typescript
+ * getPathLocale('/en/search'); // "en"
+ * getPathLocale('/search');    // null
+ * ```
+ */
+export function getPathLocale(pathname: string): Locale | null {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) ? segment : null;
+}
+
+/**
+ * Rewrite a pathname for another locale
+ *
+ * @example
+ * ```typescript
+ * localizePath('/es/search', 'en'); // "/en/search"
+ * localizePath('/search', 'es');    // "/es/search"
+ * localizePath('/', 'en');          // "/en"
+ * ```
+ */
+export function localizePath(pathname: string, locale: Locale): string {
+  const current = getPathLocale(pathname);
+  const rest = current ? pathname.slice(current.length + 1) : pathname;
+  return `/${locale}${rest === '/' ? '' : rest}`;
+}
@@ -0,0 +1,81 @@
+import { INTL_LOCALES, type Locale } from './config';
+import { formatMessage, type MessageValues } from './icu';
+import { es, type Messages } from './messages/es';
+import { en } from './messages/en';
+
+export type { MessageValues };
+
+/**
+ * Catalogs by locale
+ */
+const CATALOGS: Record<Locale, Messages> = { es, en };
+
+/**
+ * Dot-separated path to every message, e.g. "results.count"
+ */
+type MessagePath<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${MessagePath<T[K]>}`;
+}[keyof T & string];
+
+/**
+ * Key of a message in the catalogs
+ */
+export type MessageKey = MessagePath<Messages>;
+
+/**
+ * Translate function bound to a locale
+ */
+export interface Translator {
+  (key: MessageKey, values?: MessageValues): string;
+  /** Locale the messages come from */
+  locale: Locale;
+}
+
+/**
+ * Look a dot-separated key up in a catalog
+ */
+function lookup(catalog: Messages, key: string): string | undefined {
+  const message = key
+    .split('.')
+    .reduce<unknown>((node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined), catalog);
+
+  return typeof message === 'string' ? message : undefined;
+}
+
+const translators = new Map<Locale, Translator>();
+
+/**
+ * Translator for a locale (cached, safe on the server and the client)
+ *
+ * Unknown keys render as the key itself and warn in development;
+ * the catalog types make that a type error for literal keys.
+ *
+ * @param locale - Locale to translate into
+ * @returns Translator - `t(key, values)` with ICU plural/select support
+ *
+ * @example
+ * ```typescript
+ * const t = getTranslator('en');
+ * t('results.count', { count: 12 }); // "12 products"
+ * ```
+ */
+export function getTranslator(locale: Locale): Translator {
+  const cached = translators.get(locale);
+  if (cached) return cached;
+
+  const catalog = CATALOGS[locale];
+  const translate = (key: MessageKey, values?: MessageValues) => {
+    const message = lookup(catalog, key);
+    if (message === undefined) {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn(`[i18n] Missing message "${key}" for locale "${locale}"`);
+      }
+      return key;
+    }
+    return formatMessage(message, values, INTL_LOCALES[locale]);
+  };
+
+  const translator: Translator = Object.assign(translate, { locale });
+  translators.set(locale, translator);
+  return translator;
+}
@@ -0,0 +1,177 @@
+import type { Product } from '../types';
+
+/**
+ * Seed used for the default mock catalog
+ * Changing it reshuffles brands, models and prices for every generated product
+ */
+export const MOCK_CATALOG_SEED = 20240917;
+
+/**
+ * Fixed timestamp the generated createdAt/updatedAt values count from
+ */
+const CATALOG_EPOCH = Date.UTC(2024, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deterministic PRNG (mulberry32)
+ * Same seed always yields the same sequence, so the catalog is stable across runs
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Product family used by the generator
+ */
+interface ProductFamily {
+  noun: string;
+  brands: string[];
+  models: string[];
+  features: string[];
+  priceRange: [number, number];
+}
+
+const FAMILIES: ProductFamily[] = [
+  {
+    noun: 'Raqueta',
+    brands: ['Wilson', 'Babolat', 'Head', 'Yonex', 'Prince', 'Tecnifibre'],
+    models: ['Pro Staff 97', 'Pure Aero', 'Speed MP', 'Ezone 100', 'Blade 98', 'Radical Pro', 'TF40', 'Phantom 100'],
+    features: ['control preciso', 'potencia desde el fondo', 'gran estabilidad en la volea', 'salida de bola explosiva'],
+    priceRange: [1800, 5200],
+  },
+  {
+    noun: 'Pelotas',
+    brands: ['Wilson', 'Head', 'Dunlop', 'Babolat', 'Penn'],
+    models: ['Championship', 'Tour XT', 'ATP Official', 'Gold', 'Team All Court'],
+    features: ['rebote consistente', 'fieltro de larga duración', 'presión optimizada para altura'],
+    priceRange: [180, 650],
+  },
+  {
+    noun: 'Zapatillas',
+    brands: ['Nike', 'Adidas', 'Asics', 'Babolat', 'K-Swiss'],
+    models: ['Air Court Zoom', 'Barricade', 'Gel Resolution', 'Jet Mach', 'Hypercourt Express'],
+    features: ['máximo confort', 'suela para arcilla', 'soporte lateral reforzado', 'amortiguación ligera'],
+    priceRange: [1600, 3900],
+  },
+  {
+    noun: 'Cordaje',
+    brands: ['Luxilon', 'Babolat', 'Tecnifibre', 'Solinco', 'Yonex'],
+    models: ['ALU Power', 'RPM Blast', 'Black Code', 'Hyper-G', 'Poly Tour Pro'],
+    features: ['efecto liftado', 'durabilidad profesional', 'sensación suave'],
+    priceRange: [250, 900],
+  },
+  {
+    noun: 'Mochila',
+    brands: ['Wilson', 'Head', 'Babolat', 'Yonex'],
+    models: ['Tour', 'Super Combi', 'Pure Line', 'Team'],
+    features: ['compartimento térmico', 'capacidad para 3 raquetas', 'correas acolchadas'],
+    priceRange: [900, 2600],
+  },
+  {
+    noun: 'Grip',
+    brands: ['Wilson', 'Tourna', 'Yonex', 'Babolat'],
+    models: ['Pro Overgrip', 'Tourna Grip', 'Super Grap', 'VS Original'],
+    features: ['absorción del sudor', 'tacto seco', 'agarre firme'],
+    priceRange: [90, 320],
+  },
+  {
+    noun: 'Playera',
+    brands: ['Nike', 'Adidas', 'Lacoste', 'Fila'],
+    models: ['Dri-FIT Advantage', 'Club Tee', 'Sport Ultra Dry', 'Heritage'],
+    features: ['tela transpirable', 'protección UV', 'corte deportivo'],
+    priceRange: [450, 1400],
+  },
+];
+
+/**
+ * Hand-written products whose titles are palindromes
+ * Mirrors the backend's seeded test data (see prompts/api.md)
+ */
+const PALINDROME_PRODUCTS: Array<Pick<Product, 'title' | 'brand' | 'description' | 'price'>> = [
+  { title: 'abba', brand: 'Test Brand', description: 'Test product for palindrome testing', price: '500.00' },
+  { title: 'level', brand: 'Court Tools', description: 'Professional spirit level tool para marcar canchas', price: '750.00' },
+  { title: 'radar', brand: 'SpeedTrack', description: 'High quality radar equipment para medir la velocidad del saque', price: '4200.00' },
+  { title: 'civic', brand: 'Urban Tennis', description: 'Compact city bag para raqueta y accesorios', price: '1350.00' },
+  { title: 'kayak', brand: 'Aqua Sports', description: 'Professional kayak for water sports y entrenamiento cruzado', price: '8900.00' },
+  { title: 'oso', brand: 'Peluches Pro', description: 'Mascota de peluche oficial del torneo', price: '299.00' },
+  { title: 'ala', brand: 'Head', description: 'Visera deportiva con ala extendida', price: '420.00' },
+  { title: 'reconocer', brand: 'Coach Lab', description: 'Sesión de análisis de video para reconocer patrones de juego', price: '1200.00' },
+  { title: 'Anita lava la tina', brand: 'Clean Court', description: 'Kit de limpieza para zapatillas de tennis', price: '380.00' },
+];
+
+/**
+ * Pick a random element from a list
+ */
+function pick<T>(random: () => number, list: T[]): T {
+  return list[Math.floor(random() * list.length)];
+}
+
+/**
+ * Build a deterministic tennis catalog
+ *
+ * @param seed - PRNG seed (default: MOCK_CATALOG_SEED)
+ * @param generatedCount - Number of generated products (default: 110)
+ * @returns Product[] - Generated products followed by the palindrome fixtures
+ */
+export function createMockCatalog(seed: number = MOCK_CATALOG_SEED, generatedCount: number = 110): Product[] {
+  const random = createRandom(seed);
+  const products: Product[] = [];
+  const usedTitles = new Set<string>();
+
+  const timestamps = (id: number) => {
+    const createdAt = new Date(CATALOG_EPOCH + id * DAY_MS).toISOString();
+    const updatedAt = new Date(CATALOG_EPOCH + (id + Math.floor(random() * 30)) * DAY_MS).toISOString();
+    return { createdAt, updatedAt };
+  };
+
+  while (products.length < generatedCount) {
+    const family = pick(random, FAMILIES);
+    const brand = pick(random, family.brands);
+    const model = pick(random, family.models);
+    const edition = 2020 + Math.floor(random() * 6);
+    const title = `${family.noun} ${brand} ${model} ${edition}`;
+
+    if (usedTitles.has(title)) continue;
+    usedTitles.add(title);
+
+    const [min, max] = family.priceRange;
+    // Prices end in .00 like the backend seed data
+    const price = Math.round((min + random() * (max - min)) / 10) * 10;
+    const feature = pick(random, family.features);
+    const id = products.length + 1;
+
+    products.push({
+      id,
+      title,
+      brand,
+      description: `${family.noun} ${brand} de tennis con ${feature}. Edición ${edition}.`,
+      price: price.toFixed(2),
+      imageUrl: `https://picsum.photos/400/300?random=${id}`,
+      ...timestamps(id),
+    });
+  }
+
+  for (const fixture of PALINDROME_PRODUCTS) {
+    const id = products.length + 1;
+    products.push({
+      id,
+      ...fixture,
+      imageUrl: `https://picsum.photos/400/300?random=${id}`,
+      ...timestamps(id),
+    });
+  }
+
+  return products;
+}
+
+/**
+ * Default mock catalog shared by the mock route handlers and the dev fallback
+ */
+export const MOCK_CATALOG: Product[] = createMockCatalog();
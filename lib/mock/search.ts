@@ -0,0 +1,144 @@
+import type { ApiError, ApiProductItem, ApiSearchResponse, PaginationParams, Product, ProductsResponse } from '../types';
+import { checkPalindrome } from '../palindrome';
+import { fromMajor, multiplyMoney, toMajor } from '../money';
+import { MOCK_CATALOG } from './catalog';
+
+/**
+ * Rules of the Palindrome API search algorithm (prompts/api.md)
+ */
+export const MOCK_SEARCH_RULES = {
+  maxQueryLength: 255,
+  /** Content search (brand/description) only runs above this length */
+  minContentSearchLength: 3,
+  palindromeDiscount: 50,
+  defaultLimit: 20,
+  maxLimit: 100,
+} as const;
+
+/**
+ * Convert a catalog product into a search item, applying the backend discount
+ */
+function toSearchItem(product: Product, isPalindrome: boolean): ApiProductItem {
+  const originalPrice = Number(product.price);
+
+  if (!isPalindrome) {
+    return {
+      id: product.id,
+      title: product.title,
+      brand: product.brand,
+      description: product.description,
+      originalPrice,
+      finalPrice: originalPrice,
+      imageUrl: product.imageUrl,
+    };
+  }
+
+  const discount = MOCK_SEARCH_RULES.palindromeDiscount;
+  return {
+    id: product.id,
+    title: product.title,
+    brand: product.brand,
+    description: product.description,
+    originalPrice,
+    finalPrice: toMajor(multiplyMoney(fromMajor(product.price), 1 - discount / 100)),
+    discountPercentage: discount,
+    imageUrl: product.imageUrl,
+  };
+}
+
+/**
+ * Validate the search query like the backend
+ *
+ * @returns ApiError when the query is invalid, null otherwise
+ */
+export function validateMockQuery(query: string | null): ApiError | null {
+  if (query === null || query.trim().length === 0) {
+    return {
+      message: 'El parámetro de búsqueda "q" es requerido',
+      error: 'Bad Request',
+      statusCode: 400,
+    };
+  }
+
+  if (query.length > MOCK_SEARCH_RULES.maxQueryLength) {
+    return {
+      message: `El parámetro de búsqueda "q" no puede exceder ${MOCK_SEARCH_RULES.maxQueryLength} caracteres`,
+      error: 'Bad Request',
+      statusCode: 400,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Search the mock catalog following the documented priority algorithm
+ *
+ * 1. Exact title match (case-insensitive) wins and returns a single product
+ * 2. Otherwise, queries longer than 3 characters search brand and description
+ * 3. Short queries without an exact title return no items
+ *
+ * @param query - Raw user query (already validated)
+ * @param catalog - Catalog to search (default: MOCK_CATALOG)
+ * @returns ApiSearchResponse - Backend-shaped response with discounts applied
+ */
+export function mockSearch(query: string, catalog: Product[] = MOCK_CATALOG): ApiSearchResponse {
+  const term = query.trim().toLowerCase();
+  const isPalindrome = checkPalindrome(query).isPalindrome;
+
+  const exactMatch = catalog.find(product => product.title.toLowerCase() === term);
+
+  let matches: Product[] = [];
+  if (exactMatch) {
+    matches = [exactMatch];
+  } else if (term.length > MOCK_SEARCH_RULES.minContentSearchLength) {
+    matches = catalog.filter(product =>
+      product.brand.toLowerCase().includes(term) ||
+      product.description.toLowerCase().includes(term)
+    );
+  }
+
+  const items = matches.map(product => toSearchItem(product, isPalindrome));
+
+  return {
+    query,
+    isPalindrome,
+    items,
+    totalItems: items.length,
+  };
+}
+
+/**
+ * List mock products with offset pagination like GET /api/products
+ *
+ * @param params - limit (1-100, default 20) and offset (default 0)
+ * @param catalog - Catalog to page through (default: MOCK_CATALOG)
+ */
+export function mockListProducts(params: PaginationParams = {}, catalog: Product[] = MOCK_CATALOG): ProductsResponse {
+  const limit = Math.min(
+    Math.max(1, Math.floor(params.limit ?? MOCK_SEARCH_RULES.defaultLimit)),
+    MOCK_SEARCH_RULES.maxLimit
+  );
+  const offset = Math.max(0, Math.floor(params.offset ?? 0));
+  const totalItems = catalog.length;
+
+  return {
+    products: catalog.slice(offset, offset + limit),
+    totalItems,
+    currentPage: Math.floor(offset / limit) + 1,
+    totalPages: Math.ceil(totalItems / limit),
+    hasNext: offset + limit < totalItems,
+    hasPrevious: offset > 0,
+  };
+}
+
+/**
+ * Look up one mock product like GET /api/products/:id
+ *
+ * @param id - Product id
+ * @param catalog - Catalog to look in (default: MOCK_CATALOG)
+ * @returns Product | undefined - undefined when no product has this id
+ */
+export function mockGetProduct(id: number, catalog: Product[] = MOCK_CATALOG): Product | undefined {
+  return catalog.find(product => product.id === id);
+}
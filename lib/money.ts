@@ -0,0 +1,244 @@
+/**
+ * Money value type
+ *
+ * Amounts are integers in the currency's minor unit (centavos for MXN),
+ * so sums, savings and discounts never drift by fractions of a cent.
+ * Conversion from and to decimal numbers only happens at the edges
+ * (API payloads in, formatted strings out).
+ */
+
+/**
+ * ISO 4217 currency code (e.g. "MXN")
+ */
+export type CurrencyCode = string;
+
+/**
+ * Monetary amount in integer minor units
+ */
+export interface Money {
+  /** Integer amount in minor units (e.g. 124950 for $1,249.50 MXN) */
+  amount: number;
+  /** ISO 4217 currency code */
+  currency: CurrencyCode;
+}
+
+/**
+ * How fractional minor units are rounded
+ * - half-even: banker's rounding, ties go to the even neighbour (0.5 → 0, 1.5 → 2)
+ * - half-up: ties go away from zero (0.5 → 1, -0.5 → -1)
+ * - psychological: nearest amount ending in 99 minor units ($249.99), ties go up
+ */
+export type RoundingMode = 'half-even' | 'half-up' | 'psychological';
+
+/**
+ * Currency of the backend catalog
+ */
+export const BASE_CURRENCY: CurrencyCode = 'MXN';
+
+/**
+ * Values closer than this to .5 are treated as ties (absorbs float noise)
+ */
+const TIE_EPSILON = 1e-9;
+
+/**
+ * Error thrown for invalid amounts and mixed-currency arithmetic
+ */
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoneyError';
+  }
+}
+
+/**
+ * Cached minor unit digits per currency
+ */
+const minorUnitDigits = new Map<CurrencyCode, number>();
+
+/**
+ * Number of decimal digits of a currency's minor unit (2 for MXN, 0 for JPY)
+ */
+export function getMinorUnitDigits(currency: CurrencyCode): number {
+  let digits = minorUnitDigits.get(currency);
+  if (digits === undefined) {
+    digits = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    minorUnitDigits.set(currency, digits);
+  }
+  return digits;
+}
+
+/**
+ * Round a fractional number of minor units to an integer
+ *
+ * @param value - Amount in (possibly fractional) minor units
+ * @param mode - Rounding mode
+ * @returns number - Integer minor units
+ *
+ * @example
+ * ```typescript
+ * roundMinorUnits(12.5, 'half-even');       // 12
+ * roundMinorUnits(12.5, 'half-up');         // 13
+ * roundMinorUnits(24_950, 'psychological'); // 24_999
+ * ```
+ */
+export function roundMinorUnits(value: number, mode: RoundingMode): number {
+  if (!Number.isFinite(value)) {
+    throw new MoneyError(`Cannot round a non-finite amount (${value})`);
+  }
+
+  const floor = Math.floor(value);
+  const isTie = Math.abs(value - floor - 0.5) < TIE_EPSILON;
+
+  switch (mode) {
+    case 'half-even':
+      if (isTie) return floor % 2 === 0 ? floor : floor + 1;
+      return Math.round(value);
+    case 'half-up':
+      if (isTie) return value < 0 ? floor : floor + 1;
+      return Math.round(value);
+    case 'psychological': {
+      // Nearest n·100 − 1, never below zero
+      const rounded = roundMinorUnits((value + 1) / 100, 'half-up') * 100 - 1;
+      return rounded < 0 ? 0 : rounded;
+    }
+  }
+}
+
+/**
+ * Create a Money value from integer minor units
+ *
+ * @example
+ * ```typescript
+ * money(124950); // { amount: 124950, currency: "MXN" }
+ * ```
+ */
+export function money(amount: number, currency: CurrencyCode = BASE_CURRENCY): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new MoneyError(`Money amounts must be integer minor units, got ${amount}`);
+  }
+  return { amount, currency };
+}
+
+/**
+ * Create a Money value from a decimal amount in major units
+ *
+ * Decimal strings are parsed digit by digit, so "1.005" is exactly
+ * 100.5 centavos before rounding instead of 100.49999….
+ *
+ * @param value - Decimal amount (e.g. 1249.5 or "1249.50")
+ * @param currency - Currency code (default: BASE_CURRENCY)
+ * @param mode - Rounding for digits beyond the minor unit (default: half-even)
+ *
+ * @example
+ * ```typescript
+ * fromMajor('1249.50');                 // { amount: 124950, currency: "MXN" }
+ * fromMajor(1.005, 'MXN', 'half-up');   // { amount: 101, currency: "MXN" }
+ * fromMajor(1.005, 'MXN', 'half-even'); // { amount: 100, currency: "MXN" }
+ * ```
+ */
+export function fromMajor(
+  value: number | string,
+  currency: CurrencyCode = BASE_CURRENCY,
+  mode: RoundingMode = 'half-even'
+): Money {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new MoneyError(`Invalid amount "${value}"`);
+  }
+
+  // Shortest round-trip form keeps what the author wrote ("1.005", not 1.00499…)
+  const text = typeof value === 'number'
+    ? (/e/i.test(String(value)) ? value.toFixed(20) : String(value))
+    : value.trim();
+
+  const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new MoneyError(`Invalid amount "${value}"`);
+  }
+
+  const [, sign, whole = '', fraction = ''] = match;
+  const digits = getMinorUnitDigits(currency);
+  const kept = fraction.slice(0, digits).padEnd(digits, '0');
+  const rest = fraction.slice(digits);
+
+  const minor = Number(whole || '0') * 10 ** digits + Number(kept || '0');
+  const exact = minor + (rest ? Number(`0.${rest}`) : 0);
+  const rounded = roundMinorUnits(sign === '-' ? -exact : exact, mode);
+
+  return money(rounded === 0 ? 0 : rounded, currency);
+}
+
+/**
+ * Decimal amount in major units, for API payloads and Intl formatting
+ *
+ * @example
+ * ```typescript
+ * toMajor(money(124950)); // 1249.5
+ * ```
+ */
+export function toMajor(value: Money): number {
+  return value.amount / 10 ** getMinorUnitDigits(value.currency);
+}
+
+/**
+ * Throw unless both values share a currency
+ */
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new MoneyError(`Currency mismatch: ${a.currency} vs ${b.currency}`);
+  }
+}
+
+/**
+ * Add two amounts of the same currency
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+/**
+ * Subtract `b` from `a` (same currency)
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+/**
+ * Sum amounts of one currency (zero for an empty list)
+ *
+ * @example
+ * ```typescript
+ * sumMoney(items.map(item => item.finalPrice));
+ * ```
+ */
+export function sumMoney(values: Money[], currency: CurrencyCode = values[0]?.currency ?? BASE_CURRENCY): Money {
+  return values.reduce(addMoney, money(0, currency));
+}
+
+/**
+ * Multiply an amount by a factor, rounding once at the end
+ *
+ * @param value - Amount to scale
+ * @param factor - Multiplier (e.g. 0.5 for half price, 3 for quantity)
+ * @param mode - Rounding mode (default: half-even)
+ *
+ * @example
+ * ```typescript
+ * multiplyMoney(money(101), 0.5);            // { amount: 50, ... } (50.5 → 50)
+ * multiplyMoney(money(101), 0.5, 'half-up'); // { amount: 51, ... }
+ * ```
+ */
+export function multiplyMoney(value: Money, factor: number, mode: RoundingMode = 'half-even'): Money {
+  return money(roundMinorUnits(value.amount * factor, mode), value.currency);
+}
+
+/**
+ * Compare two amounts of the same currency
+ *
+ * @returns number - Negative when a < b, zero when equal, positive when a > b
+ */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.amount - b.amount;
+}
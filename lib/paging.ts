@@ -0,0 +1,27 @@
+import { LISTING_PAGE_SIZE } from './api';
+
+/**
+ * Results per page offered by the page size selector
+ * The default (LISTING_PAGE_SIZE) is omitted from the URL.
+ */
+export const PAGE_SIZE_OPTIONS = [12, 24, 48] as const;
+
+/**
+ * Page size used when `?pageSize=` is missing or not one of PAGE_SIZE_OPTIONS
+ */
+export const DEFAULT_PAGE_SIZE: number = LISTING_PAGE_SIZE;
+
+/**
+ * Read a `?pageSize=` value (unknown sizes fall back to DEFAULT_PAGE_SIZE)
+ */
+export function readPageSize(value: number | string | undefined): number {
+  return PAGE_SIZE_OPTIONS.find(size => size === Number(value)) ?? DEFAULT_PAGE_SIZE;
+}
+
+/**
+ * Read a `?page=` value (anything but a whole number above 1 is the first page)
+ */
+export function readPageNumber(value: number | string | undefined): number {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 1 ? page : 1;
+}
@@ -0,0 +1,152 @@
+/**
+ * Palindrome rules shared by the mock backend and the UI
+ * Normalisation follows prompts/api.md: lowercase, strip diacritics
+ * and special characters
+ */
+export const PALINDROME_RULES = {
+  /** Normalised input shorter than this is never a palindrome */
+  minLength: 2,
+} as const;
+
+/**
+ * Why a query is not a palindrome
+ * - empty: nothing left after normalisation (e.g. "!!!", "🦆🦆🦆")
+ * - too-short: fewer than `minLength` normalised characters
+ * - mismatch: a mirrored pair differs
+ */
+export type PalindromeFailureReason = 'empty' | 'too-short' | 'mismatch';
+
+/**
+ * Detailed palindrome check result
+ */
+export interface PalindromeResult {
+  /** Whether the input is a palindrome */
+  isPalindrome: boolean;
+  /** Normalised form that was compared (e.g. "anitalavalatina") */
+  normalized: string;
+  /** Index of each normalised character's grapheme in the original input */
+  sourceIndices: number[];
+  /** Mirrored index pairs into `normalized` that were compared, outermost first */
+  pairs: Array<[number, number]>;
+  /** First mirrored pair that differs (only when reason is 'mismatch') */
+  mismatch?: [number, number];
+  /** Reason for failure (undefined when isPalindrome is true) */
+  reason?: PalindromeFailureReason;
+}
+
+/**
+ * Options for checkPalindrome
+ */
+export interface PalindromeOptions {
+  /** Minimum normalised length (default: PALINDROME_RULES.minLength) */
+  minLength?: number;
+}
+
+/**
+ * Combining mark blocks removed after NFD decomposition
+ */
+const COMBINING_MARKS = /[\u0300-\u036f\u1ab0-\u1aff\u1dc0-\u1dff\u20d0-\u20ff\ufe20-\ufe2f]/g;
+
+/**
+ * Characters kept for comparison, matching the backend
+ */
+const KEPT_CHARACTER = /^[a-z0-9]$/;
+
+/**
+ * Split text into user-perceived characters (grapheme clusters)
+ * Falls back to code points where Intl.Segmenter is unavailable
+ */
+function splitGraphemes(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter('es', { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text), ({ segment }) => segment);
+  }
+  return Array.from(text);
+}
+
+/**
+ * Normalise one grapheme cluster
+ * NFD splits "á" into "a" + U+0301 and both "ñ" and "n" + U+0303 into
+ * "n" + U+0303, so stripping the marks folds ñ to n consistently.
+ * Clusters that still contain other characters (emoji, punctuation) are dropped.
+ */
+function normalizeGrapheme(grapheme: string): string {
+  const folded = grapheme.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+  return KEPT_CHARACTER.test(folded) ? folded : '';
+}
+
+/**
+ * Normalise text for palindrome comparison
+ *
+ * @example
+ * ```typescript
+ * normalizePalindromeText('Anita lava la tína'); // "anitalavalatina"
+ * normalizePalindromeText('¡Ñaña!');             // "nana"
+ * ```
+ */
+export function normalizePalindromeText(text: string): string {
+  return splitGraphemes(text).map(normalizeGrapheme).join('');
+}
+
+/**
+ * Check whether a query is a palindrome, with a detailed explanation
+ *
+ * Features:
+ * - Unicode NFD normalisation with diacritics stripped (backend rules)
+ * - Consistent ñ folding for precomposed and decomposed input
+ * - Grapheme-cluster aware: emoji and combined sequences count as one character
+ * - Empty and too-short normalised input is rejected
+ * - Mirrored index pairs and the first mismatch for UI explanations
+ *
+ * @param input - Raw query
+ * @param options - Minimum length override
+ * @returns PalindromeResult - Verdict, normalised form and comparison details
+ *
+ * @example
+ * ```typescript
+ * checkPalindrome('Anita lava la tína').isPalindrome; // true
+ * checkPalindrome('🦆🦆🦆').reason;                    // "empty"
+ * checkPalindrome('radio').mismatch;                  // [0, 4]
+ * ```
+ */
+export function checkPalindrome(input: string, options: PalindromeOptions = {}): PalindromeResult {
+  const { minLength = PALINDROME_RULES.minLength } = options;
+
+  const characters: string[] = [];
+  const sourceIndices: number[] = [];
+
+  splitGraphemes(input).forEach((grapheme, index) => {
+    const normalized = normalizeGrapheme(grapheme);
+    if (normalized) {
+      characters.push(normalized);
+      sourceIndices.push(index);
+    }
+  });
+
+  const normalized = characters.join('');
+  const base = { normalized, sourceIndices, pairs: [] as Array<[number, number]> };
+
+  if (characters.length === 0) {
+    return { ...base, isPalindrome: false, reason: 'empty' };
+  }
+
+  if (characters.length < minLength) {
+    return { ...base, isPalindrome: false, reason: 'too-short' };
+  }
+
+  for (let left = 0, right = characters.length - 1; left < right; left++, right--) {
+    base.pairs.push([left, right]);
+    if (characters[left] !== characters[right]) {
+      return { ...base, isPalindrome: false, mismatch: [left, right], reason: 'mismatch' };
+    }
+  }
+
+  return { ...base, isPalindrome: true };
+}
+
+/**
+ * Shorthand for `checkPalindrome(input).isPalindrome`
+ */
+export function isPalindrome(input: string): boolean {
+  return checkPalindrome(input).isPalindrome;
+}
@@ -0,0 +1,175 @@
+import { ApiClientError } from './http';
+
+/**
+ * Cached entry with its creation time
+ */
+export interface CacheEntry<T> {
+  value: T;
+  /** Epoch ms when the value was stored */
+  updatedAt: number;
+}
+
+/**
+ * Options for a cache lookup
+ */
+export interface CacheLookupOptions {
+  /** Entries older than this are treated as missing */
+  ttlMs: number;
+}
+
+/**
+ * Client-side query cache interface
+ */
+export interface QueryCache<T> {
+  /** Read a live entry (refreshes its LRU position) */
+  get: (key: string, options: CacheLookupOptions) => CacheEntry<T> | undefined;
+  /** Store a value */
+  set: (key: string, value: T) => void;
+  /**
+   * Load a value, sharing one request between identical concurrent callers
+   * The underlying request is only aborted when every caller has aborted
+   */
+  fetch: (key: string, loader: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  /** Remove one entry, or all entries when no key is given */
+  invalidate: (key?: string) => void;
+}
+
+/**
+ * In-flight request shared between callers
+ */
+interface InFlight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  consumers: number;
+}
+
+/**
+ * Normalise a query into a cache key
+ * The backend matches case-insensitively, so "Abba " and "abba" share an entry
+ */
+export function normalizeQueryKey(query: string): string {
+  return query.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Create an LRU query cache with TTL and in-flight deduplication
+ *
+ * Features:
+ * - Least-recently-used eviction once `maxEntries` is reached
+ * - Per-lookup TTL so callers decide how old is too old
+ * - Identical concurrent loads share one request
+ * - Reference-counted cancellation: one caller aborting does not cancel the others
+ *
+ * @param maxEntries - Maximum number of cached queries (default: 50)
+ *
+ * @example
+ * ```typescript
+ * const cache = createQueryCache<SearchResponse>(50);
+ * const hit = cache.get(key, { ttlMs: 300_000 });
+ * const fresh = await cache.fetch(key, (signal) => searchProducts(q, signal), controller.signal);
+ * ```
+ */
+export function createQueryCache<T>(maxEntries: number = 50): QueryCache<T> {
+  // Map preserves insertion order: the first key is the least recently used
+  const entries = new Map<string, CacheEntry<T>>();
+  const inFlight = new Map<string, InFlight<T>>();
+
+  const get = (key: string, { ttlMs }: CacheLookupOptions): CacheEntry<T> | undefined => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.updatedAt > ttlMs) {
+      entries.delete(key);
+      return undefined;
+    }
+
+    // Refresh LRU position
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry;
+  };
+
+  const set = (key: string, value: T) => {
+    entries.delete(key);
+    entries.set(key, { value, updatedAt: Date.now() });
+
+    while (entries.size > maxEntries) {
+      const oldestKey = entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      entries.delete(oldestKey);
+    }
+  };
+
+  const fetch = (key: string, loader: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    // Already cancelled: never start (or join) a load nobody would await
+    if (signal?.aborted) {
+      return Promise.reject(new ApiClientError('Request was cancelled', 0, 'Request Cancelled'));
+    }
+
+    let shared = inFlight.get(key);
+
+    if (!shared) {
+      const controller = new AbortController();
+      const promise = loader(controller.signal)
+        .then((value) => {
+          set(key, value);
+          return value;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === shared) {
+            inFlight.delete(key);
+          }
+        });
+
+      shared = { promise, controller, consumers: 0 };
+      inFlight.set(key, shared);
+    }
+
+    const current = shared;
+    current.consumers++;
+
+    if (!signal) {
+      return current.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const release = () => {
+        current.consumers--;
+        if (current.consumers <= 0) {
+          current.controller.abort();
+          if (inFlight.get(key) === current) {
+            inFlight.delete(key);
+          }
+        }
+      };
+
+      const onAbort = () => {
+        release();
+        reject(new ApiClientError('Request was cancelled', 0, 'Request Cancelled'));
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      current.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  };
+
+  const invalidate = (key?: string) => {
+    if (key === undefined) {
+      entries.clear();
+    } else {
+      entries.delete(key);
+    }
+  };
+
+  return { get, set, fetch, invalidate };
+}
@@ -0,0 +1,201 @@
+import type { ApiProductItem, ApiSearchResponse, ProductItem, SearchResponse } from './types';
+import { fromMajor, toMajor } from './money';
+import { checkPalindrome } from './palindrome';
+import { createDiscountContext, evaluateDiscount } from './discounts/engine';
+import { getActiveDiscountConfig } from './discounts/campaigns';
+import type { DiscountConfig, DiscountContext } from './discounts/types';
+import { DEFAULT_LOCALE, type Locale } from './i18n/config';
+
+/**
+ * How backend/client disagreements are resolved
+ * - repair: prices follow the client's discount rules (lib/discounts)
+ * - strict: trust the backend only, never rewrite prices
+ */
+export type ReconciliationMode = 'repair' | 'strict';
+
+/**
+ * Reconciliation mode, set NEXT_PUBLIC_RECONCILIATION=strict to trust the backend only
+ */
+export const RECONCILIATION_MODE: ReconciliationMode =
+  process.env.NEXT_PUBLIC_RECONCILIATION === 'strict' ? 'strict' : 'repair';
+
+/**
+ * Which decision the backend and the client disagree on
+ */
+export type MismatchKind = 'palindrome' | 'finalPrice' | 'discountPercentage';
+
+/**
+ * Structured record of a single backend/client disagreement
+ */
+export interface ReconciliationEvent {
+  kind: MismatchKind;
+  /** Query as echoed by the backend */
+  query: string;
+  /** Affected item (undefined for query-level mismatches) */
+  itemId?: number;
+  /** Value the backend sent */
+  backend: boolean | number | undefined;
+  /** Value the client computed */
+  client: boolean | number | undefined;
+  /** Whether the client rewrote the backend value */
+  action: 'rewritten' | 'kept';
+  /** Epoch ms when the mismatch was detected */
+  timestamp: number;
+}
+
+/**
+ * Result of reconciling one search response
+ */
+export interface ReconciliationResult {
+  /** Response to render (only converted to Money in strict mode) */
+  response: SearchResponse;
+  /** Mismatches found */
+  events: ReconciliationEvent[];
+}
+
+/**
+ * Convert a backend item's decimal prices into Money
+ */
+function toProductItem(item: ApiProductItem): ProductItem {
+  return {
+    ...item,
+    originalPrice: fromMajor(item.originalPrice),
+    finalPrice: fromMajor(item.finalPrice),
+  };
+}
+
+/**
+ * Compare one item against the client's discount rules
+ * Prices are compared in whole cents after conversion to Money
+ */
+function reconcileItem(
+  apiItem: ApiProductItem,
+  context: DiscountContext,
+  config: DiscountConfig,
+  mode: ReconciliationMode,
+  locale: Locale,
+  record: (event: Omit<ReconciliationEvent, 'query' | 'timestamp'>) => void
+): ProductItem {
+  const item = toProductItem(apiItem);
+  const decision = evaluateDiscount(item, context, config, locale);
+  const expectedDiscount = decision.percentage > 0 ? decision.percentage : undefined;
+
+  const discountMismatch = item.discountPercentage !== expectedDiscount;
+  const priceMismatch = item.finalPrice.amount !== decision.finalPrice.amount;
+
+  const rewrite = mode === 'repair' && (discountMismatch || priceMismatch);
+  const action = rewrite ? 'rewritten' : 'kept';
+
+  if (discountMismatch) {
+    record({ kind: 'discountPercentage', itemId: item.id, backend: item.discountPercentage, client: expectedDiscount, action });
+  }
+  if (priceMismatch) {
+    record({ kind: 'finalPrice', itemId: item.id, backend: apiItem.finalPrice, client: toMajor(decision.finalPrice), action });
+  }
+
+  if (mode === 'strict') {
+    return item;
+  }
+
+  return {
+    ...item,
+    finalPrice: decision.finalPrice,
+    discountPercentage: expectedDiscount,
+    discountExplanation: expectedDiscount !== undefined ? decision.explanation : undefined,
+    discountEndsAt: expectedDiscount !== undefined ? decision.endsAt : undefined,
+  };
+}
+
+/**
+ * Compare a backend search response with the client's own decisions
+ *
+ * Checks the backend's `isPalindrome` against the shared palindrome engine
+ * and each item's `finalPrice`/`discountPercentage` against the discount
+ * rules. Every disagreement becomes a ReconciliationEvent. The backend's
+ * palindrome verdict is always kept. Decimal prices become Money here.
+ *
+ * @param response - Validated backend response
+ * @param mode - 'repair' prices items with the client rules, 'strict' never rewrites
+ * @param locale - Language of the discount explanations (default: DEFAULT_LOCALE)
+ * @returns ReconciliationResult - Response to render and mismatch events
+ *
+ * @example
+ * ```typescript
+ * const { response, events } = reconcileSearchResponse(data, 'strict');
+ * events.forEach(event => reconciliationLog.record(event));
+ * ```
+ */
+export function reconcileSearchResponse(
+  response: ApiSearchResponse,
+  mode: ReconciliationMode = RECONCILIATION_MODE,
+  locale: Locale = DEFAULT_LOCALE
+): ReconciliationResult {
+  const timestamp = Date.now();
+  const events: ReconciliationEvent[] = [];
+  const record = (event: Omit<ReconciliationEvent, 'query' | 'timestamp'>) => {
+    events.push({ ...event, query: response.query, timestamp });
+  };
+
+  const clientPalindrome = checkPalindrome(response.query).isPalindrome;
+  if (clientPalindrome !== response.isPalindrome) {
+    record({ kind: 'palindrome', backend: response.isPalindrome, client: clientPalindrome, action: 'kept' });
+  }
+
+  // Campaigns are resolved now, so results reflect the pricing in effect at fetch time
+  const context = createDiscountContext(response.query, response.isPalindrome);
+  const config = getActiveDiscountConfig();
+  const items = response.items.map(item => reconcileItem(item, context, config, mode, locale, record));
+
+  return {
+    response: { ...response, items },
+    events,
+  };
+}
+
+/**
+ * Log of reconciliation events with change subscriptions
+ */
+export interface ReconciliationLog {
+  /** Append events (keeps the most recent `maxEvents`) */
+  record: (events: ReconciliationEvent[]) => void;
+  /** Current events, oldest first (stable reference until the next change) */
+  getEvents: () => ReconciliationEvent[];
+  /** Subscribe to changes, returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+  /** Remove every event */
+  clear: () => void;
+}
+
+/**
+ * Create a bounded, subscribable reconciliation log
+ *
+ * @param maxEvents - Maximum number of events kept (default: 200)
+ */
+export function createReconciliationLog(maxEvents: number = 200): ReconciliationLog {
+  let events: ReconciliationEvent[] = [];
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  return {
+    record: (newEvents) => {
+      if (newEvents.length === 0) return;
+      events = [...events, ...newEvents].slice(-maxEvents);
+      notify();
+    },
+    getEvents: () => events,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    clear: () => {
+      events = [];
+      notify();
+    },
+  };
+}
+
+/**
+ * Shared log (module scope: per browser tab, or per server instance for SSR)
+ */
+export const reconciliationLog = createReconciliationLog();
@@ -0,0 +1,49 @@
+import type { Locale } from './i18n/config';
+import type { CategorySlug } from './categories';
+
+/**
+ * Locale-prefixed URLs of the app's pages
+ * Plain functions, so server and client components build the same links.
+ */
+
+/**
+ * Build the /[locale]/search URL for a query
+ *
+ * @example
+ * ```typescript
+ * getSearchHref('Anita lava la tina', 'es'); // "/es/search?q=Anita+lava+la+tina"
+ * getSearchHref('', 'en');                   // "/en/search"
+ * ```
+ */
+export function getSearchHref(query: string, locale: Locale): string {
+  const trimmed = query.trim();
+  return trimmed ? `/${locale}/search?${new URLSearchParams({ q: trimmed })}` : `/${locale}/search`;
+}
+
+/**
+ * Build the /[locale]/category/[slug] URL for a navigation category
+ *
+ * @example
+ * ```typescript
+ * getCategoryHref('rackets', 'es'); // "/es/category/rackets"
+ * ```
+ */
+export function getCategoryHref(slug: CategorySlug, locale: Locale): string {
+  return `/${locale}/category/${slug}`;
+}
+
+/**
+ * Build the /[locale]/products/[id] URL for a product
+ * The query travels along so the detail page can carry its palindrome discount over.
+ *
+ * @example
+ * ```typescript
+ * getProductHref(42, 'abba', 'es'); // "/es/products/42?q=abba"
+ * getProductHref(42, '', 'en');     // "/en/products/42"
+ * ```
+ */
+export function getProductHref(id: number, query: string, locale: Locale): string {
+  const trimmed = query.trim();
+  const path = `/${locale}/products/${id}`;
+  return trimmed ? `${path}?${new URLSearchParams({ q: trimmed })}` : path;
+}
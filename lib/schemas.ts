@@ -0,0 +1,73 @@
+import { array, boolean, number, numericString, object, optional, string } from './validation';
+
+/**
+ * Runtime schemas for every Palindrome API payload
+ *
+ * The TypeScript types in `types.ts` are derived from these, so the
+ * runtime checks and the static contract cannot drift apart.
+ */
+
+/**
+ * Single product as returned by /api/products/search
+ */
+export const ProductItemSchema = object({
+  id: number({ integer: true }),
+  title: string(),
+  brand: string(),
+  description: string(),
+  originalPrice: number({ min: 0 }),
+  finalPrice: number({ min: 0 }),
+  discountPercentage: optional(number({ min: 0 })),
+  imageUrl: optional(string()),
+  /** Client-side: why the discount applies, set by the discount rules engine */
+  discountExplanation: optional(string()),
+  /** Client-side: ISO instant when a campaign discount ends */
+  discountEndsAt: optional(string()),
+  /** Client-side: ISO creation date from /api/products (search results lack it) */
+  createdAt: optional(string()),
+});
+
+/**
+ * Response of /api/products/search
+ */
+export const SearchResponseSchema = object({
+  query: string(),
+  isPalindrome: boolean(),
+  items: array(ProductItemSchema),
+  totalItems: number({ integer: true, min: 0 }),
+});
+
+/**
+ * Product as returned by /api/products (price is a decimal string)
+ */
+export const ProductSchema = object({
+  id: number({ integer: true }),
+  title: string(),
+  brand: string(),
+  description: string(),
+  price: numericString(),
+  imageUrl: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+/**
+ * Response of /api/products
+ */
+export const ProductsResponseSchema = object({
+  products: array(ProductSchema),
+  totalItems: number({ integer: true, min: 0 }),
+  currentPage: number({ integer: true, min: 1 }),
+  totalPages: number({ integer: true, min: 0 }),
+  hasNext: boolean(),
+  hasPrevious: boolean(),
+});
+
+/**
+ * Error body returned by the backend
+ */
+export const ApiErrorSchema = object({
+  message: string(),
+  error: string(),
+  statusCode: number({ integer: true }),
+});
@@ -0,0 +1,123 @@
+import { checkPalindrome } from './palindrome';
+import { array, boolean, object, string, validate, type Infer } from './validation';
+
+/**
+ * Search history
+ *
+ * Past queries, most recent first, offered under the search input. A
+ * query searched again moves back to the top instead of repeating, and
+ * the oldest ones drop off past SEARCH_HISTORY_LIMIT. All functions are
+ * pure; useSearchHistory persists the state.
+ */
+
+/**
+ * localStorage key of the search history
+ */
+export const SEARCH_HISTORY_STORAGE_KEY = 'palindrome-web:search-history';
+
+/**
+ * Most queries kept
+ */
+export const SEARCH_HISTORY_LIMIT = 8;
+
+/**
+ * A past query as persisted
+ */
+export const SearchHistoryEntrySchema = object({
+  query: string(),
+  /** Whether the query was a palindrome (and so got the discount) */
+  isPalindrome: boolean(),
+  /** ISO instant of the last search */
+  searchedAt: string(),
+});
+
+/**
+ * Persisted search history payload
+ */
+export const SearchHistoryStorageSchema = object({
+  entries: array(SearchHistoryEntrySchema),
+});
+
+/**
+ * Single past query
+ */
+export type SearchHistoryEntry = Infer<typeof SearchHistoryEntrySchema>;
+
+/**
+ * Key two queries are duplicates by ("Abba " and "abba")
+ */
+function historyKey(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+}
+
+/**
+ * Record a search
+ *
+ * @param entries - Current entries
+ * @param query - Query as searched (blank queries are ignored)
+ * @returns SearchHistoryEntry[] - New entries, this query first (input is not mutated)
+ *
+ * @example
+ * ```typescript
+ * let entries = addToSearchHistory([], 'raqueta');
+ * entries = addToSearchHistory(entries, 'abba'); // [abba (palindrome), raqueta]
+ * entries = addToSearchHistory(entries, 'Raqueta'); // [Raqueta, abba]
+ * ```
+ */
+export function addToSearchHistory(entries: SearchHistoryEntry[], query: string): SearchHistoryEntry[] {
+  const trimmed = query.trim();
+  if (!trimmed) return entries;
+
+  return [
+    {
+      query: trimmed,
+      isPalindrome: checkPalindrome(trimmed).isPalindrome,
+      searchedAt: new Date().toISOString(),
+    },
+    ...removeFromSearchHistory(entries, trimmed),
+  ].slice(0, SEARCH_HISTORY_LIMIT);
+}
+
+/**
+ * Remove a past query
+ */
+export function removeFromSearchHistory(entries: SearchHistoryEntry[], query: string): SearchHistoryEntry[] {
+  const key = historyKey(query);
+  return entries.filter(entry => historyKey(entry.query) !== key);
+}
+
+/**
+ * Past queries containing what is being typed (all of them for an empty input)
+ *
+ * @param entries - Current entries
+ * @param value - Input value
+ * @returns SearchHistoryEntry[] - Matching entries, most recent first
+ */
+export function filterSearchHistory(entries: SearchHistoryEntry[], value: string): SearchHistoryEntry[] {
+  const key = historyKey(value);
+  return key ? entries.filter(entry => historyKey(entry.query).includes(key)) : entries;
+}
+
+/**
+ * Parse a persisted search history
+ * Malformed entries are dropped; unreadable payloads yield an empty history.
+ *
+ * @param raw - localStorage value (null when absent)
+ */
+export function parseStoredSearchHistory(raw: string | null): SearchHistoryEntry[] {
+  if (!raw) return [];
+
+  try {
+    const result = validate(SearchHistoryStorageSchema, JSON.parse(raw), 'lenient');
+    return result.ok ? result.value.entries.slice(0, SEARCH_HISTORY_LIMIT) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serialise entries for localStorage
+ */
+export function serializeSearchHistory(entries: SearchHistoryEntry[]): string {
+  return JSON.stringify({ entries });
+}
@@ -0,0 +1,104 @@
+/**
+ * Options for an in-memory TTL cache
+ */
+export interface TtlCacheOptions {
+  /** Time to live for each entry in milliseconds */
+  ttlMs: number;
+  /** Maximum number of entries before the oldest are evicted */
+  maxEntries: number;
+}
+
+/**
+ * Result of a cache lookup through `getOrLoad`
+ */
+export interface CacheLoadResult<T> {
+  value: T;
+  /** 'HIT' when served from cache, 'MISS' when loaded, 'SHARED' when joined an in-flight load */
+  status: 'HIT' | 'MISS' | 'SHARED';
+}
+
+/**
+ * In-memory TTL cache interface
+ */
+export interface TtlCache<T> {
+  /** Return a cached value or load it, sharing concurrent loads for the same key */
+  getOrLoad: (key: string, loader: () => Promise<T>) => Promise<CacheLoadResult<T>>;
+  /** Remove every entry */
+  clear: () => void;
+  /** Number of live entries */
+  size: () => number;
+}
+
+/**
+ * Create an in-memory TTL cache with stampede protection
+ *
+ * Features:
+ * - Entries expire after `ttlMs`
+ * - Concurrent misses for the same key share one loader call
+ * - Failed loads are never cached
+ * - Insertion-order eviction once `maxEntries` is reached
+ *
+ * Lives in module scope on the server, so it is per-instance and resets on deploy.
+ *
+ * @example
+ * ```typescript
+ * const cache = createTtlCache<SearchResponse>({ ttlMs: 60_000, maxEntries: 500 });
+ * const { value, status } = await cache.getOrLoad(key, () => fetchFromBackend());
+ * ```
+ */
+export function createTtlCache<T>({ ttlMs, maxEntries }: TtlCacheOptions): TtlCache<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  const inFlight = new Map<string, Promise<T>>();
+
+  const evictExpired = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  const getOrLoad = async (key: string, loader: () => Promise<T>): Promise<CacheLoadResult<T>> => {
+    const now = Date.now();
+    const cached = entries.get(key);
+
+    if (cached && cached.expiresAt > now) {
+      return { value: cached.value, status: 'HIT' };
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      return { value: await pending, status: 'SHARED' };
+    }
+
+    const load = loader()
+      .then((value) => {
+        evictExpired(Date.now());
+        while (entries.size >= maxEntries) {
+          const oldestKey = entries.keys().next().value;
+          if (oldestKey === undefined) break;
+          entries.delete(oldestKey);
+        }
+        entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        return value;
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+
+    inFlight.set(key, load);
+    return { value: await load, status: 'MISS' };
+  };
+
+  return {
+    getOrLoad,
+    clear: () => {
+      entries.clear();
+      inFlight.clear();
+    },
+    size: () => {
+      evictExpired(Date.now());
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { cache } from 'react';
+import { ApiClientError, convertProductToProductItem, fetchProductById, getProductsByBrand, getSearchErrorMessage } from '../api';
+import type { ProductItem } from '../types';
+import type { Locale } from '../i18n/config';
+import { getTranslator } from '../i18n/translator';
+import { loadSearchResults } from './search';
+
+/**
+ * How many products of the same brand the detail page lists
+ */
+export const RELATED_PRODUCTS_LIMIT = 4;
+
+/**
+ * Outcome of loading a product page, ready to render
+ */
+export interface ServerProductResult {
+  /** Product priced for this visit, or null when missing or failed */
+  item: ProductItem | null;
+  /** Search query whose discount carried over ("" when none applies) */
+  query: string;
+  /** Whether the backend has no product with this id */
+  notFound: boolean;
+  /** User-facing error message (empty string when no error) */
+  error: string;
+}
+
+/**
+ * Parse the [id] route segment (positive integers only)
+ */
+export function readProductId(value: string): number | null {
+  return /^[1-9]\d*$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * Price of the product as found by `query`, when that search discounted it
+ * Re-running the search (shared with /search through loadSearchResults) means
+ * a hand-edited ?q= cannot discount a product the search never returned.
+ */
+async function findCarriedOverItem(id: number, query: string, locale: Locale): Promise<ProductItem | undefined> {
+  if (!query) return undefined;
+
+  const { data } = await loadSearchResults(query, locale);
+  return data?.isPalindrome
+    ? data.items.find(item => item.id === id && item.discountPercentage)
+    : undefined;
+}
+
+/**
+ * Load a product for its detail page
+ *
+ * Wrapped in React `cache()` so generateMetadata and the page share
+ * one backend request per render.
+ *
+ * @param id - Product id
+ * @param query - Search the shopper arrived from ("" for none)
+ * @param locale - Language of explanations and error messages
+ * @returns ServerProductResult - Never throws, failures become `error`
+ */
+export const loadProduct = cache(async (id: number, query: string, locale: Locale): Promise<ServerProductResult> => {
+  try {
+    const product = await fetchProductById(id);
+    const carried = await findCarriedOverItem(id, query, locale);
+
+    return {
+      item: carried ?? convertProductToProductItem(product, '', locale),
+      query: carried ? query : '',
+      notFound: false,
+      error: '',
+    };
+  } catch (err) {
+    if (err instanceof ApiClientError && err.statusCode === 404) {
+      return { item: null, query: '', notFound: true, error: '' };
+    }
+
+    console.error('[product] Server-side product load failed:', err);
+    const t = getTranslator(locale);
+    return {
+      item: null,
+      query: '',
+      notFound: false,
+      error: getSearchErrorMessage(err, t) ?? t('errors.generic'),
+    };
+  }
+});
+
+/**
+ * Load other products of the same brand
+ * Products the carried-over search discounted keep that price.
+ *
+ * @param item - Product on the page
+ * @param query - Query whose discount carried over ("" for none)
+ * @param locale - Language of the discount explanations
+ * @returns Promise<ProductItem[]> - Up to RELATED_PRODUCTS_LIMIT products; empty on failure
+ */
+export async function loadRelatedProducts(item: ProductItem, query: string, locale: Locale): Promise<ProductItem[]> {
+  try {
+    const [sameBrand, search] = await Promise.all([
+      getProductsByBrand(item.brand, RELATED_PRODUCTS_LIMIT + 1, undefined, locale),
+      query ? loadSearchResults(query, locale) : Promise.resolve(null),
+    ]);
+    const discounted = new Map((search?.data?.items ?? []).map(found => [found.id, found]));
+
+    return sameBrand
+      .filter(related => related.id !== item.id)
+      .slice(0, RELATED_PRODUCTS_LIMIT)
+      .map(related => discounted.get(related.id) ?? related);
+  } catch (err) {
+    console.error('[product] Related products failed:', err);
+    return [];
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { ApiClientError, request, type QueryParams } from '../http';
+import type { ApiError } from '../types';
+import { createTtlCache } from './cache';
+
+/**
+ * Configuration for the backend-for-frontend proxy routes
+ */
+export const PROXY_CONFIG = {
+  /** How long a backend response stays in the in-memory cache */
+  ttlMs: 60_000,
+  maxEntries: 500,
+  /** Shared cache (CDN) lifetime in seconds */
+  sMaxAge: 60,
+  /** Window in which a CDN may serve stale content while revalidating */
+  staleWhileRevalidate: 300,
+} as const;
+
+/**
+ * Shared response cache for all proxy routes (module scope = per server instance)
+ */
+const responseCache = createTtlCache<unknown>({
+  ttlMs: PROXY_CONFIG.ttlMs,
+  maxEntries: PROXY_CONFIG.maxEntries,
+});
+
+/**
+ * Server-only backend base URL
+ * Must point at the real backend (or /api/mock), never at this app's /api/products
+ */
+function getBackendBaseUrl(): string | undefined {
+  return process.env.API_BASE_URL;
+}
+
+/**
+ * Normalise a search query so equivalent queries share a cache entry
+ * NFC-normalises, trims and collapses internal whitespace
+ */
+export function normalizeQuery(query: string): string {
+  return query.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Build a JSON error response in the backend's ApiError shape
+ */
+export function errorResponse(message: string, statusCode: number, error: string): NextResponse {
+  const body: ApiError = { message, error, statusCode };
+  return NextResponse.json(body, {
+    status: statusCode,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * Map an upstream failure onto the status the proxy should answer with
+ */
+function upstreamErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ApiClientError) {
+    if (error.statusCode && error.statusCode >= 400) {
+      return errorResponse(error.message, error.statusCode, error.error || 'Upstream Error');
+    }
+    if (error.error === 'Request Timeout') {
+      return errorResponse('El backend no respondió a tiempo', 504, 'Gateway Timeout');
+    }
+    return errorResponse('No se pudo conectar con el backend', 502, 'Bad Gateway');
+  }
+
+  return errorResponse('Error interno del proxy', 500, 'Internal Server Error');
+}
+
+/**
+ * Forward a GET to the backend through the shared cache
+ *
+ * Features:
+ * - Server-only backend URL (not exposed to the browser)
+ * - In-memory TTL cache with stampede protection, keyed by path + sorted query
+ * - `Cache-Control` with s-maxage/stale-while-revalidate on success, no-store on errors
+ * - Upstream failures mapped onto ApiError bodies (502/504 for network/timeout)
+ *
+ * @param path - Backend path (e.g. "/api/products/search")
+ * @param query - Already normalised query parameters
+ */
+export async function proxyGet(path: string, query: QueryParams): Promise<NextResponse> {
+  const baseUrl = getBackendBaseUrl();
+  if (!baseUrl) {
+    return errorResponse('API_BASE_URL no está configurada', 500, 'Configuration Error');
+  }
+
+  const cacheKey = `${path}?${Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join('&')}`;
+
+  try {
+    // The caller's abort signal is deliberately not forwarded:
+    // a shared load must survive one client disconnecting
+    const { value, status } = await responseCache.getOrLoad(cacheKey, () =>
+      request(path, { baseUrl, query, cache: 'no-store' })
+    );
+
+    return NextResponse.json(value, {
+      status: 200,
+      headers: {
+        'Cache-Control': `public, s-maxage=${PROXY_CONFIG.sMaxAge}, stale-while-revalidate=${PROXY_CONFIG.staleWhileRevalidate}`,
+        'X-Cache': status,
+      },
+    });
+  } catch (error) {
+    return upstreamErrorResponse(error);
+  }
+}
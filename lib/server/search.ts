@@ -0,0 +1,106 @@
+import { cache } from 'react';
+import { getAllProducts, getProductsByCategory, getSearchErrorMessage, searchProducts } from '../api';
+import type { SearchResponse } from '../types';
+import type { Locale } from '../i18n/config';
+import type { Category } from '../categories';
+import { getTranslator, type Translator } from '../i18n/translator';
+import { DEFAULT_PAGE_SIZE } from '../paging';
+
+/**
+ * Outcome of a server-side search, ready to render
+ */
+export interface ServerSearchResult {
+  /** Trimmed query ("" lists all products) */
+  query: string;
+  /** Results, or null when the request failed */
+  data: SearchResponse | null;
+  /** User-facing error message (empty string when no error) */
+  error: string;
+}
+
+/**
+ * Read the `q` search param (first value wins when repeated)
+ */
+export function readQueryParam(value: string | string[] | undefined): string {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return (raw ?? '').trim();
+}
+
+/**
+ * Run a search on the server
+ *
+ * Wrapped in React `cache()` so generateMetadata and the page share
+ * one backend request per render. The listing (empty query) fetches just
+ * the requested page; a search returns every match, paged on the client.
+ *
+ * @param query - Trimmed query; empty lists all products
+ * @param locale - Language of explanations and error messages
+ * @param page - Listing page, 1-based (default: 1)
+ * @param pageSize - Listing page size (default: DEFAULT_PAGE_SIZE)
+ * @returns ServerSearchResult - Never throws, failures become `error`
+ */
+export const loadSearchResults = cache(async (
+  query: string,
+  locale: Locale,
+  page: number = 1,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<ServerSearchResult> => {
+  try {
+    const data = query
+      ? await searchProducts(query, undefined, locale)
+      : await getAllProducts(undefined, locale, { limit: pageSize, offset: (page - 1) * pageSize });
+    return { query, data, error: '' };
+  } catch (err) {
+    console.error('[search] Server-side search failed:', err);
+    const t = getTranslator(locale);
+    return {
+      query,
+      data: null,
+      error: getSearchErrorMessage(err, t) ?? t('errors.generic'),
+    };
+  }
+});
+
+/**
+ * List a navigation category on the server
+ *
+ * Same shape as loadSearchResults (with an empty query), so category
+ * pages render through the same result list.
+ *
+ * @param category - Category from lib/categories
+ * @param locale - Language of explanations and error messages
+ * @returns ServerSearchResult - Never throws, failures become `error`
+ */
+export const loadCategoryResults = cache(async (category: Category, locale: Locale): Promise<ServerSearchResult> => {
+  try {
+    const data = await getProductsByCategory(category, undefined, locale);
+    return { query: '', data, error: '' };
+  } catch (err) {
+    console.error(`[search] Server-side listing of category "${category.slug}" failed:`, err);
+    const t = getTranslator(locale);
+    return {
+      query: '',
+      data: null,
+      error: getSearchErrorMessage(err, t) ?? t('errors.generic'),
+    };
+  }
+});
+
+/**
+ * Page title for a search, e.g. "abba — 50% de descuento"
+ *
+ * @param result - Server search result
+ * @param t - Translator for the page's locale
+ * @returns string | undefined - Title, or undefined to keep the default
+ */
+export function buildSearchTitle({ query, data }: ServerSearchResult, t: Translator): string | undefined {
+  if (!query) return undefined;
+
+  const discount = data?.isPalindrome
+    ? data.items.find(item => item.discountPercentage)?.discountPercentage
+    : undefined;
+
+  return discount
+    ? t('metadata.searchDiscountTitle', { query, percent: discount })
+    : t('metadata.searchTitle', { query });
+}
@@ -0,0 +1,11 @@
+import { money, type Money } from './money';
+
+/**
+ * Shipping rules, in the catalog currency
+ * Display code converts these with the shopper's currency (useCurrency)
+ */
+
+/**
+ * Orders above this amount ship for free ($1,000 MXN)
+ */
+export const FREE_SHIPPING_THRESHOLD: Money = money(100_000);
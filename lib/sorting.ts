@@ -0,0 +1,82 @@
+import type { ProductItem } from './types';
+import { compareMoney } from './money';
+import type { Locale } from './i18n/config';
+
+/**
+ * Result orders offered by the sort selector
+ * `relevance` keeps the backend's order and is omitted from the URL.
+ */
+export const SORT_KEYS = ['relevance', 'price-asc', 'price-desc', 'discount', 'title', 'newest'] as const;
+export type SortKey = typeof SORT_KEYS[number];
+
+/**
+ * Order used when `?sort=` is missing or unknown
+ */
+export const DEFAULT_SORT: SortKey = 'relevance';
+
+/**
+ * Read a `?sort=` value (unknown values fall back to DEFAULT_SORT)
+ */
+export function readSortKey(value: string | undefined): SortKey {
+  return SORT_KEYS.find(key => key === value) ?? DEFAULT_SORT;
+}
+
+/**
+ * Sort keys that can order these products
+ * `newest` needs creation dates, which search results do not carry.
+ *
+ * @example
+ * ```typescript
+ * getSortKeys(data.items); // no 'newest' for search results
+ * ```
+ */
+export function getSortKeys(items: ProductItem[]): SortKey[] {
+  const hasDates = items.some(item => item.createdAt);
+  return SORT_KEYS.filter(key => key !== 'newest' || hasDates);
+}
+
+/**
+ * Compare two products for one sort key (0 keeps their current order)
+ */
+function compareItems(a: ProductItem, b: ProductItem, sort: SortKey, collator: Intl.Collator): number {
+  switch (sort) {
+    case 'price-asc':
+      return compareMoney(a.finalPrice, b.finalPrice);
+    case 'price-desc':
+      return compareMoney(b.finalPrice, a.finalPrice);
+    case 'discount':
+      return (b.discountPercentage ?? 0) - (a.discountPercentage ?? 0);
+    case 'title':
+      return collator.compare(a.title, b.title);
+    case 'newest':
+      // Products without a creation date (search results) go last
+      if (!a.createdAt || !b.createdAt) return Number(!a.createdAt) - Number(!b.createdAt);
+      return Date.parse(b.createdAt) - Date.parse(a.createdAt);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Sort products for display
+ *
+ * Stable: products that tie keep the backend's (relevance) order.
+ * Titles use the locale's collation, so "Ñ" sorts after "N" and accents
+ * do not push "Águila" behind "Zapatillas" in Spanish.
+ *
+ * @param items - Products in backend order
+ * @param sort - Sort key
+ * @param locale - Locale for title collation
+ * @returns ProductItem[] - New sorted array (the input is left untouched)
+ *
+ * @example
+ * ```typescript
+ * sortItems(data.items, 'price-asc', 'es');
+ * ```
+ */
+export function sortItems(items: ProductItem[], sort: SortKey, locale: Locale): ProductItem[] {
+  if (sort === DEFAULT_SORT) return items;
+
+  const collator = new Intl.Collator(locale, { sensitivity: 'base', numeric: true });
+  return [...items].sort((a, b) => compareItems(a, b, sort, collator));
+}
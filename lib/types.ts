@@ -1,41 +1,34 @@
-export type ProductItem = {
-  id: number;
-  title: string;
-  brand: string;
-  description: string;
-  originalPrice: number;
-  finalPrice: number;
-  discountPercentage?: number;
-  imageUrl?: string; // 🆕 Nueva propiedad para imágenes (opcional hasta que el backend la implemente)
+import type { Infer } from './validation';
+import type {
+  ProductItemSchema,
+  SearchResponseSchema,
+  ProductSchema,
+  ProductsResponseSchema,
+  ApiErrorSchema,
+} from './schemas';
+import type { Money } from './money';
+
+// Los tipos del contrato se derivan de los esquemas en schemas.ts
+// imageUrl es opcional hasta que el backend la implemente
+// En el contrato los precios son decimales (unidades mayores)
+export type ApiProductItem = Infer<typeof ProductItemSchema>;
+
+export type ApiSearchResponse = Infer<typeof SearchResponseSchema>;
+
+// En el cliente los precios son Money (centavos enteros + moneda)
+export type ProductItem = Omit<ApiProductItem, 'originalPrice' | 'finalPrice'> & {
+  originalPrice: Money;
+  finalPrice: Money;
 };
 
-export type SearchResponse = {
-  query: string;
-  isPalindrome: boolean;
+export type SearchResponse = Omit<ApiSearchResponse, 'items'> & {
   items: ProductItem[];
-  totalItems: number;
 };
 
 // 🆕 Tipos para el nuevo endpoint /api/products
-export type Product = {
-  id: number;
-  title: string;
-  brand: string;
-  description: string;
-  price: string;
-  imageUrl?: string; // Opcional hasta que el backend lo implemente
-  createdAt: string;
-  updatedAt: string;
-};
+export type Product = Infer<typeof ProductSchema>;
 
-export type ProductsResponse = {
-  products: Product[];
-  totalItems: number;
-  currentPage: number;
-  totalPages: number;
-  hasNext: boolean;
-  hasPrevious: boolean;
-};
+export type ProductsResponse = Infer<typeof ProductsResponseSchema>;
 
 // 🆕 Parámetros de paginación
 export type PaginationParams = {
@@ -44,8 +37,4 @@ export type PaginationParams = {
   page?: number;
 };
 
-export type ApiError = {
-  message: string;
-  error: string;
-  statusCode: number;
-};
+export type ApiError = Infer<typeof ApiErrorSchema>;
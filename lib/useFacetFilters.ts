@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useMemo } from 'react';
+import { useUrlSearchState } from './useUrlSearchState';
+import { readFacetFilters, writeFacetFilters, type FacetFilters } from './facets';
+
+/**
+ * Return type for useFacetFilters hook
+ */
+export interface UseFacetFiltersReturn {
+  /** Filters parsed from the current URL */
+  filters: FacetFilters;
+  /** Replace the filters (back to the first page) */
+  setFilters: (filters: FacetFilters) => void;
+}
+
+/**
+ * Custom hook keeping the result filters in the URL
+ *
+ * Filters live next to the query (`?q=tennis&brand=Wilson&maxPrice=1500`),
+ * so filtered results are shareable and survive reloads. Like
+ * useUrlSearchState, it must render inside a `<Suspense>` boundary.
+ *
+ * @returns UseFacetFiltersReturn - Current filters and setter
+ *
+ * @example
+ * ```tsx
+ * const { filters, setFilters } = useFacetFilters();
+ * <ResultList data={data} status="success" filters={filters} onFiltersChange={setFilters} />
+ * ```
+ */
+export function useFacetFilters(): UseFacetFiltersReturn {
+  const { state, update } = useUrlSearchState();
+
+  const filters = useMemo(() => readFacetFilters(state.filters), [state.filters]);
+
+  const setFilters = useCallback((next: FacetFilters) => {
+    update({ filters: writeFacetFilters(state.filters, next), page: 1 });
+  }, [state.filters, update]);
+
+  return { filters, setFilters };
+}
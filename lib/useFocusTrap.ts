@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from "react";
+
+/**
+ * Elements that can receive keyboard focus
+ */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+/**
+ * Custom hook keeping keyboard focus inside a dialog while it is open
+ *
+ * Moves focus into the container on open, wraps Tab and Shift+Tab at
+ * its edges, and returns focus to the element that had it (e.g. the
+ * product card that opened a quick view) on close.
+ *
+ * @param active - Whether the trap is on
+ * @returns RefObject - Attach to the dialog container
+ *
+ * @example
+ * ```tsx
+ * const dialogRef = useFocusTrap<HTMLDivElement>(isOpen);
+ * return <div ref={dialogRef} role="dialog" aria-modal="true">…</div>;
+ * ```
+ */
+export function useFocusTrap<T extends HTMLElement>(active: boolean): RefObject<T | null> {
+  const containerRef = useRef<T>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const getFocusable = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+
+    if (!container.contains(document.activeElement)) {
+      (getFocusable()[0] ?? container).focus();
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Tab') return;
+
+      const focusable = getFocusable();
+      if (focusable.length === 0) {
+        event.preventDefault();
+        return;
+      }
+
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (event.shiftKey && document.activeElement === first) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && document.activeElement === last) {
+        event.preventDefault();
+        first.focus();
+      } else if (!container.contains(document.activeElement)) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      previouslyFocused?.focus?.();
+    };
+  }, [active]);
+
+  return containerRef;
+}
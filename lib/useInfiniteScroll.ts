@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from 'react';
+
+/**
+ * Custom hook calling `onReach` whenever a sentinel element scrolls into view
+ *
+ * The sentinel sits after the last result; a margin below the viewport
+ * starts the next page before the shopper reaches the end.
+ *
+ * @param onReach - Called each time the sentinel becomes visible
+ * @param enabled - Whether to observe (e.g. more pages exist and none is loading)
+ * @returns RefObject - Attach to the sentinel element
+ *
+ * @example
+ * ```tsx
+ * const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, hasMore && !isLoadingMore);
+ * return <div ref={sentinelRef} aria-hidden="true" />;
+ * ```
+ */
+export function useInfiniteScroll<T extends HTMLElement>(onReach: () => void, enabled: boolean): RefObject<T | null> {
+  const sentinelRef = useRef<T>(null);
+
+  // Latest callback without re-creating the observer
+  const onReachRef = useRef(onReach);
+  onReachRef.current = onReach;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) onReachRef.current();
+      },
+      { rootMargin: '0px 0px 400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { getListingPage, getSearchErrorMessage } from './api';
+import type { ProductItem, SearchResponse } from './types';
+import type { Locale } from './i18n/config';
+import { getTranslator } from './i18n/translator';
+
+/**
+ * How further pages are requested
+ * - button: the "Cargar más productos" button
+ * - infinite: automatically when the end of the grid scrolls into view (button as fallback)
+ */
+export type LoadMoreMode = 'button' | 'infinite';
+
+/**
+ * Pages loaded on top of one response
+ */
+interface LoadedPages {
+  /** Response the pages extend */
+  source: SearchResponse | null | undefined;
+  items: ProductItem[];
+  hasNext: boolean;
+  isLoading: boolean;
+  error: string;
+}
+
+/**
+ * Return type for useLoadMore hook
+ */
+export interface UseLoadMoreReturn {
+  /** Response items followed by every loaded page */
+  items: ProductItem[];
+  /** Whether another page can be loaded */
+  hasMore: boolean;
+  /** Whether a page is loading */
+  isLoadingMore: boolean;
+  /** User-facing error of the last page request (empty string when none) */
+  error: string;
+  /** Load the next page (ignored while one is loading) */
+  loadMore: () => void;
+}
+
+// Shared so a response without pages keeps a stable items array across renders
+const NO_ITEMS: ProductItem[] = [];
+
+/**
+ * Nothing loaded yet for `source`
+ */
+function emptyPages(source: SearchResponse | null | undefined): LoadedPages {
+  return { source, items: NO_ITEMS, hasNext: true, isLoading: false, error: '' };
+}
+
+/**
+ * Custom hook appending further catalog pages to a listing response
+ *
+ * Only plain listings (empty query) are paged: searches return every
+ * match at once. A new response (e.g. the query changed) starts over and
+ * cancels the page in flight; a page that still arrives for an older
+ * response is discarded.
+ *
+ * @param data - Current response
+ * @param locale - Language of discount explanations and error messages
+ * @returns UseLoadMoreReturn - Items shown, paging state and loader
+ *
+ * @example
+ * ```tsx
+ * const { items, hasMore, isLoadingMore, loadMore } = useLoadMore(data, locale);
+ * {hasMore && <button onClick={loadMore} disabled={isLoadingMore}>…</button>}
+ * ```
+ */
+export function useLoadMore(data: SearchResponse | null | undefined, locale: Locale): UseLoadMoreReturn {
+  const [loaded, setLoaded] = useState<LoadedPages>(() => emptyPages(data));
+
+  // Pages of an older response never leak into the current one
+  const current = loaded.source === data ? loaded : emptyPages(data);
+
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A new response cancels the page in flight
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, [data]);
+
+  const items = useMemo(
+    () => (data?.items ? [...data.items, ...current.items] : []),
+    [data, current.items]
+  );
+
+  const hasMore = !!data && !data.query && current.hasNext && items.length < data.totalItems;
+
+  const loadMore = useCallback(async () => {
+    const source = dataRef.current;
+    if (!source || controllerRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const shown = [...source.items, ...currentRef.current.items];
+
+    setLoaded(state => ({ ...(state.source === source ? state : emptyPages(source)), isLoading: true, error: '' }));
+
+    try {
+      const page = await getListingPage(shown.length, controller.signal, locale);
+      if (controller.signal.aborted || dataRef.current !== source) return;
+
+      // Skip products already shown in case the catalog shifted between pages
+      const shownIds = new Set(shown.map(item => item.id));
+      const fresh = page.items.filter(item => !shownIds.has(item.id));
+
+      setLoaded(state => {
+        const base = state.source === source ? state : emptyPages(source);
+        return {
+          ...base,
+          items: [...base.items, ...fresh],
+          hasNext: page.hasNext && fresh.length > 0,
+          isLoading: false,
+        };
+      });
+    } catch (err) {
+      if (controller.signal.aborted || dataRef.current !== source) return;
+
+      console.error('[useLoadMore] Loading the next page failed:', err);
+      const t = getTranslator(locale);
+      setLoaded(state => ({
+        ...(state.source === source ? state : emptyPages(source)),
+        isLoading: false,
+        error: getSearchErrorMessage(err, t) ?? t('errors.generic'),
+      }));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  }, [locale]);
+
+  return {
+    items,
+    hasMore,
+    isLoadingMore: current.isLoading,
+    error: current.error,
+    loadMore,
+  };
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { now } from "./clock";
+
+/**
+ * Custom hook returning the current time, refreshed on an interval
+ * 
+ * Returns null until mounted so server and client render the same
+ * markup (no hydration mismatch for countdowns).
+ * 
+ * @param intervalMs - Refresh interval in milliseconds (default: 1000)
+ * @returns Date | null - Current time from the injectable clock
+ * 
+ * @example
+ * ```typescript
+ * const current = useNow();
+ * const remaining = current ? endsAt.getTime() - current.getTime() : null;
+ * ```
+ */
+export function useNow(intervalMs: number = 1000): Date | null {
+  const [current, setCurrent] = useState<Date | null>(null);
+
+  useEffect(() => {
+    setCurrent(now());
+    const intervalId = setInterval(() => setCurrent(now()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [intervalMs]);
+
+  return current;
+}
@@ -1,6 +1,13 @@
 "use client";
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
+
+/**
+ * How the backend pages its results
+ * - offset: `limit`/`offset` parameters, any page reachable directly
+ * - cursor: an opaque token per page, pages become reachable as the previous one loads
+ */
+export type PaginationMode = 'offset' | 'cursor';
 
 /**
  * Pagination state interface
@@ -18,7 +25,7 @@ export interface PaginationState {
  * Pagination calculations interface
  */
 export interface PaginationCalc {
-  /** Total number of pages */
+  /** Total number of pages (pages reached so far in cursor mode) */
   totalPages: number;
   /** Start index for current page (0-based) */
   startIndex: number;
@@ -26,12 +33,31 @@ export interface PaginationCalc {
   endIndex: number;
   /** Offset for API calls */
   offset: number;
+  /** Cursor for API calls (null for the first page and in offset mode) */
+  cursor: string | null;
   /** Whether there is a previous page */
   hasPrevious: boolean;
   /** Whether there is a next page */
   hasNext: boolean;
 }
 
+/**
+ * Options for usePagination hook
+ */
+export interface UsePaginationOptions {
+  /** Controlled current page, e.g. read from `?page=` */
+  page?: number;
+  /** Controlled items per page, e.g. read from `?pageSize=` */
+  itemsPerPage?: number;
+  /**
+   * Called with every page or page size change (write controlled values back here);
+   * `clamped` when the page moved because the total shrank rather than by navigation
+   */
+  onChange?: (state: { page: number; itemsPerPage: number }, clamped: boolean) => void;
+  /** How the backend pages (default: offset) */
+  mode?: PaginationMode;
+}
+
 /**
  * Return type for usePagination hook
  */
@@ -50,8 +76,19 @@ export interface UsePaginationReturn extends PaginationState, PaginationCalc {
   reset: (totalItems?: number) => void;
   /** Update items per page */
   setItemsPerPage: (itemsPerPage: number) => void;
-  /** Update total items */
+  /** Update total items (the current page moves back when it no longer exists) */
   setTotalItems: (totalItems: number) => void;
+  /** Record the cursor the backend returned for the page after the current one (null: it was the last) */
+  setNextCursor: (cursor: string | null) => void;
+}
+
+/**
+ * Page count: from the total in offset mode, the pages reached so far in cursor mode
+ */
+function countPages(mode: PaginationMode, totalItems: number, itemsPerPage: number, nextCursors: string[]): number {
+  return mode === 'cursor'
+    ? 1 + nextCursors.length
+    : Math.max(1, Math.ceil(totalItems / itemsPerPage));
 }
 
 /**
@@ -59,13 +96,15 @@ export interface UsePaginationReturn extends PaginationState, PaginationCalc {
  * 
  * Features:
  * - Complete pagination state management
- * - Automatic bounds checking
+ * - Automatic bounds checking, also when the total shrinks (e.g. a new search)
  * - Calculated values for rendering
- * - API-friendly offset calculation
+ * - API-friendly offset calculation, or cursors for cursor-based backends
+ * - Optionally controlled page and page size (e.g. mirrored into the URL)
  * - Navigation helpers
  * 
  * @param initialItemsPerPage - Initial items per page (default: 20)
  * @param initialTotalItems - Initial total items (default: 0)
+ * @param options - Controlled state and backend mode
  * @returns UsePaginationReturn - Pagination state and controls
  * 
  * @example
@@ -86,25 +125,38 @@ export interface UsePaginationReturn extends PaginationState, PaginationCalc {
  *     </div>
  *   );
  * }
+ *
+ * // Cursor-based backend: hand back the token of the following page
+ * const pagination = usePagination(20, 0, { mode: 'cursor' });
+ * const page = await fetchPage({ limit: pagination.itemsPerPage, cursor: pagination.cursor });
+ * pagination.setNextCursor(page.nextCursor);
  * ```
  */
 export function usePagination(
   initialItemsPerPage: number = 20,
-  initialTotalItems: number = 0
+  initialTotalItems: number = 0,
+  options: UsePaginationOptions = {}
 ): UsePaginationReturn {
-  
-  // Core state
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPageState] = useState(initialItemsPerPage);
+  const { mode = 'offset' } = options;
+
+  // Core state (page and page size are overridden when controlled)
+  const [pageState, setPageState] = useState(options.page ?? 1);
+  const [itemsPerPageState, setItemsPerPageState] = useState(options.itemsPerPage ?? initialItemsPerPage);
   const [totalItems, setTotalItemsState] = useState(initialTotalItems);
+  // Cursor of page n + 2 at index n
+  const [nextCursors, setNextCursors] = useState<string[]>([]);
+
+  const currentPage = options.page ?? pageState;
+  const itemsPerPage = options.itemsPerPage ?? itemsPerPageState;
 
   // Calculated values
   const calculations = useMemo((): PaginationCalc => {
-    const totalPages = Math.max(1, Math.ceil(totalItems / itemsPerPage));
+    const totalPages = countPages(mode, totalItems, itemsPerPage, nextCursors);
     const validPage = Math.min(currentPage, totalPages);
     const startIndex = (validPage - 1) * itemsPerPage;
-    const endIndex = Math.min(startIndex + itemsPerPage, totalItems);
+    const endIndex = mode === 'cursor' ? startIndex + itemsPerPage : Math.min(startIndex + itemsPerPage, totalItems);
     const offset = startIndex;
+    const cursor = mode === 'cursor' && validPage > 1 ? nextCursors[validPage - 2] : null;
     const hasPrevious = validPage > 1;
     const hasNext = validPage < totalPages;
 
@@ -113,66 +165,106 @@ export function usePagination(
       startIndex,
       endIndex,
       offset,
+      cursor,
       hasPrevious,
       hasNext
     };
-  }, [currentPage, itemsPerPage, totalItems]);
+  }, [mode, currentPage, itemsPerPage, totalItems, nextCursors]);
+
+  // Latest values for the actions, so none of them clamps against a stale render
+  const latestRef = useRef({ currentPage, itemsPerPage, totalItems, nextCursors, onChange: options.onChange });
+  latestRef.current = { currentPage, itemsPerPage, totalItems, nextCursors, onChange: options.onChange };
+
+  const commit = useCallback((page: number, newItemsPerPage: number, clamped = false) => {
+    const latest = latestRef.current;
+    if (page === latest.currentPage && newItemsPerPage === latest.itemsPerPage) return;
+
+    latestRef.current = { ...latest, currentPage: page, itemsPerPage: newItemsPerPage };
+    setPageState(page);
+    setItemsPerPageState(newItemsPerPage);
+    latest.onChange?.({ page, itemsPerPage: newItemsPerPage }, clamped);
+  }, []);
 
   // Navigation functions
   const goToPage = useCallback((page: number) => {
-    const clampedPage = Math.max(1, Math.min(page, calculations.totalPages));
-    setCurrentPage(clampedPage);
-  }, [calculations.totalPages]);
+    const latest = latestRef.current;
+    const totalPages = countPages(mode, latest.totalItems, latest.itemsPerPage, latest.nextCursors);
+    const clampedPage = Math.max(1, Math.min(page, totalPages));
+    commit(clampedPage, latest.itemsPerPage);
+  }, [mode, commit]);
 
   const nextPage = useCallback(() => {
-    if (calculations.hasNext) {
-      setCurrentPage(prev => prev + 1);
-    }
-  }, [calculations.hasNext]);
+    goToPage(latestRef.current.currentPage + 1);
+  }, [goToPage]);
 
   const previousPage = useCallback(() => {
-    if (calculations.hasPrevious) {
-      setCurrentPage(prev => prev - 1);
-    }
-  }, [calculations.hasPrevious]);
+    goToPage(latestRef.current.currentPage - 1);
+  }, [goToPage]);
 
   const firstPage = useCallback(() => {
-    setCurrentPage(1);
-  }, []);
+    goToPage(1);
+  }, [goToPage]);
 
   const lastPage = useCallback(() => {
-    setCurrentPage(calculations.totalPages);
-  }, [calculations.totalPages]);
+    goToPage(Infinity);
+  }, [goToPage]);
 
   const reset = useCallback((newTotalItems?: number) => {
-    setCurrentPage(1);
     if (newTotalItems !== undefined) {
+      latestRef.current = { ...latestRef.current, totalItems: newTotalItems };
       setTotalItemsState(newTotalItems);
     }
-  }, []);
+    latestRef.current = { ...latestRef.current, nextCursors: [] };
+    setNextCursors([]);
+    commit(1, latestRef.current.itemsPerPage);
+  }, [commit]);
 
   const setItemsPerPage = useCallback((newItemsPerPage: number) => {
+    const latest = latestRef.current;
+
+    // Cursors are tied to the page size: start over
+    if (mode === 'cursor') {
+      latestRef.current = { ...latest, nextCursors: [] };
+      setNextCursors([]);
+      commit(1, newItemsPerPage);
+      return;
+    }
+
     // Calculate what the new page should be to show the same items
-    const firstItemIndex = (currentPage - 1) * itemsPerPage;
+    const firstItemIndex = (latest.currentPage - 1) * latest.itemsPerPage;
     const newPage = Math.floor(firstItemIndex / newItemsPerPage) + 1;
-    
-    setItemsPerPageState(newItemsPerPage);
-    setCurrentPage(newPage);
-  }, [currentPage, itemsPerPage]);
+    commit(newPage, newItemsPerPage);
+  }, [mode, commit]);
 
   const setTotalItems = useCallback((newTotalItems: number) => {
+    const latest = latestRef.current;
+    latestRef.current = { ...latest, totalItems: newTotalItems };
     setTotalItemsState(newTotalItems);
-    
+
     // Adjust current page if it's beyond the new total
-    const newTotalPages = Math.max(1, Math.ceil(newTotalItems / itemsPerPage));
-    if (currentPage > newTotalPages) {
-      setCurrentPage(newTotalPages);
+    const newTotalPages = countPages(mode, newTotalItems, latest.itemsPerPage, latest.nextCursors);
+    if (latest.currentPage > newTotalPages) {
+      commit(newTotalPages, latest.itemsPerPage, true);
     }
-  }, [currentPage, itemsPerPage]);
+  }, [mode, commit]);
+
+  const setNextCursor = useCallback((cursor: string | null) => {
+    const latest = latestRef.current;
+
+    // Pages past this one were reached from older cursors and are dropped
+    const known = latest.nextCursors.slice(0, latest.currentPage - 1);
+    const next = cursor === null ? known : [...known, cursor];
+    if (next.length === latest.nextCursors.length && next.every((value, index) => value === latest.nextCursors[index])) {
+      return;
+    }
+
+    latestRef.current = { ...latest, nextCursors: next };
+    setNextCursors(next);
+  }, []);
 
   return {
     // State
-    currentPage,
+    currentPage: Math.min(currentPage, calculations.totalPages),
     itemsPerPage,
     totalItems,
     
@@ -187,7 +279,8 @@ export function usePagination(
     lastPage,
     reset,
     setItemsPerPage,
-    setTotalItems
+    setTotalItems,
+    setNextCursor
   };
 }
 
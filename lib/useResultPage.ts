@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback } from 'react';
+import { useUrlSearchState, type UrlHistoryMode } from './useUrlSearchState';
+import { DEFAULT_PAGE_SIZE, readPageSize } from './paging';
+
+/**
+ * Return type for useResultPage hook
+ */
+export interface UseResultPageReturn {
+  /** Page parsed from the current URL (1-based) */
+  page: number;
+  /** Page size parsed from the current URL */
+  pageSize: number;
+  /** Go to a page, optionally with a new page size (a new history entry unless mode is replace) */
+  setPage: (page: number, pageSize?: number, mode?: UrlHistoryMode) => void;
+}
+
+/**
+ * Custom hook keeping the results page in the URL (`?page=3&pageSize=48`)
+ *
+ * Page changes are pushed, so back/forward step through visited pages;
+ * corrections such as an out-of-range page should replace the entry.
+ * Like useUrlSearchState, it must render inside a `<Suspense>` boundary.
+ *
+ * @returns UseResultPageReturn - Current page, page size and setter
+ *
+ * @example
+ * ```tsx
+ * const { page, pageSize, setPage } = useResultPage();
+ * const pagination = usePagination(pageSize, total, {
+ *   page,
+ *   itemsPerPage: pageSize,
+ *   onChange: (next, clamped) => setPage(next.page, next.itemsPerPage, clamped ? 'replace' : 'push'),
+ * });
+ * ```
+ */
+export function useResultPage(): UseResultPageReturn {
+  const { state, update } = useUrlSearchState();
+
+  const setPage = useCallback((page: number, pageSize?: number, mode: UrlHistoryMode = 'push') => {
+    const size = readPageSize(pageSize ?? state.pageSize);
+    update({ page, pageSize: size === DEFAULT_PAGE_SIZE ? undefined : size }, mode);
+  }, [state.pageSize, update]);
+
+  return { page: state.page, pageSize: readPageSize(state.pageSize), setPage };
+}
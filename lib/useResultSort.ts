@@ -0,0 +1,38 @@
+"use client";
+
+import { useCallback } from 'react';
+import { useUrlSearchState } from './useUrlSearchState';
+import { DEFAULT_SORT, readSortKey, type SortKey } from './sorting';
+
+/**
+ * Return type for useResultSort hook
+ */
+export interface UseResultSortReturn {
+  /** Sort key parsed from the current URL */
+  sort: SortKey;
+  /** Change the order (back to the first page) */
+  setSort: (sort: SortKey) => void;
+}
+
+/**
+ * Custom hook keeping the result order in the URL (`?sort=price-asc`)
+ *
+ * Like useUrlSearchState, it must render inside a `<Suspense>` boundary.
+ *
+ * @returns UseResultSortReturn - Current sort key and setter
+ *
+ * @example
+ * ```tsx
+ * const { sort, setSort } = useResultSort();
+ * <ResultList data={data} status="success" sort={sort} onSortChange={setSort} />
+ * ```
+ */
+export function useResultSort(): UseResultSortReturn {
+  const { state, update } = useUrlSearchState();
+
+  const setSort = useCallback((sort: SortKey) => {
+    update({ sort: sort === DEFAULT_SORT ? undefined : sort, page: 1 });
+  }, [update]);
+
+  return { sort: readSortKey(state.sort), setSort };
+}
@@ -2,7 +2,41 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import type { SearchResponse } from "./types";
-import { searchProducts, getAllProducts, ApiClientError } from "./api";
+import { searchProducts, getAllProducts, getSearchErrorMessage } from "./api";
+import { createQueryCache, normalizeQueryKey } from "./queryCache";
+import { DEFAULT_LOCALE, type Locale } from "./i18n/config";
+import { getTranslator } from "./i18n/translator";
+
+/**
+ * Shared search cache (module scope, survives remounts)
+ */
+const searchCache = createQueryCache<SearchResponse>(50);
+
+/**
+ * Default cache timings
+ */
+const CACHE_DEFAULTS = {
+  /** Cached results older than this are discarded (5 minutes) */
+  ttlMs: 5 * 60 * 1000,
+  /** Cached results younger than this are not revalidated (10 seconds) */
+  freshMs: 10 * 1000,
+} as const;
+
+/**
+ * Options for useSearch
+ */
+export interface UseSearchOptions {
+  /** Whether to use the client query cache (default: true) */
+  cache?: boolean;
+  /** Maximum age of a cached result before it is discarded */
+  cacheTtlMs?: number;
+  /** Age below which a cached result is served without revalidation */
+  cacheFreshMs?: number;
+  /** Query to start with, e.g. restored from the URL (default: "") */
+  initialQuery?: string;
+  /** Language of error messages and discount explanations (default: DEFAULT_LOCALE) */
+  locale?: Locale;
+}
 
 /**
  * Status of the search operation
@@ -17,12 +51,20 @@ export interface UseSearchReturn {
   q: string;
   /** Set query string */
   setQ: (query: string) => void;
-  /** Search data (null when no data) */
+  /** Search data (null when no data); keeps the last successful result while loading */
   data: SearchResponse | null;
+  /** Last successful result, kept across new requests and errors */
+  previousData: SearchResponse | null;
+  /** Whether the shown data belongs to an earlier query while a new one loads */
+  isStale: boolean;
   /** Current status of search */
   status: SearchStatus;
   /** Error message (empty string when no error) */
   error: string;
+  /** Whether cached data is shown while a background request refreshes it */
+  isRevalidating: boolean;
+  /** Whether the current data was served from the client cache */
+  fromCache: boolean;
   /** Manually trigger search */
   search: (query: string) => void;
   /** Clear search results and reset to idle */
@@ -35,13 +77,16 @@ export interface UseSearchReturn {
  * Features:
  * - Automatic debouncing (400ms default)
  * - Request cancellation on new searches
+ * - Previous results stay visible while a new search loads
  * - Error handling with user-friendly messages
  * - Status management for UI states
  * - Manual search triggering
- * - Initial load of all products
+ * - Initial load of all products (or of `initialQuery` for deep links)
+ * - LRU query cache with stale-while-revalidate and request deduplication
  * 
  * @param debounceMs - Debounce delay in milliseconds (default: 400)
  * @param loadInitial - Whether to load all products on mount (default: true)
+ * @param options - Cache options (TTL, freshness window, opt-out) and initial query
  * @returns UseSearchReturn - Search state and controls
  * 
  * @example
@@ -60,12 +105,30 @@ export interface UseSearchReturn {
  * }
  * ```
  */
-export function useSearch(debounceMs: number = 400, loadInitial: boolean = true): UseSearchReturn {
+export function useSearch(
+  debounceMs: number = 400,
+  loadInitial: boolean = true,
+  options: UseSearchOptions = {}
+): UseSearchReturn {
+  const {
+    cache: useCache = true,
+    cacheTtlMs = CACHE_DEFAULTS.ttlMs,
+    cacheFreshMs = CACHE_DEFAULTS.freshMs,
+    initialQuery = "",
+    locale = DEFAULT_LOCALE,
+  } = options;
+
   // State management
-  const [q, setQ] = useState<string>("");
+  const [q, setQ] = useState<string>(initialQuery);
   const [data, setData] = useState<SearchResponse | null>(null);
   const [status, setStatus] = useState<SearchStatus>("idle");
   const [error, setError] = useState<string>("");
+  const [isRevalidating, setIsRevalidating] = useState<boolean>(false);
+  const [fromCache, setFromCache] = useState<boolean>(false);
+  const [previousData, setPreviousData] = useState<SearchResponse | null>(null);
+
+  // Mirror of previousData readable inside stable callbacks
+  const lastSuccessRef = useRef<SearchResponse | null>(null);
 
   // Refs for cleanup and cancellation
   const inFlightController = useRef<AbortController | null>(null);
@@ -98,8 +161,12 @@ export function useSearch(debounceMs: number = 400, loadInitial: boolean = true)
     clearDebounceTimeout();
     abortInFlightRequest();
     setData(null);
+    setPreviousData(null);
+    lastSuccessRef.current = null;
     setStatus("idle");
     setError("");
+    setIsRevalidating(false);
+    setFromCache(false);
   }, [clearDebounceTimeout, abortInFlightRequest]);
 
   /**
@@ -124,23 +191,53 @@ export function useSearch(debounceMs: number = 400, loadInitial: boolean = true)
     const controller = new AbortController();
     inFlightController.current = controller;
 
-    // Set loading state
-    console.log('🎯 [useSearch] Setting status to loading');
-    setStatus("loading");
-    setError("");
+    // Explanations are localized, so each locale caches its own results
+    const cacheKey = `${locale}:${normalizeQueryKey(query || "")}`;
+    const cached = useCache ? searchCache.get(cacheKey, { ttlMs: cacheTtlMs }) : undefined;
 
-    try {
-      let response: SearchResponse;
-      
+    if (cached) {
+      // Serve cached results instantly
+      console.log('🎯 [useSearch] Cache hit for query:', JSON.stringify(cacheKey));
+      setData(cached.value);
+      setPreviousData(cached.value);
+      lastSuccessRef.current = cached.value;
+      setStatus("success");
+      setError("");
+      setFromCache(true);
+
+      // Recent enough: skip revalidation entirely
+      if (Date.now() - cached.updatedAt < cacheFreshMs) {
+        setIsRevalidating(false);
+        inFlightController.current = null;
+        return;
+      }
+
+      setIsRevalidating(true);
+    } else {
+      // Set loading state, keeping the last successful results on screen
+      console.log('🎯 [useSearch] Setting status to loading');
+      setData(current => current ?? lastSuccessRef.current);
+      setStatus("loading");
+      setError("");
+      setIsRevalidating(false);
+    }
+
+    const load = (signal: AbortSignal) => {
       if (!query || query.trim().length === 0) {
         console.log('🎯 [useSearch] Empty query, calling getAllProducts');
         // Load all products if no query
-        response = await getAllProducts(controller.signal);
-      } else {
-        console.log('🎯 [useSearch] Non-empty query, calling searchProducts');
-        // Search with query
-        response = await searchProducts(query.trim(), controller.signal);
+        return getAllProducts(signal, locale);
       }
+      console.log('🎯 [useSearch] Non-empty query, calling searchProducts');
+      // Search with query
+      return searchProducts(query.trim(), signal, locale);
+    };
+
+    try {
+      // Identical in-flight requests are shared through the cache
+      const response = useCache
+        ? await searchCache.fetch(cacheKey, load, controller.signal)
+        : await load(controller.signal);
       
       console.log('🎯 [useSearch] API response received, updating state to success');
       
@@ -148,8 +245,12 @@ export function useSearch(debounceMs: number = 400, loadInitial: boolean = true)
       if (!controller.signal.aborted) {
         // Use React.startTransition to make these updates non-blocking
         setData(response);
+        setPreviousData(response);
+        lastSuccessRef.current = response;
         setStatus("success");
         setError("");
+        setIsRevalidating(false);
+        setFromCache(false);
         console.log('🎯 [useSearch] State updated successfully');
         
         // Restore focus after state update with multiple attempts
@@ -188,44 +289,22 @@ export function useSearch(debounceMs: number = 400, loadInitial: boolean = true)
       
       // Only handle error if request wasn't cancelled
       if (!controller.signal.aborted) {
-        let errorMessage = "No se pudo completar la búsqueda.";
-        
-        if (err instanceof ApiClientError) {
-          switch (err.statusCode) {
-            case 400:
-              errorMessage = "Parámetro de búsqueda inválido.";
-              break;
-            case 404:
-              errorMessage = "Servicio no encontrado.";
-              break;
-            case 500:
-              errorMessage = "Error interno del servidor.";
-              break;
-            case 0:
-              if (err.error === 'Network Error') {
-                errorMessage = "Error de conexión. Verifica tu conexión a internet.";
-              } else if (err.error === 'Request Cancelled') {
-                // Don't show error for cancelled requests
-                return;
-              } else {
-                errorMessage = "Error de conexión.";
-              }
-              break;
-            default:
-              errorMessage = err.message || errorMessage;
-          }
-        } else if (err instanceof Error) {
-          // Handle other types of errors
-          if (err.name === 'AbortError') {
-            // Request was cancelled, don't show error
-            return;
-          }
-          errorMessage = err.message || errorMessage;
+        // A failed background revalidation keeps the cached results on screen
+        if (cached) {
+          console.warn('🎯 [useSearch] Revalidation failed, keeping cached data:', err);
+          setIsRevalidating(false);
+          return;
+        }
+
+        const errorMessage = getSearchErrorMessage(err, getTranslator(locale));
+        if (errorMessage === null) {
+          return;
         }
 
         setError(errorMessage);
         setStatus("error");
         setData(null);
+        setFromCache(false);
         console.log('🎯 [useSearch] Error state set:', errorMessage);
         
         // Restore focus even on error with multiple attempts
@@ -250,7 +329,7 @@ export function useSearch(debounceMs: number = 400, loadInitial: boolean = true)
         console.log('🎯 [useSearch] Error occurred but request was aborted, ignoring');
       }
     }
-  }, [abortInFlightRequest]);
+  }, [abortInFlightRequest, useCache, cacheTtlMs, cacheFreshMs, locale]);
 
   /**
    * Manual search function
@@ -261,11 +340,17 @@ export function useSearch(debounceMs: number = 400, loadInitial: boolean = true)
   }, [clearDebounceTimeout, executeSearch]);
 
   /**
-   * Effect for initial load of all products
+   * Effect for initial load: all products, or the initial query without waiting for the debounce
    */
+  const initialQueryRef = useRef(initialQuery);
   useEffect(() => {
-    if (loadInitial && status === 'idle' && !q) {
+    if (!loadInitial || status !== 'idle') return;
+
+    if (!q) {
       executeSearch('');
+    } else if (q === initialQueryRef.current) {
+      initialQueryRef.current = "";
+      executeSearch(q);
     }
   }, [loadInitial, status, q, executeSearch]);
 
@@ -331,12 +416,18 @@ export function useSearch(debounceMs: number = 400, loadInitial: boolean = true)
     });
   }, [q, status, data, error]);
 
+  const isStale = status === "loading" && data !== null;
+
   return {
     q,
     setQ,
     data,
+    previousData,
+    isStale,
     status,
     error,
+    isRevalidating,
+    fromCache,
     search,
     reset,
   };
@@ -0,0 +1,62 @@
+"use client";
+
+import { useCallback } from 'react';
+import { useStoredState, type StoredStateCodec } from './useStoredState';
+import {
+  addToSearchHistory,
+  parseStoredSearchHistory,
+  removeFromSearchHistory,
+  SEARCH_HISTORY_STORAGE_KEY,
+  serializeSearchHistory,
+  type SearchHistoryEntry,
+} from './searchHistory';
+
+/**
+ * Return type for useSearchHistory hook
+ */
+export interface UseSearchHistoryReturn {
+  /** Past queries, most recent first */
+  entries: SearchHistoryEntry[];
+  /** Record a search (moves a repeated query to the top) */
+  record: (query: string) => void;
+  /** Forget one past query */
+  remove: (query: string) => void;
+  /** Forget every past query */
+  clear: () => void;
+}
+
+// Server render and first paint show no history
+const SEARCH_HISTORY_CODEC: StoredStateCodec<SearchHistoryEntry[]> = {
+  initial: [],
+  parse: parseStoredSearchHistory,
+  serialize: serializeSearchHistory,
+};
+
+/**
+ * Custom hook for the search history, persisted in localStorage
+ *
+ * @returns UseSearchHistoryReturn - Entries and actions
+ *
+ * @example
+ * ```tsx
+ * const { entries, record, remove, clear } = useSearchHistory();
+ * record('abba');
+ * ```
+ */
+export function useSearchHistory(): UseSearchHistoryReturn {
+  const [entries, setEntries] = useStoredState<SearchHistoryEntry[]>(SEARCH_HISTORY_STORAGE_KEY, SEARCH_HISTORY_CODEC);
+
+  const record = useCallback((query: string) => {
+    setEntries(current => addToSearchHistory(current, query));
+  }, [setEntries]);
+
+  const remove = useCallback((query: string) => {
+    setEntries(current => removeFromSearchHistory(current, query));
+  }, [setEntries]);
+
+  const clear = useCallback(() => {
+    setEntries([]);
+  }, [setEntries]);
+
+  return { entries, record, remove, clear };
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react";
+
+/**
+ * How a stored value is read from and written to localStorage
+ */
+export interface StoredStateCodec<T> {
+  /** Value used on the server, on first paint and when nothing is stored */
+  initial: T;
+  /** Parse a stored string (null when absent); must not throw */
+  parse: (raw: string | null) => T;
+  /** Serialise a value for storage */
+  serialize: (value: T) => string;
+}
+
+/**
+ * Custom hook for state persisted in localStorage and shared between tabs
+ *
+ * Starts from `initial` so server and client render the same markup,
+ * restores the stored value after mount, writes local changes back and
+ * follows other tabs through the storage event.
+ *
+ * @param key - localStorage key
+ * @param codec - Initial value, parser and serialiser (a module constant, so effects do not rerun)
+ * @returns [value, setValue] - Like useState
+ *
+ * @example
+ * ```typescript
+ * const CART_CODEC = { initial: [], parse: parseStoredCart, serialize: serializeCart };
+ *
+ * const [lines, setLines] = useStoredState(CART_STORAGE_KEY, CART_CODEC);
+ * ```
+ */
+export function useStoredState<T>(key: string, codec: StoredStateCodec<T>): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(codec.initial);
+  const [isRestored, setIsRestored] = useState(false);
+
+  // Value last read from or written to storage, so other tabs' updates are not echoed back
+  const syncedRef = useRef<string>('');
+
+  // Restore the persisted value after mount and follow other tabs
+  useEffect(() => {
+    const { parse, serialize } = codec;
+
+    let stored: T;
+    try {
+      stored = parse(window.localStorage.getItem(key));
+    } catch {
+      stored = parse(null);
+    }
+    syncedRef.current = serialize(stored);
+    setValue(stored);
+    setIsRestored(true);
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== key) return;
+      const next = parse(event.newValue);
+      syncedRef.current = serialize(next);
+      setValue(next);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key, codec]);
+
+  // Persist local changes (never the initial value over a stored one)
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const serialized = codec.serialize(value);
+    if (serialized === syncedRef.current) return;
+
+    syncedRef.current = serialized;
+    try {
+      window.localStorage.setItem(key, serialized);
+    } catch {
+      // Private mode or full storage: the value lasts for this visit only
+    }
+  }, [key, codec, value, isRestored]);
+
+  return [value, setValue];
+}
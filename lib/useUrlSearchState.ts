@@ -0,0 +1,168 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+/**
+ * Search state mirrored into the URL
+ */
+export interface SearchUrlState {
+  /** Search query (`?q=`) */
+  q: string;
+  /** Current results page, 1-based (`?page=`) */
+  page: number;
+  /** Results per page when not the default (`?pageSize=`) */
+  pageSize?: number;
+  /** Sort key (`?sort=`) */
+  sort?: string;
+  /** Active filters: every other parameter, repeated keys allowed (`?brand=Wilson&brand=Head`) */
+  filters: Record<string, string[]>;
+}
+
+/**
+ * How a URL update is recorded in browser history
+ * - replace: typing and refinements (no history spam)
+ * - push: committed navigations such as page changes (back/forward friendly)
+ */
+export type UrlHistoryMode = 'replace' | 'push';
+
+/**
+ * Return type for useUrlSearchState hook
+ */
+export interface UseUrlSearchStateReturn {
+  /** State parsed from the current URL */
+  state: SearchUrlState;
+  /** Merge a partial state into the URL; returns false when the URL already matched */
+  update: (partial: Partial<SearchUrlState>, mode?: UrlHistoryMode) => boolean;
+}
+
+/**
+ * Parameters with a dedicated field in SearchUrlState
+ */
+const RESERVED_PARAMS = new Set(['q', 'page', 'pageSize', 'sort']);
+
+/**
+ * Parse URL search params into SearchUrlState
+ */
+export function parseSearchUrlState(params: URLSearchParams): SearchUrlState {
+  const page = Number(params.get('page'));
+  const pageSize = Number(params.get('pageSize'));
+  const filters: Record<string, string[]> = {};
+
+  params.forEach((value, key) => {
+    if (RESERVED_PARAMS.has(key) || value === '') return;
+    (filters[key] ??= []).push(value);
+  });
+
+  return {
+    q: params.get('q') ?? '',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+    pageSize: Number.isInteger(pageSize) && pageSize > 0 ? pageSize : undefined,
+    sort: params.get('sort') || undefined,
+    filters,
+  };
+}
+
+/**
+ * Serialize SearchUrlState into a query string (defaults are omitted)
+ *
+ * @example
+ * ```typescript
+ * serializeSearchUrlState({ q: 'radar', page: 2, filters: { brand: ['Head'] } });
+ * // "q=radar&page=2&brand=Head"
+ * ```
+ */
+export function serializeSearchUrlState(state: SearchUrlState): string {
+  const params = new URLSearchParams();
+
+  if (state.q.trim()) params.set('q', state.q);
+  if (state.page > 1) params.set('page', String(state.page));
+  if (state.pageSize) params.set('pageSize', String(state.pageSize));
+  if (state.sort) params.set('sort', state.sort);
+
+  for (const [key, values] of Object.entries(state.filters)) {
+    for (const value of values) {
+      params.append(key, value);
+    }
+  }
+
+  return params.toString();
+}
+
+/**
+ * Custom hook that mirrors search state into the URL search params
+ *
+ * Features:
+ * - Query, page, page size, sort and filters restored from the URL on load (deep links)
+ * - `router.replace` for refinements, `router.push` for committed navigations
+ * - Browser back/forward reported through `onPopState`
+ * - A changed query resets the page to 1
+ * - No-op writes when the URL already matches
+ *
+ * Components using this hook must render inside a `<Suspense>` boundary
+ * because it reads `useSearchParams()`.
+ *
+ * @param onPopState - Called with the restored state on back/forward navigation
+ * @returns UseUrlSearchStateReturn - Parsed state and updater
+ *
+ * @example
+ * ```typescript
+ * const { state, update } = useUrlSearchState((restored) => search(restored.q));
+ * update({ q: 'level', page: 1 });           // replace
+ * update({ page: 3 }, 'push');               // push
+ * ```
+ */
+export function useUrlSearchState(onPopState?: (state: SearchUrlState) => void): UseUrlSearchStateReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const state = useMemo(
+    () => parseSearchUrlState(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  // Latest state for the updater without re-creating it on every URL change
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const onPopStateRef = useRef(onPopState);
+  onPopStateRef.current = onPopState;
+
+  const update = useCallback((partial: Partial<SearchUrlState>, mode: UrlHistoryMode = 'replace') => {
+    // Read the live URL: router updates may not have re-rendered yet
+    const current = typeof window !== 'undefined'
+      ? parseSearchUrlState(new URLSearchParams(window.location.search))
+      : stateRef.current;
+
+    // A new query starts over from the first page unless a page is given
+    const queryChanged = partial.q !== undefined && partial.q.trim() !== current.q.trim();
+    const next = serializeSearchUrlState({
+      ...current,
+      ...(queryChanged ? { page: 1 } : {}),
+      ...partial,
+    });
+    const currentSearch = serializeSearchUrlState(current);
+    if (next === currentSearch) return false;
+
+    const href = next ? `${pathname}?${next}` : pathname;
+    if (mode === 'push') {
+      router.push(href, { scroll: false });
+    } else {
+      router.replace(href, { scroll: false });
+    }
+    return true;
+  }, [pathname, router]);
+
+  // Back/forward support
+  useEffect(() => {
+    const handlePopState = () => {
+      onPopStateRef.current?.(parseSearchUrlState(new URLSearchParams(window.location.search)));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return { state, update };
+}
@@ -0,0 +1,332 @@
+/**
+ * Validation mode
+ * - strict: any mismatch fails the whole payload
+ * - lenient: bad array elements are dropped and repairable values are coerced
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * A single field-level validation diagnostic
+ */
+export interface ValidationIssue {
+  /** Path to the offending value (e.g. "items[3].finalPrice") */
+  path: string;
+  /** Expected type description */
+  expected: string;
+  /** Actual type description */
+  actual: string;
+  /** Outcome: rejected (failure), repaired (coerced) or dropped (removed from an array) */
+  action: 'rejected' | 'repaired' | 'dropped';
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T; issues: ValidationIssue[] }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Parsing context shared across a validation run
+ */
+export interface ParseContext {
+  mode: ValidationMode;
+  issues: ValidationIssue[];
+}
+
+const INVALID = Symbol('invalid');
+type ParseResult<T> = T | typeof INVALID;
+
+/**
+ * Declarative schema describing a runtime value of type T
+ */
+export interface Schema<T> {
+  /** Human readable description used in diagnostics */
+  readonly expected: string;
+  /** Whether the key may be absent when used inside an object schema */
+  readonly isOptional: boolean;
+  /** Parse a value, recording issues on the context */
+  readonly parse: (value: unknown, path: string, ctx: ParseContext) => ParseResult<T>;
+}
+
+/**
+ * TypeScript type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K]['isOptional'] extends true ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/**
+ * Error thrown when strict validation fails
+ */
+export class SchemaValidationError extends Error {
+  constructor(public issues: ValidationIssue[]) {
+    super(issues.map(formatIssue).join('; '));
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Describe the runtime type of a value for diagnostics
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+/**
+ * Append a key or index to a path
+ */
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Format an issue as "path: expected X, got Y"
+ *
+ * @example
+ * ```typescript
+ * formatIssue(issue); // "items[3].finalPrice: expected number, got string"
+ * ```
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  const suffix = issue.action === 'rejected' ? '' : ` (${issue.action})`;
+  return `${issue.path || '(root)'}: expected ${issue.expected}, got ${issue.actual}${suffix}`;
+}
+
+/**
+ * Build a primitive schema from a predicate and optional lenient repair
+ */
+function primitive<T>(
+  expected: string,
+  check: (value: unknown) => value is T,
+  repair?: (value: unknown) => T | undefined
+): Schema<T> & { isOptional: false } {
+  return {
+    expected,
+    isOptional: false,
+    parse(value, path, ctx) {
+      if (check(value)) return value;
+
+      const actual = describe(value);
+      if (ctx.mode === 'lenient' && repair) {
+        const repaired = repair(value);
+        if (repaired !== undefined) {
+          ctx.issues.push({ path, expected, actual, action: 'repaired' });
+          return repaired;
+        }
+      }
+
+      ctx.issues.push({ path, expected, actual, action: 'rejected' });
+      return INVALID;
+    },
+  };
+}
+
+/**
+ * String schema
+ */
+export function string() {
+  return primitive('string', (value): value is string => typeof value === 'string');
+}
+
+/**
+ * Boolean schema
+ */
+export function boolean() {
+  return primitive('boolean', (value): value is boolean => typeof value === 'boolean');
+}
+
+/**
+ * Finite number schema
+ * In lenient mode numeric strings (e.g. "1500.00") are coerced
+ */
+export function number(options: { integer?: boolean; min?: number } = {}) {
+  const { integer = false, min } = options;
+  const expected = [
+    integer ? 'integer' : 'number',
+    min !== undefined ? `>= ${min}` : '',
+  ].filter(Boolean).join(' ');
+
+  const isValid = (value: unknown): value is number =>
+    typeof value === 'number' &&
+    isFinite(value) &&
+    (!integer || Number.isInteger(value)) &&
+    (min === undefined || value >= min);
+
+  return primitive(expected, isValid, (value) => {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    const coerced = Number(value);
+    return isValid(coerced) ? coerced : undefined;
+  });
+}
+
+/**
+ * String containing a finite decimal number (e.g. backend `price: "1500.00"`)
+ * In lenient mode finite numbers are coerced to strings
+ */
+export function numericString() {
+  const isValid = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim() !== '' && isFinite(Number(value));
+
+  return primitive('numeric string', isValid, (value) =>
+    typeof value === 'number' && isFinite(value) ? String(value) : undefined
+  );
+}
+
+/**
+ * Mark a schema as optional (key may be missing or undefined)
+ * In lenient mode an invalid value is discarded instead of failing the parent
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> & { isOptional: true } {
+  return {
+    expected: `${schema.expected} | undefined`,
+    isOptional: true,
+    parse(value, path, ctx) {
+      if (value === undefined) return undefined;
+
+      if (ctx.mode === 'lenient') {
+        const local: ParseContext = { mode: ctx.mode, issues: [] };
+        const result = schema.parse(value, path, local);
+        if (result === INVALID) {
+          ctx.issues.push(...local.issues.map(issue => ({ ...issue, action: 'dropped' as const })));
+          return undefined;
+        }
+        ctx.issues.push(...local.issues);
+        return result;
+      }
+
+      return schema.parse(value, path, ctx);
+    },
+  };
+}
+
+/**
+ * Array schema
+ * In lenient mode invalid elements are dropped instead of failing the array
+ */
+export function array<T>(element: Schema<T>): Schema<T[]> & { isOptional: false } {
+  const expected = `${element.expected}[]`;
+
+  return {
+    expected,
+    isOptional: false,
+    parse(value, path, ctx) {
+      if (!Array.isArray(value)) {
+        ctx.issues.push({ path, expected, actual: describe(value), action: 'rejected' });
+        return INVALID;
+      }
+
+      const output: T[] = [];
+      let failed = false;
+
+      value.forEach((item, index) => {
+        const itemPath = joinPath(path, index);
+
+        if (ctx.mode === 'lenient') {
+          const local: ParseContext = { mode: ctx.mode, issues: [] };
+          const result = element.parse(item, itemPath, local);
+          if (result === INVALID) {
+            ctx.issues.push(...local.issues.map(issue => ({ ...issue, action: 'dropped' as const })));
+          } else {
+            ctx.issues.push(...local.issues);
+            output.push(result);
+          }
+          return;
+        }
+
+        const result = element.parse(item, itemPath, ctx);
+        if (result === INVALID) {
+          failed = true;
+        } else {
+          output.push(result);
+        }
+      });
+
+      return failed ? INVALID : output;
+    },
+  };
+}
+
+/**
+ * Object schema
+ * Unknown keys are ignored and stripped from the output
+ */
+export function object<S extends Shape>(shape: S): Schema<InferShape<S>> & { isOptional: false; shape: S } {
+  return {
+    expected: 'object',
+    isOptional: false,
+    shape,
+    parse(value, path, ctx) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        ctx.issues.push({ path, expected: 'object', actual: describe(value), action: 'rejected' });
+        return INVALID;
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      let failed = false;
+
+      for (const key of Object.keys(shape)) {
+        const result = shape[key].parse(input[key], joinPath(path, key), ctx);
+        if (result === INVALID) {
+          failed = true;
+        } else if (result !== undefined) {
+          output[key] = result;
+        }
+      }
+
+      return failed ? INVALID : output as InferShape<S>;
+    },
+  };
+}
+
+/**
+ * Validate a value against a schema without throwing
+ *
+ * @param schema - Schema to validate against
+ * @param data - Untrusted input
+ * @param mode - Validation mode (default: strict)
+ * @returns ValidationResult<T> - Parsed value plus all issues found
+ *
+ * @example
+ * ```typescript
+ * const result = validate(SearchResponseSchema, json, 'lenient');
+ * if (!result.ok) console.warn(result.issues.map(formatIssue));
+ * ```
+ */
+export function validate<T>(schema: Schema<T>, data: unknown, mode: ValidationMode = 'strict'): ValidationResult<T> {
+  const ctx: ParseContext = { mode, issues: [] };
+  const value = schema.parse(data, '', ctx);
+
+  if (value === INVALID) {
+    return { ok: false, issues: ctx.issues };
+  }
+
+  return { ok: true, value, issues: ctx.issues };
+}
+
+/**
+ * Validate a value and throw SchemaValidationError on failure
+ */
+export function parse<T>(schema: Schema<T>, data: unknown, mode: ValidationMode = 'strict'): T {
+  const result = validate(schema, data, mode);
+  if (!result.ok) {
+    throw new SchemaValidationError(result.issues);
+  }
+  return result.value;
+}
@@ -0,0 +1,113 @@
+import type { ProductItem } from './types';
+import { array, number, object, optional, string, validate, type Infer } from './validation';
+
+/**
+ * Wishlist
+ *
+ * Saved products remember the price shown when they were saved, so the
+ * wishlist page can compare it with today's price. All functions are pure;
+ * WishlistProvider persists and shares the state.
+ */
+
+/**
+ * localStorage key of the wishlist
+ */
+export const WISHLIST_STORAGE_KEY = 'palindrome-web:wishlist';
+
+/**
+ * A saved product as persisted
+ */
+export const WishlistEntrySchema = object({
+  productId: number({ integer: true }),
+  title: string(),
+  brand: string(),
+  imageUrl: optional(string()),
+  /** Price shown when saved (palindrome price included) */
+  savedPrice: object({
+    amount: number({ integer: true }),
+    currency: string(),
+  }),
+  /** ISO instant the product was saved */
+  savedAt: string(),
+});
+
+/**
+ * Persisted wishlist payload
+ */
+export const WishlistStorageSchema = object({
+  entries: array(WishlistEntrySchema),
+});
+
+/**
+ * Single saved product
+ */
+export type WishlistEntry = Infer<typeof WishlistEntrySchema>;
+
+/**
+ * Whether a product is saved
+ */
+export function isInWishlist(entries: WishlistEntry[], productId: number): boolean {
+  return entries.some(entry => entry.productId === productId);
+}
+
+/**
+ * Save a product, or unsave it when it is already saved
+ *
+ * @param entries - Current entries
+ * @param item - Product as displayed, with its final price
+ * @returns WishlistEntry[] - New entries, most recently saved first (input is not mutated)
+ *
+ * @example
+ * ```typescript
+ * let entries = toggleWishlist([], item); // saved at item.finalPrice
+ * entries = toggleWishlist(entries, item); // removed again
+ * ```
+ */
+export function toggleWishlist(entries: WishlistEntry[], item: ProductItem): WishlistEntry[] {
+  if (isInWishlist(entries, item.id)) {
+    return removeFromWishlist(entries, item.id);
+  }
+
+  return [
+    {
+      productId: item.id,
+      title: item.title,
+      brand: item.brand,
+      imageUrl: item.imageUrl,
+      savedPrice: item.finalPrice,
+      savedAt: new Date().toISOString(),
+    },
+    ...entries,
+  ];
+}
+
+/**
+ * Remove a saved product
+ */
+export function removeFromWishlist(entries: WishlistEntry[], productId: number): WishlistEntry[] {
+  return entries.filter(entry => entry.productId !== productId);
+}
+
+/**
+ * Parse a persisted wishlist
+ * Malformed entries are dropped; unreadable payloads yield an empty wishlist.
+ *
+ * @param raw - localStorage value (null when absent)
+ */
+export function parseStoredWishlist(raw: string | null): WishlistEntry[] {
+  if (!raw) return [];
+
+  try {
+    const result = validate(WishlistStorageSchema, JSON.parse(raw), 'lenient');
+    return result.ok ? result.value.entries : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serialise entries for localStorage
+ */
+export function serializeWishlist(entries: WishlistEntry[]): string {
+  return JSON.stringify({ entries });
+}
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { LOCALE_COOKIE } from '@/lib/i18n/config';
+import { getPathLocale, localizePath, negotiateLocale } from '@/lib/i18n/negotiate';
+
+/**
+ * How long the locale cookie is kept (one year, in seconds)
+ */
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Locale routing
+ *
+ * - Unprefixed pages redirect to their locale-prefixed URL, picking the
+ *   locale from the cookie, then Accept-Language (`/search?q=abba` → `/es/search?q=abba`)
+ * - Prefixed pages remember their locale in the cookie, so the language
+ *   switcher's choice sticks for later unprefixed visits
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const cookieLocale = request.cookies.get(LOCALE_COOKIE)?.value;
+  const pathLocale = getPathLocale(pathname);
+
+  if (pathLocale) {
+    const response = NextResponse.next();
+    if (cookieLocale !== pathLocale) {
+      response.cookies.set(LOCALE_COOKIE, pathLocale, { path: '/', maxAge: LOCALE_COOKIE_MAX_AGE, sameSite: 'lax' });
+    }
+    return response;
+  }
+
+  const locale = negotiateLocale({
+    cookie: cookieLocale,
+    acceptLanguage: request.headers.get('accept-language'),
+  });
+
+  const url = request.nextUrl.clone();
+  url.pathname = localizePath(pathname, locale);
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Pages only: API routes, Next internals and files (favicon.ico) are served as-is
+  matcher: ['/((?!api|_next|.*\\..*).*)'],
+};
@@ -17,6 +17,17 @@ const nextConfig: NextConfig = {
     unoptimized: true, // Disable image optimization for simpler Docker builds
   },
   
+  // Let NEXT_PUBLIC_API_BASE_URL=<app>/api/mock behave like the backend origin:
+  // /api/mock/api/products/... is served by the handlers in app/api/mock/products
+  async rewrites() {
+    return [
+      {
+        source: '/api/mock/api/:path*',
+        destination: '/api/mock/:path*',
+      },
+    ];
+  },
+  
   // Security headers
   async headers() {
     return [